@@ -0,0 +1,91 @@
+/**
+ * Offline Scoring Model Build
+ *
+ * Rebuilds findings.json and scoring_model.json from the cached dataset
+ * without calling the YouTube or Vision APIs.
+ *
+ * Usage:
+ *   npm run build-model -- [--reanalyze] [--heuristic-weights] [--seed <n>]
+ *                          [--target <id>] [--as-of <date>] [--studio-csv <file>]
+ *                          [--data <dir>] [--out <dir>] [--version <id>]
+ *
+ *   --reanalyze          Re-run the web app's feature extractors over data/thumbnails
+ *                        instead of using the cached Vision results
+ *   --heuristic-weights  Use the original CTR-difference weights instead of regression
+ *   --seed               Seed for the cross-validation folds and holdout split
+ *   --target             What counts as engagement: estimated-ctr (default), views-per-hour,
+ *                        channel-relative or studio-ctr
+ *   --as-of              When the view counts were collected, for views-per-hour
+ *   --studio-csv         YouTube Studio "Table data.csv" export, for studio-ctr
+ */
+
+import path from 'path';
+import { ENGAGEMENT_TARGET_IDS, EngagementTargetId, runPipeline } from '../src/lib/pipeline';
+import { ModelFit } from '../src/app/utils/scoringModel';
+
+// Value following a flag, e.g. --data ./data
+function getFlagValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+// Print the fitted coefficients and how well they predict the target
+function printFitReport(fit: ModelFit) {
+  const format = (value: number) => value.toFixed(3);
+
+  console.log(`\nRidge regression on ${fit.target}, lambda ${fit.lambda}, ${fit.sampleCount} samples`);
+  console.table(Object.fromEntries(Object.entries(fit.coefficients).map(([key, estimate]) => [key, {
+    coefficient: format(estimate.coefficient),
+    '95% CI': `${format(estimate.confidenceInterval.lower)} to ${format(estimate.confidenceInterval.upper)}`,
+    weight: format(estimate.weight),
+    clamped: estimate.clamped ?? false,
+    'weight range': `${format(estimate.weightInterval.lower)} to ${format(estimate.weightInterval.upper)}`,
+    estimable: estimate.estimable,
+  }])));
+  console.log(`${fit.crossValidation.folds}-fold CV: RMSE ${format(fit.crossValidation.rmse)} vs ${format(fit.crossValidation.baselineRmse)} baseline, R² ${format(fit.crossValidation.r2)}`);
+  console.log(`Holdout (${fit.holdout.sampleCount}): RMSE ${format(fit.holdout.rmse)} vs ${format(fit.holdout.baselineRmse)} baseline, MAE ${format(fit.holdout.mae)}, R² ${format(fit.holdout.r2)}`);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dataDir = path.resolve(getFlagValue(args, '--data') || 'data');
+  const outDir = getFlagValue(args, '--out');
+  const seed = getFlagValue(args, '--seed');
+  const target = (getFlagValue(args, '--target') || 'estimated-ctr') as EngagementTargetId;
+  const asOf = getFlagValue(args, '--as-of');
+  const studioCsv = getFlagValue(args, '--studio-csv');
+
+  if (!ENGAGEMENT_TARGET_IDS.includes(target)) {
+    throw new Error(`Unknown target ${target}, expected one of ${ENGAGEMENT_TARGET_IDS.join(', ')}`);
+  }
+  if (asOf && isNaN(new Date(asOf).getTime())) {
+    throw new Error(`Invalid --as-of date: ${asOf}`);
+  }
+
+  const { artifact, promoted } = await runPipeline({
+    dataDir,
+    outDir: outDir ? path.resolve(outDir) : undefined,
+    featureSource: args.includes('--reanalyze') ? 'reanalyze' : 'cached',
+    version: getFlagValue(args, '--version'),
+    weightMethod: args.includes('--heuristic-weights') ? 'heuristic' : 'regression',
+    fit: seed ? { seed: parseInt(seed, 10) } : undefined,
+    target,
+    targetOptions: {
+      asOf: asOf ? new Date(asOf) : undefined,
+      studioCsvPath: studioCsv ? path.resolve(studioCsv) : undefined,
+    },
+  });
+
+  console.log('Model weights:', artifact.model.weights);
+  if (artifact.model.fit) {
+    printFitReport(artifact.model.fit);
+  }
+  if (!promoted) {
+    console.log(`\nModel ${artifact.version} was saved but scoring_model.json was left unchanged`);
+  }
+}
+
+main().catch(error => {
+  console.error('Error building scoring model:', error);
+  process.exit(1);
+});
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getBenchmarkProfileById, getThumbnailAnalysisById } from '@/lib/db';
+import { loadModelVersion } from '@/lib/models';
+import { recalculateScores } from '@/app/utils/scoring';
+import { scoreAgainstBenchmark } from '@/app/utils/analysis';
+import { VisionAnalysis } from '@/app/types';
+
+/**
+ * Re-score a stored analysis under another scoring model version or one of the user's benchmark profiles
+ * The stored scores are left untouched, so history can be compared across models
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const paramValues = await params;
+    const analysisId = parseInt(paramValues.id, 10);
+    
+    if (isNaN(analysisId) || analysisId <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid analysis ID' },
+        { status: 400 }
+      );
+    }
+    
+    const body = await req.json().catch(() => ({}));
+    const modelVersion = typeof body.modelVersion === 'string' ? body.modelVersion : '';
+    const benchmarkId = parseInt(body.benchmarkId, 10);
+    
+    if (!modelVersion && isNaN(benchmarkId)) {
+      return NextResponse.json(
+        { error: 'modelVersion or benchmarkId is required' },
+        { status: 400 }
+      );
+    }
+    
+    const stored = await getThumbnailAnalysisById(analysisId, userId);
+    
+    if (!stored) {
+      return NextResponse.json(
+        { error: 'Analysis not found' },
+        { status: 404 }
+      );
+    }
+    
+    const benchmark = isNaN(benchmarkId) ? null : await getBenchmarkProfileById(benchmarkId, userId);
+    const model = benchmark ? benchmark.source : await loadModelVersion(modelVersion);
+    
+    if (!model) {
+      return NextResponse.json(
+        { error: isNaN(benchmarkId) ? `Scoring model ${modelVersion} not found` : 'Benchmark profile not found' },
+        { status: 404 }
+      );
+    }
+    
+    // The source isn't stored, but only uploads were given a resolution score
+    const visionAnalysis: VisionAnalysis = {
+      thumbnail: {
+        ...stored.thumbnail,
+        source: stored.scores?.resolution !== undefined ? 'upload' : 'url',
+      },
+      analysis: stored.analysis,
+    };
+    const { scores } = benchmark
+      ? scoreAgainstBenchmark(visionAnalysis, benchmark)
+      : recalculateScores(visionAnalysis, model);
+    
+    return NextResponse.json({
+      success: true,
+      analysisId,
+      scores,
+      previousScores: stored.scores,
+      previousModelVersion: stored.modelVersion || stored.scores?.model?.version || null
+    });
+  } catch (error: any) {
+    console.error('Error re-scoring analysis:', error);
+    return NextResponse.json(
+      { 
+        error: error.message || 'Failed to re-score analysis',
+        success: false 
+      },
+      { status: 500 }
+    );
+  }
+}
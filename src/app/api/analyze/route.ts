@@ -1,73 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { incrementUserDailyAnalysisCount, hasUserExceededDailyLimit, saveThumbnailAnalysis } from '@/lib/db/index';
-import { analyzeImage } from '../../utils/vision';
-import { recalculateScores } from '../../utils/scoring';
-import { generateRecommendations } from '../../utils/anthropic';
-import { AnalysisResult } from '../../types';
-import { put } from '@vercel/blob';
-
-// Flag to use mock data for development/testing
-const USE_MOCK_DATA = process.env.NODE_ENV === 'development' && process.env.USE_MOCK_DATA === 'true';
-
-// Verify Blob token is configured
-if (!process.env.BLOB_READ_WRITE_TOKEN) {
-  console.error('BLOB_READ_WRITE_TOKEN is not configured');
-}
-
-/**
- * Main function to analyze a thumbnail using our services
- * This uses the real APIs and algorithms we've built
- */
-async function analyzeThumbnail(thumbnailUrl: string, thumbnailData?: File): Promise<AnalysisResult> {
-  try {
-    console.log(`Starting analysis for: ${thumbnailUrl}`);
-    
-    // Step 1: Convert File to Buffer if needed
-    let imageBuffer: Buffer;
-    
-    if (thumbnailData) {
-      // Convert File to Buffer
-      const arrayBuffer = await thumbnailData.arrayBuffer();
-      imageBuffer = Buffer.from(arrayBuffer);
-    } else if (thumbnailUrl) {
-      // Fetch the image from URL
-      const response = await fetch(thumbnailUrl);
-      const arrayBuffer = await response.arrayBuffer();
-      imageBuffer = Buffer.from(arrayBuffer);
-    } else {
-      throw new Error('No image data provided');
-    }
-    
-    // Step 2: Run image analysis with Vision API
-    const visionResult = await analyzeImage(imageBuffer);
-    console.log('Vision API analysis complete');
-    
-    // Step 3: Calculate scores based on the vision results
-    const withScores = recalculateScores(visionResult);
-    console.log('Score calculation complete:', withScores.scores);
-    
-    // Step 4: Generate recommendations using Anthropic API
-    const recommendations = await generateRecommendations(withScores);
-    
-    // Add recommendations to the result
-    const finalResult: AnalysisResult = {
-      ...withScores,
-      thumbnail: {
-        ...withScores.thumbnail,
-        url: thumbnailUrl  // Ensure the URL is explicitly set
-      },
-      recommendations: recommendations
-    };
-    
-    console.log('Recommendations generated:', finalResult.recommendations.length);
-    
-    return finalResult;
-  } catch (error) {
-    console.error('Error in analyzeThumbnail:', error);
-    throw error;
-  }
-}
+import { incrementUserDailyAnalysisCount, hasUserExceededDailyLimit, saveThumbnailAnalysis, getBenchmarkProfileById, findSimilarUserAnalysis } from '@/lib/db/index';
+import { analyzeThumbnail, CACHE_HITS_COUNT_TOWARDS_DAILY_LIMIT, detectVideoMetadata, parseAnalysisMode } from '../../utils/analysis';
+import { AnalysisMode, AnalysisResult } from '../../types';
+import { ImageFetchError, readUploadedImage } from '@/lib/imageFetch';
+import { getStorage, storeImage } from '@/lib/storage';
 
 export async function POST(req: NextRequest) {
   try {
@@ -99,6 +36,10 @@ export async function POST(req: NextRequest) {
     // Parse request body - handle both FormData and JSON
     let url = '';
     let thumbnailData: File | undefined = undefined;
+    let category: string | undefined = undefined;
+    let benchmarkId: number | undefined = undefined;
+    // Left undefined, the mode is picked from the image's orientation
+    let mode: AnalysisMode | undefined = undefined;
     
     // Check if the request is a FormData or JSON request
     const contentType = req.headers.get('content-type') || '';
@@ -106,18 +47,18 @@ export async function POST(req: NextRequest) {
     
     if (contentType.includes('multipart/form-data')) {
       try {
-        // Check if Blob token is properly configured
-        if (!process.env.BLOB_READ_WRITE_TOKEN) {
-          console.error('Missing BLOB_READ_WRITE_TOKEN in analyze route');
-          return NextResponse.json(
-            { error: 'Server configuration error: Blob storage not properly configured' },
-            { status: 500 }
-          );
-        }
-        
         // Handle FormData (file upload)
         const formData = await req.formData();
         const file = formData.get('file');
+        const categoryField = formData.get('category');
+        if (typeof categoryField === 'string' && categoryField) {
+          category = categoryField;
+        }
+        const benchmarkField = formData.get('benchmarkId');
+        if (typeof benchmarkField === 'string' && benchmarkField) {
+          benchmarkId = parseInt(benchmarkField, 10);
+        }
+        mode = parseAnalysisMode(formData.get('mode'));
         
         if (!file || !(file instanceof File)) {
           return NextResponse.json(
@@ -128,26 +69,32 @@ export async function POST(req: NextRequest) {
         
         console.log('Received file:', file.name, 'size:', file.size);
         
-        // Upload the file to Vercel Blob
-        const timestamp = Date.now();
-        const fileName = `${userId}-${timestamp}-${file.name}`;
-        
-        console.log('Attempting to upload to Vercel Blob with token present:', !!process.env.BLOB_READ_WRITE_TOKEN);
+        let upload;
+        try {
+          upload = await readUploadedImage(file);
+        } catch (uploadError) {
+          if (uploadError instanceof ImageFetchError) {
+            return NextResponse.json(
+              { error: uploadError.message, code: uploadError.code, success: false },
+              { status: uploadError.status }
+            );
+          }
+          throw uploadError;
+        }
         
+        // Store the file so the saved analysis has a stable URL
         try {
-          const blob = await put(fileName, file, {
-            access: 'public',
-          });
+          const stored = await storeImage(upload.buffer, upload.mimeType);
           
-          // Set the URL to the uploaded blob URL
-          url = blob.url;
+          // Set the URL to the stored image's URL
+          url = stored.url;
           thumbnailData = file;
           
-          console.log(`File uploaded to ${url}`);
-        } catch (blobError: any) {
-          console.error('Vercel Blob upload error:', blobError);
+          console.log(`File stored at ${url}`);
+        } catch (storageError: any) {
+          console.error('Image storage error:', storageError);
           return NextResponse.json(
-            { error: `Blob storage error: ${blobError.message}`, success: false },
+            { error: `Storage error: ${storageError.message}`, success: false },
             { status: 500 }
           );
         }
@@ -163,6 +110,9 @@ export async function POST(req: NextRequest) {
       try {
         const body = await req.json();
         url = body.url;
+        category = body.category || undefined;
+        benchmarkId = body.benchmarkId ? parseInt(body.benchmarkId, 10) : undefined;
+        mode = parseAnalysisMode(body.mode);
         
         if (!url) {
           return NextResponse.json(
@@ -173,9 +123,9 @@ export async function POST(req: NextRequest) {
         
         console.log('Received URL:', url);
         
-        // Check if this is a Blob URL - if so, we don't need to re-upload
-        if (url.includes('blob.vercel-storage.com')) {
-          console.log('URL is already a Vercel Blob URL, skipping upload');
+        // Images we stored earlier are read back from storage rather than downloaded again
+        if (getStorage().keyFromUrl(url)) {
+          console.log('URL is an already stored image, skipping upload');
         }
       } catch (error) {
         console.error('Error parsing JSON body:', error);
@@ -186,51 +136,93 @@ export async function POST(req: NextRequest) {
       }
     }
     
+    // Look up the video behind YouTube thumbnails so its title and details are saved with the analysis
+    const video = await detectVideoMetadata(url);
+    
+    // Auto-detect the category for YouTube thumbnails when the user didn't pick one
+    if (!category) {
+      category = video?.category;
+    }
+    
+    // Score against the user's benchmark profile instead of the global findings when one is picked
+    let benchmark = null;
+    if (benchmarkId !== undefined) {
+      benchmark = isNaN(benchmarkId) ? null : await getBenchmarkProfileById(benchmarkId, userId);
+      
+      if (!benchmark) {
+        return NextResponse.json(
+          { error: 'Benchmark profile not found', success: false },
+          { status: 404 }
+        );
+      }
+    }
+    
     // Analyze the thumbnail
     console.log(`Analyzing thumbnail for user ${userId}:`, url);
     
-    // Determine whether to use mock data or real analysis
+    // The image analysis backend is chosen by IMAGE_ANALYSIS_PROVIDER
     let analysis: AnalysisResult;
     
-    if (USE_MOCK_DATA) {
-      console.log('Using mock data for analysis (development mode)');
-      analysis = getMockAnalysisResult();
+    try {
+      analysis = await analyzeThumbnail(url, thumbnailData, category, benchmark || undefined, mode);
       
-      // Make sure the thumbnail URL is set correctly in the result
+      // Double-check that the URL is set correctly
       if (analysis && analysis.thumbnail) {
         analysis.thumbnail.url = url;
-      }
-    } else {
-      // Use our real analysis services
-      console.log('Using production analysis services');
-      try {
-        analysis = await analyzeThumbnail(url, thumbnailData);
         
-        // Double-check that the URL is set correctly
-        if (analysis && analysis.thumbnail) {
-          analysis.thumbnail.url = url;
+        if (video) {
+          analysis.thumbnail.title = video.title;
+          analysis.thumbnail.video = video;
         }
-      } catch (error) {
-        console.error('Analysis failed:', error);
+      }
+    } catch (error) {
+      console.error('Analysis failed:', error);
+      // Say why a thumbnail URL couldn't be downloaded rather than blaming the analysis
+      if (error instanceof ImageFetchError) {
         return NextResponse.json(
-          { error: 'Analysis failed. Please try again with a different image.', success: false },
-          { status: 500 }
+          { error: error.message, code: error.code, success: false },
+          { status: error.status }
         );
       }
+      return NextResponse.json(
+        { error: 'Analysis failed. Please try again with a different image.', success: false },
+        { status: 500 }
+      );
     }
     
-    // Increment the user's daily analysis count
-    const success = await incrementUserDailyAnalysisCount(userId);
+    // Increment the user's daily analysis count - cached results are free unless the policy says otherwise
+    const cached = analysis.cache?.hit === true;
+    const countsTowardsLimit = !cached || CACHE_HITS_COUNT_TOWARDS_DAILY_LIMIT;
     
-    if (!success) {
-      console.warn(`Failed to increment analysis count for user ${userId}`);
+    if (countsTowardsLimit) {
+      const success = await incrementUserDailyAnalysisCount(userId);
+      
+      if (!success) {
+        console.warn(`Failed to increment analysis count for user ${userId}`);
+      } else {
+        console.log(`Successfully incremented analysis count for user ${userId}`);
+      }
     } else {
-      console.log(`Successfully incremented analysis count for user ${userId}`);
+      console.log(`Served cached analysis to user ${userId} without using a daily analysis`);
+    }
+    
+    // Point the user at their own earlier analysis of a near-identical image, before this one is saved
+    if (analysis.cache?.perceptualHash) {
+      const similar = await findSimilarUserAnalysis(userId, {
+        imageHash: analysis.cache.imageHash,
+        perceptualHash: analysis.cache.perceptualHash,
+        width: analysis.thumbnail.width,
+        height: analysis.thumbnail.height,
+      });
+      
+      if (similar) {
+        analysis.cache.similarAnalysis = { id: similar.id, analyzedAt: similar.createdAt };
+      }
     }
     
     // Save the analysis result to the database
     console.log(`Saving analysis with thumbnail URL: ${analysis.thumbnail.url}`);
-    const analysisId = await saveThumbnailAnalysis(userId, analysis);
+    const analysisId = await saveThumbnailAnalysis(userId, analysis, countsTowardsLimit);
     
     if (!analysisId) {
       console.warn(`Failed to save analysis result for user ${userId}`);
@@ -243,6 +235,7 @@ export async function POST(req: NextRequest) {
       isFreeTier: true,
       analysisCompleted: true,
       success: true,
+      cached,
       analysisId // Include the ID in the response so we can use it for loading results later
     });
   } catch (error: any) {
@@ -256,71 +249,3 @@ export async function POST(req: NextRequest) {
     );
   }
 }
-
-// Mock data for testing without the Vision API
-function getMockAnalysisResult(): AnalysisResult {
-  return {
-    thumbnail: {
-      url: "", // Will be filled in by the caller
-      width: 1280,
-      height: 720,
-    },
-    scores: {
-      text: 75,
-      visual: 82,
-      faces: 60,
-      composition: 70,
-      overall: 72,
-    },
-    analysis: {
-      text: {
-        detected: ["AMAZING TIPS", "MUST SEE"],
-        readability: "Good amount of text",
-      },
-      colors: {
-        dominant: ["#e63946", "#f1faee", "#1d3557"],
-        contrast: "High",
-      },
-      faces: {
-        count: 1,
-        expressions: ["neutral"],
-        prominence: "Medium - face takes up 20% of the image",
-        explanation: "The thumbnail contains one face, which can create a personal connection with viewers. The face is moderately sized, providing some viewer connection."
-      },
-    },
-    recommendations: [
-      {
-        category: 'text',
-        action: 'Increase text size for better readability on mobile',
-        steps: ['Adjust font size for mobile viewing', 'Ensure text contrast is sufficient'],
-        impact: { metric: 'CTR', value: 15, unit: '%' },
-        priority: 1,
-        icon: '🔤'
-      },
-      {
-        category: 'face',
-        action: 'Consider adding more emotion to the facial expression',
-        steps: ['Use more expressive facial poses', 'Capture authentic reactions'],
-        impact: { metric: 'CTR', value: 20, unit: '%' },
-        priority: 2,
-        icon: '😀'
-      },
-      {
-        category: 'color',
-        action: 'The red color is eye-catching but could be more vibrant',
-        steps: ['Increase color saturation', 'Test different shades of red'],
-        impact: { metric: 'CTR', value: 10, unit: '%' },
-        priority: 3,
-        icon: '🎨'
-      },
-      {
-        category: 'composition',
-        action: 'Try positioning the text in the upper third of the image',
-        steps: ['Apply rule of thirds', 'Leave space for text overlay'],
-        impact: { metric: 'CTR', value: 12, unit: '%' },
-        priority: 2,
-        icon: '📐'
-      }
-    ],
-  };
-} 
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getRemainingDailyAnalyses, incrementUserDailyAnalysisCount } from '@/lib/db/index';
+import { runChannelAudit } from '@/lib/channelAudit';
+import { getYoutubeDataClient } from '@/lib/youtube/client';
+import { ChannelNotFoundError, parseChannelReference } from '../../utils/youtube';
+
+// Most uploads a single audit analyzes
+const MAX_AUDIT_VIDEOS = 50;
+
+// Analyzing a channel's thumbnails takes a while
+export const maxDuration = 300;
+
+/**
+ * Audit the recent uploads of a channel
+ * Body: { channel: URL or @handle, maxVideos? }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Get the authenticated user
+    const { userId } = await auth();
+    
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required', authRequired: true },
+        { status: 401 }
+      );
+    }
+    
+    // Check if user has exceeded their daily limit
+    const remaining = await getRemainingDailyAnalyses(userId);
+    
+    if (remaining === 0) {
+      console.log(`User ${userId} has exceeded daily analysis limit`);
+      return NextResponse.json(
+        { 
+          error: 'Daily analysis limit reached', 
+          limitExceeded: true, 
+          success: false 
+        },
+        { status: 429 }
+      );
+    }
+    
+    let body;
+    try {
+      body = await req.json();
+    } catch (error) {
+      console.error('Error parsing JSON body:', error);
+      return NextResponse.json(
+        { error: 'Invalid JSON request body' },
+        { status: 400 }
+      );
+    }
+    
+    const reference = typeof body.channel === 'string' ? parseChannelReference(body.channel) : null;
+    
+    if (!reference) {
+      return NextResponse.json(
+        { error: 'Enter a channel URL or @handle', success: false },
+        { status: 400 }
+      );
+    }
+    
+    const client = getYoutubeDataClient();
+    
+    if (!client) {
+      console.error('Channel audit requested without YOUTUBE_API_KEY configured');
+      return NextResponse.json(
+        { error: 'Server configuration error: YouTube API not configured' },
+        { status: 500 }
+      );
+    }
+    
+    // Every thumbnail is a full analysis, so an audit can't go past what's left of the daily limit
+    const maxVideos = Math.min(Math.max(parseInt(body.maxVideos, 10) || 20, 1), MAX_AUDIT_VIDEOS, remaining);
+    
+    let audit;
+    try {
+      audit = await runChannelAudit(reference, { client, maxVideos });
+    } catch (error: any) {
+      console.error('Channel audit failed:', error);
+      return NextResponse.json(
+        { error: error.message || 'Channel audit failed', success: false },
+        { status: error instanceof ChannelNotFoundError ? 404 : 500 }
+      );
+    }
+    
+    // Each analyzed thumbnail counts towards the daily limit
+    const success = await incrementUserDailyAnalysisCount(userId, new Date(), audit.videoCount);
+    
+    if (!success) {
+      console.warn(`Failed to increment analysis count for user ${userId}`);
+    }
+    
+    return NextResponse.json({
+      success: true,
+      audit
+    });
+  } catch (error: any) {
+    console.error('Error processing channel audit request:', error);
+    return NextResponse.json(
+      { 
+        error: error.message || 'Failed to audit channel',
+        success: false 
+      },
+      { status: 500 }
+    );
+  }
+}
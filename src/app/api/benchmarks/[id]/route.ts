@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { deleteBenchmarkProfile, getBenchmarkProfileById } from '@/lib/db';
+
+// Parse the profile ID from the URL params
+async function profileIdFrom(params: Promise<{ id: string }>): Promise<number | null> {
+  const profileId = parseInt((await params).id, 10);
+  return isNaN(profileId) || profileId <= 0 ? null : profileId;
+}
+
+/**
+ * Get a benchmark profile with the findings it compares against
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required', authRequired: true },
+        { status: 401 }
+      );
+    }
+    
+    const profileId = await profileIdFrom(params);
+    
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Invalid benchmark ID' },
+        { status: 400 }
+      );
+    }
+    
+    const profile = await getBenchmarkProfileById(profileId, userId);
+    
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Benchmark profile not found' },
+        { status: 404 }
+      );
+    }
+    
+    const { source, ...summary } = profile;
+    return NextResponse.json({
+      success: true,
+      profile: {
+        ...summary,
+        findings: source.findings.overall,
+        thresholds: source.model.thresholds
+      }
+    });
+  } catch (error: any) {
+    console.error('Error fetching benchmark profile:', error);
+    return NextResponse.json(
+      { 
+        error: error.message || 'Failed to fetch benchmark profile',
+        success: false 
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required', authRequired: true },
+        { status: 401 }
+      );
+    }
+    
+    const profileId = await profileIdFrom(params);
+    
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Invalid benchmark ID' },
+        { status: 400 }
+      );
+    }
+    
+    const deleted = await deleteBenchmarkProfile(profileId, userId);
+    
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Benchmark profile not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting benchmark profile:', error);
+    return NextResponse.json(
+      { 
+        error: error.message || 'Failed to delete benchmark profile',
+        success: false 
+      },
+      { status: 500 }
+    );
+  }
+}
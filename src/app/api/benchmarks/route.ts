@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getUserBenchmarkProfiles, saveBenchmarkProfile } from '@/lib/db/index';
+import { buildBenchmarkProfile } from '@/lib/benchmarks';
+import { getYoutubeDataClient } from '@/lib/youtube/client';
+
+// Keeps a build within one function invocation
+const MAX_BENCHMARK_CHANNELS = 5;
+const MAX_BENCHMARK_VIDEOS = 50;
+
+// Building a profile analyzes every competitor thumbnail
+export const maxDuration = 300;
+
+// Accepts an array or newline-separated text
+function toList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/\r?\n/) : [];
+  return items
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim())
+    .filter(item => item !== '');
+}
+
+export async function GET() {
+  try {
+    // Get the authenticated user
+    const { userId } = await auth();
+    
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required', authRequired: true },
+        { status: 401 }
+      );
+    }
+    
+    const profiles = await getUserBenchmarkProfiles(userId);
+    
+    return NextResponse.json({
+      success: true,
+      profiles
+    });
+  } catch (error: any) {
+    console.error('Error fetching benchmark profiles:', error);
+    return NextResponse.json(
+      { 
+        error: error.message || 'Failed to fetch benchmark profiles',
+        success: false 
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Build a benchmark profile from competitor channels and videos
+ * Body: { name, channels, videos }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Get the authenticated user
+    const { userId } = await auth();
+    
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required', authRequired: true },
+        { status: 401 }
+      );
+    }
+    
+    let body;
+    try {
+      body = await req.json();
+    } catch (error) {
+      console.error('Error parsing JSON body:', error);
+      return NextResponse.json(
+        { error: 'Invalid JSON request body' },
+        { status: 400 }
+      );
+    }
+    
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const sources = { channels: toList(body.channels), videos: toList(body.videos) };
+    
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Give the benchmark a name', success: false },
+        { status: 400 }
+      );
+    }
+    
+    if (sources.channels.length === 0 && sources.videos.length === 0) {
+      return NextResponse.json(
+        { error: 'Add at least one competitor channel or video', success: false },
+        { status: 400 }
+      );
+    }
+    
+    if (sources.channels.length > MAX_BENCHMARK_CHANNELS || sources.videos.length > MAX_BENCHMARK_VIDEOS) {
+      return NextResponse.json(
+        { error: `A benchmark can have at most ${MAX_BENCHMARK_CHANNELS} channels and ${MAX_BENCHMARK_VIDEOS} videos`, success: false },
+        { status: 400 }
+      );
+    }
+    
+    const client = getYoutubeDataClient();
+    
+    if (!client) {
+      console.error('Benchmark build requested without YOUTUBE_API_KEY configured');
+      return NextResponse.json(
+        { error: 'Server configuration error: YouTube API not configured' },
+        { status: 500 }
+      );
+    }
+    
+    let profile;
+    try {
+      // Fewer uploads per channel when there are several, so the build stays about the same size
+      const videosPerChannel = Math.max(10, Math.floor(50 / Math.max(1, sources.channels.length)));
+      profile = await buildBenchmarkProfile(sources, { client, videosPerChannel });
+    } catch (error: any) {
+      console.error('Benchmark build failed:', error);
+      return NextResponse.json(
+        { error: error.message || 'Failed to build benchmark', success: false },
+        { status: 400 }
+      );
+    }
+    
+    const profileId = await saveBenchmarkProfile(userId, name, sources, profile);
+    
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'Failed to save benchmark', success: false },
+        { status: 500 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      profileId,
+      sampleCount: profile.sampleCount
+    });
+  } catch (error: any) {
+    console.error('Error creating benchmark profile:', error);
+    return NextResponse.json(
+      { 
+        error: error.message || 'Failed to create benchmark profile',
+        success: false 
+      },
+      { status: 500 }
+    );
+  }
+}
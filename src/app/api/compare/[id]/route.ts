@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getThumbnailComparisonById } from '@/lib/db';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Get the authenticated user
+    const { userId } = await auth();
+    
+    // Get the comparison ID from the URL params
+    const paramValues = await params;
+    const comparisonId = parseInt(paramValues.id, 10);
+    
+    if (isNaN(comparisonId) || comparisonId <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid comparison ID' },
+        { status: 400 }
+      );
+    }
+    
+    // If userId is provided, it will only return the comparison if it belongs to that user
+    const comparison = await getThumbnailComparisonById(comparisonId, userId || undefined);
+    
+    if (!comparison) {
+      return NextResponse.json(
+        { error: 'Comparison not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      comparison
+    });
+  } catch (error: any) {
+    console.error('Error fetching comparison:', error);
+    return NextResponse.json(
+      { 
+        error: error.message || 'Failed to fetch comparison',
+        success: false 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,211 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import {
+  incrementUserDailyAnalysisCount,
+  hasUserExceededDailyLimit,
+  saveThumbnailAnalysis,
+  saveThumbnailComparison
+} from '@/lib/db/index';
+import { analyzeThumbnail, detectThumbnailCategory } from '../../utils/analysis';
+import {
+  candidateLabel,
+  compareThumbnails,
+  MAX_COMPARISON_CANDIDATES,
+  MIN_COMPARISON_CANDIDATES
+} from '../../utils/comparison';
+import { ImageFetchError, readUploadedImage } from '@/lib/imageFetch';
+import { storeImage } from '@/lib/storage';
+
+interface CompareInput {
+  url: string;
+  file?: File;
+}
+
+/**
+ * Compare 2-4 thumbnails by running each through the same analysis
+ * Accepts FormData with `files` and/or `urls` fields, or JSON { urls, category }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Get the authenticated user
+    const { userId } = await auth();
+    
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required', authRequired: true },
+        { status: 401 }
+      );
+    }
+    
+    // Check if user has exceeded their daily limit
+    const hasExceeded = await hasUserExceededDailyLimit(userId);
+    
+    if (hasExceeded) {
+      console.log(`User ${userId} has exceeded daily analysis limit`);
+      return NextResponse.json(
+        { 
+          error: 'Daily analysis limit reached', 
+          limitExceeded: true, 
+          success: false 
+        },
+        { status: 429 }
+      );
+    }
+    
+    const inputs: CompareInput[] = [];
+    let category: string | undefined = undefined;
+    
+    const contentType = req.headers.get('content-type') || '';
+    
+    if (contentType.includes('multipart/form-data')) {
+      try {
+        const formData = await req.formData();
+        const files = formData.getAll('files').filter((file): file is File => file instanceof File && file.size > 0);
+        const urls = formData.getAll('urls').filter((url): url is string => typeof url === 'string' && url.trim() !== '');
+        const categoryField = formData.get('category');
+        if (typeof categoryField === 'string' && categoryField) {
+          category = categoryField;
+        }
+        
+        if (files.length + urls.length > MAX_COMPARISON_CANDIDATES) {
+          return NextResponse.json(
+            { error: `Compare at most ${MAX_COMPARISON_CANDIDATES} thumbnails at a time`, success: false },
+            { status: 400 }
+          );
+        }
+        
+        // Store files so the saved analyses have a stable URL
+        for (const file of files) {
+          let upload;
+          try {
+            upload = await readUploadedImage(file);
+          } catch (uploadError) {
+            if (uploadError instanceof ImageFetchError) {
+              return NextResponse.json(
+                { error: `${file.name}: ${uploadError.message}`, code: uploadError.code, success: false },
+                { status: uploadError.status }
+              );
+            }
+            throw uploadError;
+          }
+          
+          try {
+            const stored = await storeImage(upload.buffer, upload.mimeType);
+            inputs.push({ url: stored.url, file });
+          } catch (storageError: any) {
+            console.error('Image storage error:', storageError);
+            return NextResponse.json(
+              { error: `Storage error: ${storageError.message}`, success: false },
+              { status: 500 }
+            );
+          }
+        }
+        
+        urls.forEach(url => inputs.push({ url: url.trim() }));
+      } catch (error) {
+        console.error('Error processing FormData:', error);
+        return NextResponse.json(
+          { error: 'Failed to process uploaded files' },
+          { status: 400 }
+        );
+      }
+    } else {
+      try {
+        const body = await req.json();
+        category = body.category || undefined;
+        
+        if (Array.isArray(body.urls)) {
+          body.urls
+            .filter((url: unknown): url is string => typeof url === 'string' && url.trim() !== '')
+            .forEach((url: string) => inputs.push({ url: url.trim() }));
+        }
+      } catch (error) {
+        console.error('Error parsing JSON body:', error);
+        return NextResponse.json(
+          { error: 'Invalid JSON request body' },
+          { status: 400 }
+        );
+      }
+    }
+    
+    if (inputs.length < MIN_COMPARISON_CANDIDATES || inputs.length > MAX_COMPARISON_CANDIDATES) {
+      return NextResponse.json(
+        { error: `Provide between ${MIN_COMPARISON_CANDIDATES} and ${MAX_COMPARISON_CANDIDATES} thumbnails to compare`, success: false },
+        { status: 400 }
+      );
+    }
+    
+    // Score every candidate against the same category so the comparison is fair
+    if (!category) {
+      category = await detectThumbnailCategory(inputs[0].url);
+    }
+    
+    console.log(`Comparing ${inputs.length} thumbnails for user ${userId}`);
+    
+    let analyses;
+    try {
+      analyses = await Promise.all(
+        inputs.map(async input => {
+          const analysis = await analyzeThumbnail(input.url, input.file, category);
+          analysis.thumbnail.url = input.url;
+          return analysis;
+        })
+      );
+    } catch (error) {
+      console.error('Comparison analysis failed:', error);
+      if (error instanceof ImageFetchError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code, success: false },
+          { status: error.status }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Analysis failed. Please try again with different images.', success: false },
+        { status: 500 }
+      );
+    }
+    
+    // A comparison counts as one analysis towards the daily limit
+    const success = await incrementUserDailyAnalysisCount(userId);
+    
+    if (!success) {
+      console.warn(`Failed to increment analysis count for user ${userId}`);
+    }
+    
+    // Save each candidate as a regular analysis so it also shows up in history,
+    // without counting them again
+    const analysisIds: Array<number | null> = [];
+    for (const analysis of analyses) {
+      analysisIds.push(await saveThumbnailAnalysis(userId, analysis, false));
+    }
+    
+    const comparison = compareThumbnails(
+      analyses.map((result, index) => ({
+        label: candidateLabel(index),
+        analysisId: analysisIds[index],
+        result
+      }))
+    );
+    
+    const comparisonId = await saveThumbnailComparison(userId, comparison);
+    
+    if (!comparisonId) {
+      console.warn(`Failed to save comparison for user ${userId}`);
+    }
+    
+    return NextResponse.json({
+      ...comparison,
+      id: comparisonId ?? undefined,
+      success: true
+    });
+  } catch (error: any) {
+    console.error('Error processing comparison request:', error);
+    return NextResponse.json(
+      { 
+        error: error.message || 'Failed to compare thumbnails',
+        success: false 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { extractYoutubeVideoId, getYoutubeThumbnailUrls } from '../../utils/youtube';
+import {
+  ChannelNotFoundError,
+  ChannelVideo,
+  classifyYoutubeLink,
+  fetchChannelUploads,
+  fetchPlaylistVideos,
+  fetchVideoMetadata,
+  getShortsCoverUrl,
+  getYoutubeThumbnailUrls,
+} from '../../utils/youtube';
+import { getYoutubeDataClient } from '@/lib/youtube/client';
+import { imageExists } from '@/lib/imageFetch';
+
+// Matches the largest batch a user can queue
+const MAX_COLLECTION_VIDEOS = 50;
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,41 +26,94 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const videoId = extractYoutubeVideoId(url);
+    const link = classifyYoutubeLink(url);
     
-    if (!videoId) {
+    if (link.type === 'invalid') {
       return NextResponse.json(
         { error: 'Invalid YouTube URL' },
         { status: 400 }
       );
     }
     
-    const thumbnails = getYoutubeThumbnailUrls(videoId);
-    
-    // Check which thumbnails are available
-    const thumbnailAvailability = await Promise.all(
-      Object.entries(thumbnails).map(async ([quality, url]) => {
-        try {
-          const response = await fetch(url, { method: 'HEAD' });
-          return { quality, url, available: response.ok };
-        } catch (error) {
-          console.error('Error checking thumbnail availability:', error);
-          return { quality, url, available: false };
+    // Playlists and channels list their videos so they can be analyzed as a batch
+    if (link.type === 'playlist' || link.type === 'channel') {
+      const client = getYoutubeDataClient();
+      
+      if (!client) {
+        console.error('Playlist or channel extraction requested without YOUTUBE_API_KEY configured');
+        return NextResponse.json(
+          { error: 'Playlists and channels need the YouTube API, which is not configured' },
+          { status: 500 }
+        );
+      }
+      
+      let videos: ChannelVideo[];
+      let title: string | undefined = undefined;
+      try {
+        if (link.type === 'playlist') {
+          videos = await fetchPlaylistVideos(client, link.playlistId, MAX_COLLECTION_VIDEOS);
+        } else {
+          const uploads = await fetchChannelUploads(client, link.channel, MAX_COLLECTION_VIDEOS);
+          videos = uploads.videos;
+          title = uploads.channelTitle;
         }
-      })
-    );
+      } catch (error: any) {
+        console.error(`Error listing ${link.type} videos:`, error);
+        return NextResponse.json(
+          { error: error instanceof ChannelNotFoundError ? error.message : `Failed to list the ${link.type}'s videos` },
+          { status: error instanceof ChannelNotFoundError ? 404 : 500 }
+        );
+      }
+      
+      return NextResponse.json({
+        type: link.type,
+        title,
+        videos: videos.map(video => ({
+          videoId: video.id,
+          title: video.title,
+          thumbnail: video.thumbnailUrl,
+        })),
+      });
+    }
+    
+    const videoId = link.videoId;
+    // Shorts are analyzed from their portrait cover rather than the letterboxed 16:9 thumbnail
+    const thumbnails: Record<string, string> = link.type === 'short'
+      ? { ...getYoutubeThumbnailUrls(videoId), cover: getShortsCoverUrl(videoId) }
+      : getYoutubeThumbnailUrls(videoId);
+    
+    // Check which thumbnails are available while the video's metadata is fetched
+    // Metadata comes from the YouTube Data API when configured, otherwise from oEmbed
+    const [thumbnailAvailability, metadata] = await Promise.all([
+      Promise.all(
+        Object.entries(thumbnails).map(async ([quality, url]) => {
+          try {
+            return { quality, url, available: await imageExists(url) };
+          } catch (error) {
+            console.error('Error checking thumbnail availability:', error);
+            return { quality, url, available: false };
+          }
+        })
+      ),
+      fetchVideoMetadata(videoId, getYoutubeDataClient()),
+    ]);
     
     // Get the best available thumbnail
     const availableThumbnails = thumbnailAvailability.filter(t => t.available);
-    const bestThumbnail = availableThumbnails.find(t => t.quality === 'maxres') || 
+    const bestThumbnail = availableThumbnails.find(t => t.quality === 'cover') ||
+                          availableThumbnails.find(t => t.quality === 'maxres') || 
                           availableThumbnails.find(t => t.quality === 'standard') || 
                           availableThumbnails.find(t => t.quality === 'high') ||
                           availableThumbnails[0];
     
     return NextResponse.json({
+      type: link.type,
+      mode: link.type === 'short' ? 'shorts' : 'video',
       videoId,
       thumbnails,
       bestThumbnail: bestThumbnail?.url || thumbnails.high,
+      // Null when neither the Data API nor oEmbed has the video
+      metadata,
     });
   } catch (error) {
     console.error('Error extracting YouTube thumbnail:', error);
@@ -55,4 +122,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getAnalysisJobById } from '@/lib/db';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Get the authenticated user
+    const { userId } = await auth();
+    
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required', authRequired: true },
+        { status: 401 }
+      );
+    }
+    
+    // Get the job ID from the URL params
+    const paramValues = await params;
+    const jobId = parseInt(paramValues.id, 10);
+    
+    if (isNaN(jobId) || jobId <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid job ID' },
+        { status: 400 }
+      );
+    }
+    
+    const job = await getAnalysisJobById(jobId, userId);
+    
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      job,
+      // Share of items that are done, whether they succeeded or not
+      progress: job.total > 0 ? Math.round(((job.completed + job.failed) / job.total) * 100) : 100
+    });
+  } catch (error: any) {
+    console.error('Error fetching analysis job:', error);
+    return NextResponse.json(
+      { 
+        error: error.message || 'Failed to fetch analysis job',
+        success: false 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processAnalysisJobs } from '@/lib/jobs/worker';
+
+export const maxDuration = 300;
+
+/**
+ * Scheduled queue worker, run by the cron in vercel.json
+ * Vercel sends CRON_SECRET as a bearer token; without it set, the route stays closed
+ */
+export async function GET(req: NextRequest) {
+  try {
+    if (!process.env.CRON_SECRET || req.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized', success: false },
+        { status: 401 }
+      );
+    }
+    
+    const result = await processAnalysisJobs();
+    
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+  } catch (error: any) {
+    console.error('Error processing analysis jobs:', error);
+    return NextResponse.json(
+      { 
+        error: error.message || 'Failed to process analysis jobs',
+        success: false 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,259 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { createAnalysisJob, getRemainingDailyAnalyses, getUserAnalysisJobs } from '@/lib/db/index';
+import { processAnalysisJobs } from '@/lib/jobs/worker';
+import { listZipEntries, readZipEntry } from '@/lib/jobs/zip';
+import { storeImage } from '@/lib/storage';
+import { MAX_IMAGE_BYTES } from '@/lib/imageFetch';
+
+// Largest batch a user can queue at once
+const MAX_JOB_ITEMS = 50;
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|webp|gif)$/i;
+
+// Largest upload accepted, checked before the request body is buffered
+const MAX_ARCHIVE_BYTES = 100 * 1024 * 1024;
+
+// Leave time for the first items to be processed after the response is sent
+export const maxDuration = 300;
+
+// Every item is a full analysis, so a batch can't be bigger than what's left of the daily limit
+function checkBatchSize(count: number, remaining: number): NextResponse | null {
+  if (count > MAX_JOB_ITEMS) {
+    return NextResponse.json(
+      { error: `A batch can have at most ${MAX_JOB_ITEMS} thumbnails`, success: false },
+      { status: 400 }
+    );
+  }
+  
+  if (count > remaining) {
+    return NextResponse.json(
+      {
+        error: `This batch has ${count} thumbnails but you only have ${remaining} ${remaining === 1 ? 'analysis' : 'analyses'} left today`,
+        limitExceeded: true,
+        remaining,
+        success: false
+      },
+      { status: 429 }
+    );
+  }
+  
+  return null;
+}
+
+/**
+ * Read a request body, giving up as soon as it's larger than maxBytes
+ * Content-Length is checked first, and counted bytes cover bodies sent without it
+ */
+async function readLimitedBody(req: NextRequest, maxBytes: number): Promise<Buffer | null> {
+  const declaredLength = parseInt(req.headers.get('content-length') || '', 10);
+  if (declaredLength > maxBytes) {
+    return null;
+  }
+  
+  const reader = req.body?.getReader();
+  if (!reader) {
+    return Buffer.alloc(0);
+  }
+  
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.length;
+    if (received > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Queue a batch analysis job
+ * Accepts FormData with a `urls` field (one per line) and/or a zip `archive` of images,
+ * or JSON { urls, category }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Get the authenticated user
+    const { userId } = await auth();
+    
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required', authRequired: true },
+        { status: 401 }
+      );
+    }
+    
+    // Check if user has exceeded their daily limit
+    const remaining = await getRemainingDailyAnalyses(userId);
+    
+    if (remaining === 0) {
+      console.log(`User ${userId} has exceeded daily analysis limit`);
+      return NextResponse.json(
+        { 
+          error: 'Daily analysis limit reached', 
+          limitExceeded: true, 
+          success: false 
+        },
+        { status: 429 }
+      );
+    }
+    
+    const items: Array<{ url: string; fileName?: string }> = [];
+    let urls: string[] = [];
+    let category: string | undefined = undefined;
+    
+    const contentType = req.headers.get('content-type') || '';
+    
+    if (contentType.includes('multipart/form-data')) {
+      const body = await readLimitedBody(req, MAX_ARCHIVE_BYTES);
+      if (!body) {
+        return NextResponse.json(
+          { error: `Uploads can be at most ${MAX_ARCHIVE_BYTES / 1024 / 1024} MB`, success: false },
+          { status: 413 }
+        );
+      }
+      
+      try {
+        const formData = await new Response(body, { headers: { 'content-type': contentType } }).formData();
+        const archive = formData.get('archive');
+        const categoryField = formData.get('category');
+        if (typeof categoryField === 'string' && categoryField) {
+          category = categoryField;
+        }
+        
+        urls = formData.getAll('urls')
+          .flatMap(field => (typeof field === 'string' ? field.split(/\r?\n/) : []));
+        
+        if (archive instanceof File && archive.size > 0) {
+          const zip = Buffer.from(await archive.arrayBuffer());
+          const entries = listZipEntries(zip)
+            // Skip macOS metadata and anything that isn't an image
+            .filter(entry => IMAGE_EXTENSIONS.test(entry.name) && !entry.name.includes('__MACOSX/'));
+          
+          // Check the count and declared sizes before decompressing or storing anything
+          const sizeError = checkBatchSize(entries.length + urls.filter(url => url.trim() !== '').length, remaining);
+          if (sizeError) {
+            return sizeError;
+          }
+          
+          const oversized = entries.find(entry => entry.size > MAX_IMAGE_BYTES);
+          if (oversized) {
+            return NextResponse.json(
+              { error: `${oversized.name} is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`, success: false },
+              { status: 400 }
+            );
+          }
+          
+          // Store each image so the worker can read it back later
+          for (const entry of entries) {
+            const data = readZipEntry(zip, entry);
+            if (!data) continue;
+            
+            const fileName = entry.name.split('/').pop() as string;
+            const stored = await storeImage(data);
+            items.push({ url: stored.url, fileName });
+          }
+        }
+      } catch (error: any) {
+        console.error('Error processing FormData:', error);
+        return NextResponse.json(
+          { error: error.message === 'Not a zip archive' ? 'The archive must be a zip file' : 'Failed to process upload' },
+          { status: 400 }
+        );
+      }
+    } else {
+      try {
+        const body = await req.json();
+        category = body.category || undefined;
+        urls = Array.isArray(body.urls) ? body.urls.filter((url: unknown) => typeof url === 'string') : [];
+      } catch (error) {
+        console.error('Error parsing JSON body:', error);
+        return NextResponse.json(
+          { error: 'Invalid JSON request body' },
+          { status: 400 }
+        );
+      }
+    }
+    
+    urls
+      .map(url => url.trim())
+      .filter(url => url !== '')
+      .forEach(url => items.push({ url }));
+    
+    if (items.length === 0) {
+      return NextResponse.json(
+        { error: 'Provide thumbnail URLs or a zip of images', success: false },
+        { status: 400 }
+      );
+    }
+    
+    const sizeError = checkBatchSize(items.length, remaining);
+    if (sizeError) {
+      return sizeError;
+    }
+    
+    const jobId = await createAnalysisJob(userId, items, category);
+    
+    if (!jobId) {
+      return NextResponse.json(
+        { error: 'Failed to queue the batch', success: false },
+        { status: 500 }
+      );
+    }
+    
+    // Start on the queue right away; the scheduled worker picks up whatever this run doesn't finish
+    after(async () => {
+      await processAnalysisJobs();
+    });
+    
+    return NextResponse.json({
+      success: true,
+      jobId,
+      total: items.length
+    });
+  } catch (error: any) {
+    console.error('Error creating analysis job:', error);
+    return NextResponse.json(
+      { 
+        error: error.message || 'Failed to create analysis job',
+        success: false 
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  try {
+    // Get the authenticated user
+    const { userId } = await auth();
+    
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required', authRequired: true },
+        { status: 401 }
+      );
+    }
+    
+    const jobs = await getUserAnalysisJobs(userId);
+    
+    return NextResponse.json({
+      success: true,
+      jobs
+    });
+  } catch (error: any) {
+    console.error('Error fetching analysis jobs:', error);
+    return NextResponse.json(
+      { 
+        error: error.message || 'Failed to fetch analysis jobs',
+        success: false 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { listModelVersions } from '@/lib/models';
+
+/**
+ * List the scoring model versions analyses can be re-scored under
+ */
+export async function GET() {
+  try {
+    const models = await listModelVersions();
+    
+    return NextResponse.json({
+      success: true,
+      models
+    });
+  } catch (error: any) {
+    console.error('Error listing scoring models:', error);
+    return NextResponse.json(
+      { 
+        error: error.message || 'Failed to list scoring models',
+        success: false 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorage } from '@/lib/storage';
+import { probeImage } from '@/app/utils/imageProbe';
+
+/**
+ * Serve images stored by the local disk storage backend
+ * Other backends hand out their own URLs, so this route only answers for STORAGE_BACKEND=local
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  try {
+    const storage = getStorage();
+    const { key } = await params;
+
+    if (storage.name !== 'local') {
+      return NextResponse.json(
+        { error: 'Not found' },
+        { status: 404 }
+      );
+    }
+
+    let data: Buffer | null;
+    try {
+      data = await storage.get(key.join('/'));
+    } catch (error) {
+      console.error('Invalid storage key requested:', error);
+      data = null;
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Not found' },
+        { status: 404 }
+      );
+    }
+
+    const { format } = probeImage(data);
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': format !== 'unknown' ? `image/${format}` : 'application/octet-stream',
+        // Keys are content hashes, so a stored object never changes
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error: any) {
+    console.error('Error serving stored object:', error);
+    return NextResponse.json(
+      {
+        error: error.message || 'Failed to load stored object',
+        success: false
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getStudioMetrics, getUserThumbnailAnalyses } from '@/lib/db';
+import { calibrateChannel, CalibrationPoint } from '@/app/utils/calibration';
+import { extractVideoIdFromThumbnailUrl, extractYoutubeVideoId } from '@/app/utils/youtube';
+
+// Enough history to cover a channel's recent uploads
+const MAX_ANALYSES = 500;
+
+/**
+ * Calibrate a user's thumbnail scores against the real CTR they imported from Studio
+ * Analyses are joined to Studio rows by YouTube video ID, one calibration per channel
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    
+    const [metrics, analyses] = await Promise.all([
+      getStudioMetrics(userId),
+      getUserThumbnailAnalyses(userId, MAX_ANALYSES, 0)
+    ]);
+    
+    // Analyses come newest first, so a re-analyzed video uses its latest score
+    const analysisByVideoId = new Map<string, { id: number; score: number }>();
+    for (const analysis of analyses) {
+      const url = analysis.thumbnail.url || '';
+      const videoId = extractYoutubeVideoId(url) || extractVideoIdFromThumbnailUrl(url);
+      if (videoId && !analysisByVideoId.has(videoId)) {
+        analysisByVideoId.set(videoId, { id: analysis.id, score: analysis.scores.overall });
+      }
+    }
+    
+    const pointsByChannel: Record<string, CalibrationPoint[]> = {};
+    for (const row of metrics) {
+      const analysis = analysisByVideoId.get(row.videoId);
+      if (!analysis || row.ctr === undefined) continue;
+      
+      (pointsByChannel[row.channelName] ||= []).push({
+        analysisId: analysis.id,
+        videoId: row.videoId,
+        title: row.title,
+        score: analysis.score,
+        ctr: row.ctr,
+        impressions: row.impressions
+      });
+    }
+    
+    const channels = Object.entries(pointsByChannel)
+      .map(([channel, points]) => calibrateChannel(channel, points));
+    
+    return NextResponse.json({
+      success: true,
+      importedVideos: metrics.length,
+      matchedVideos: channels.reduce((sum, channel) => sum + channel.points.length, 0),
+      channels
+    });
+  } catch (error: any) {
+    console.error('Error calibrating scores:', error);
+    return NextResponse.json(
+      { 
+        error: error.message || 'Failed to calibrate scores',
+        success: false 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { saveStudioMetrics } from '@/lib/db';
+import { parseStudioCsv } from '@/app/utils/studioCsv';
+
+// Studio exports are a few hundred rows at most
+const MAX_CSV_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Import a YouTube Studio "Content" CSV export
+ * Expects multipart form data with the CSV as "file" and an optional "channel" name
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { userId } = await auth();
+    
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Authentication required', authRequired: true },
+        { status: 401 }
+      );
+    }
+    
+    const formData = await req.formData();
+    const file = formData.get('file');
+    const channel = (formData.get('channel') as string | null)?.trim() || 'My channel';
+    
+    if (!file || !(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'No file provided or invalid file' },
+        { status: 400 }
+      );
+    }
+    
+    if (!file.name.toLowerCase().endsWith('.csv')) {
+      return NextResponse.json(
+        { error: 'Only CSV files exported from YouTube Studio are supported' },
+        { status: 400 }
+      );
+    }
+    
+    if (file.size > MAX_CSV_SIZE) {
+      return NextResponse.json(
+        { error: 'The CSV file is too large' },
+        { status: 400 }
+      );
+    }
+    
+    let metrics;
+    try {
+      metrics = parseStudioCsv(await file.text());
+    } catch (parseError: any) {
+      return NextResponse.json(
+        { error: parseError.message || 'Could not read the CSV file' },
+        { status: 400 }
+      );
+    }
+    
+    // Rows without a CTR can't be used for calibration
+    const withCtr = metrics.filter(row => row.ctr !== undefined);
+    if (withCtr.length === 0) {
+      return NextResponse.json(
+        { error: 'No rows with an impressions click-through rate were found. Include the "Impressions click-through rate (%)" column in your export.' },
+        { status: 400 }
+      );
+    }
+    
+    const saved = await saveStudioMetrics(userId, channel, withCtr);
+    
+    if (saved === null) {
+      return NextResponse.json(
+        { error: 'Failed to save the imported metrics', success: false },
+        { status: 500 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      channel,
+      imported: saved,
+      skipped: metrics.length - withCtr.length
+    });
+  } catch (error: any) {
+    console.error('Error importing Studio CSV:', error);
+    return NextResponse.json(
+      { 
+        error: error.message || 'Failed to import Studio CSV',
+        success: false 
+      },
+      { status: 500 }
+    );
+  }
+}
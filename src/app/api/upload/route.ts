@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { put } from '@vercel/blob';
+import { storeImage } from '@/lib/storage';
+import { ImageFetchError, readUploadedImage } from '@/lib/imageFetch';
 
 // Disable the automatic body parsing for file uploads
 export const config = {
@@ -34,27 +35,26 @@ export async function POST(req: NextRequest) {
       );
     }
     
-    // Validate file type
-    if (!file.type.startsWith('image/')) {
-      return NextResponse.json(
-        { error: 'Only image files are allowed' },
-        { status: 400 }
-      );
+    // Validate the file's size and type from its bytes
+    let upload;
+    try {
+      upload = await readUploadedImage(file);
+    } catch (uploadError) {
+      if (uploadError instanceof ImageFetchError) {
+        return NextResponse.json(
+          { error: uploadError.message, code: uploadError.code, success: false },
+          { status: uploadError.status }
+        );
+      }
+      throw uploadError;
     }
     
-    // Create a unique file name
-    const timestamp = Date.now();
-    const fileExtension = file.name.split('.').pop();
-    const fileName = `${userId}-${timestamp}.${fileExtension}`;
-    
-    // Upload to Vercel Blob
-    const blob = await put(fileName, file, {
-      access: 'public',
-    });
+    // Store under a content hash so re-uploading the same image reuses it
+    const stored = await storeImage(upload.buffer, upload.mimeType);
     
     // Return the uploaded file URL
     return NextResponse.json({
-      url: blob.url,
+      url: stored.url,
       success: true
     });
   } catch (error: any) {
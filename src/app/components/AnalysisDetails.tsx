@@ -1,16 +1,23 @@
 'use client';
 
 import React, { useState } from 'react';
+import { TextBlockGeometry } from '../types';
 
 interface AnalysisDetailsProps {
   analysis: {
     text: {
       detected: string[];
       readability: string;
+      blocks?: TextBlockGeometry[];
     };
     colors: {
       dominant: string[];
       contrast: string;
+      brightnessFactor?: number;
+      saturationLevel?: number;
+      palette?: Array<{ hex: string; coverage: number }>;
+      colorfulness?: number;
+      paletteContrast?: number;
     };
     faces: {
       count: number;
@@ -169,6 +176,24 @@ export default function AnalysisDetails({ analysis }: AnalysisDetailsProps) {
                   </div>
                 )}
                 
+                {text.blocks && text.blocks.length > 0 && (
+                  <div className="mt-4">
+                    <h4 className="text-sm font-medium text-gray-500 mb-2">Text Placement</h4>
+                    <ul className="space-y-1 text-sm text-gray-600">
+                      {text.blocks.map((block, index) => (
+                        <li key={index}>
+                          <span className="font-medium">&quot;{block.text}&quot;</span>
+                          {' '}- {block.heightPercent}% of frame height, {block.gridPosition.replace('-', ' ')}
+                          {block.contrast !== undefined && `, contrast ${block.contrast.toFixed(1)}:1`}
+                          {block.faceOverlap > 0.1 && (
+                            <span className="text-red-600"> (covers a face)</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                
                 <div className="mt-4">
                   <h4 className="text-sm font-medium text-gray-500 mb-2">Readability Assessment</h4>
                   <div className="flex items-center">
@@ -245,6 +270,35 @@ export default function AnalysisDetails({ analysis }: AnalysisDetailsProps) {
                   ))}
                 </div>
                 
+                {colors.palette && colors.palette.length > 0 && (
+                  <div className="mt-4">
+                    <h4 className="text-sm font-medium text-gray-500 mb-2">Measured Palette</h4>
+                    <div className="flex h-6 rounded-lg overflow-hidden border border-gray-200">
+                      {colors.palette.map((color, index) => (
+                        <div
+                          key={index}
+                          style={{ backgroundColor: color.hex, width: `${color.coverage}%` }}
+                          title={`${color.hex} - ${color.coverage}%`}
+                        ></div>
+                      ))}
+                    </div>
+                    <ul className="mt-2 text-sm text-gray-600 space-y-1">
+                      {colors.brightnessFactor !== undefined && (
+                        <li><span className="font-medium">Brightness:</span> {Math.round(colors.brightnessFactor * 100)}%</li>
+                      )}
+                      {colors.saturationLevel !== undefined && (
+                        <li><span className="font-medium">Saturation:</span> {Math.round(colors.saturationLevel * 100)}%</li>
+                      )}
+                      {colors.colorfulness !== undefined && (
+                        <li><span className="font-medium">Colorfulness:</span> {Math.round(colors.colorfulness)}</li>
+                      )}
+                      {colors.paletteContrast !== undefined && (
+                        <li><span className="font-medium">Best palette contrast:</span> {colors.paletteContrast.toFixed(1)}:1</li>
+                      )}
+                    </ul>
+                  </div>
+                )}
+                
                 <div className="mt-4">
                   <h4 className="text-sm font-medium text-gray-500 mb-2">Color Contrast</h4>
                   <div className="flex items-center">
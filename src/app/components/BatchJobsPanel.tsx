@@ -0,0 +1,231 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AnalysisJob, AnalysisJobStatus } from '../types';
+
+// How often running batches are refreshed
+const POLL_INTERVAL_MS = 5000;
+
+const STATUS_STYLES: Record<AnalysisJobStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+export default function BatchJobsPanel() {
+  const [jobs, setJobs] = useState<AnalysisJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [urls, setUrls] = useState('');
+  const [archive, setArchive] = useState<File | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitMessage, setSubmitMessage] = useState<string | null>(null);
+  const [expandedJob, setExpandedJob] = useState<AnalysisJob | null>(null);
+
+  const hasActiveJobs = jobs.some(job => job.status === 'queued' || job.status === 'running');
+  const expandedJobId = expandedJob?.id;
+
+  useEffect(() => {
+    fetchJobs();
+  }, []);
+
+  // Keep polling while anything is still in the queue
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+
+    const interval = setInterval(() => {
+      fetchJobs();
+      if (expandedJobId) fetchJob(expandedJobId);
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveJobs, expandedJobId]);
+
+  const fetchJobs = async () => {
+    try {
+      const response = await fetch('/api/jobs');
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load batches');
+      }
+
+      setJobs(data.jobs);
+      setError(null);
+    } catch (error: any) {
+      console.error('Error fetching analysis jobs:', error);
+      setError(error.message || 'Failed to load batches');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchJob = async (id: number) => {
+    try {
+      const response = await fetch(`/api/jobs/${id}`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load batch');
+      }
+
+      setExpandedJob(data.job);
+    } catch (error: any) {
+      console.error('Error fetching analysis job:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!urls.trim() && !archive) return;
+
+    setSubmitting(true);
+    setSubmitMessage(null);
+    try {
+      const formData = new FormData();
+      formData.append('urls', urls);
+      if (archive) formData.append('archive', archive);
+
+      const response = await fetch('/api/jobs', { method: 'POST', body: formData });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to queue batch');
+      }
+
+      setSubmitMessage(`Queued ${data.total} thumbnails`);
+      setUrls('');
+      setArchive(null);
+      await fetchJobs();
+    } catch (error: any) {
+      console.error('Error queueing batch:', error);
+      setSubmitMessage(error.message || 'Failed to queue batch');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleJob = (job: AnalysisJob) => {
+    if (expandedJob?.id === job.id) {
+      setExpandedJob(null);
+    } else {
+      setExpandedJob(job);
+      fetchJob(job.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="p-6 border-b border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-800">Batch Analysis</h2>
+          <p className="text-sm text-gray-600">
+            Analyze a back catalog at once: paste thumbnail or YouTube URLs (one per line) or upload a zip of images
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <textarea
+            value={urls}
+            onChange={(e) => setUrls(e.target.value)}
+            rows={5}
+            placeholder="https://www.youtube.com/watch?v=..."
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary font-mono text-sm"
+          />
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <input
+              type="file"
+              accept=".zip,application/zip"
+              onChange={(e) => setArchive(e.target.files?.[0] || null)}
+              className="flex-1 text-sm text-gray-600"
+            />
+            <button
+              type="submit"
+              disabled={(!urls.trim() && !archive) || submitting}
+              className="bg-primary hover:bg-primary-hover text-white font-medium py-2 px-6 rounded-lg transition-all duration-300 disabled:opacity-50"
+            >
+              {submitting ? 'Queueing...' : 'Start Batch'}
+            </button>
+          </div>
+          {submitMessage && <p className="text-sm text-gray-700">{submitMessage}</p>}
+        </form>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="p-6 border-b border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-800">Your Batches</h2>
+        </div>
+
+        <div className="p-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-6">
+              <p>{error}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-primary"></div>
+            </div>
+          ) : jobs.length === 0 ? (
+            <div className="text-center py-8 text-gray-600">No batches yet</div>
+          ) : (
+            <div className="space-y-4">
+              {jobs.map(job => {
+                const done = job.completed + job.failed;
+                return (
+                  <div key={job.id} className="border border-gray-100 rounded-lg">
+                    <button
+                      onClick={() => toggleJob(job)}
+                      className="w-full text-left p-4 hover:bg-gray-50 transition-colors"
+                    >
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="font-medium text-gray-800">
+                          Batch #{job.id} · {new Date(job.createdAt).toLocaleString()}
+                        </span>
+                        <span className={`text-xs font-medium px-2 py-1 rounded ${STATUS_STYLES[job.status]}`}>
+                          {job.status}
+                        </span>
+                      </div>
+                      <div className="w-full bg-gray-100 rounded-full h-2 overflow-hidden">
+                        <div
+                          className="bg-primary h-2 transition-all duration-500"
+                          style={{ width: `${job.total > 0 ? (done / job.total) * 100 : 0}%` }}
+                        />
+                      </div>
+                      <p className="text-xs text-gray-500 mt-2">
+                        {done} of {job.total} done · {job.completed} analyzed
+                        {job.failed > 0 && ` · ${job.failed} failed`}
+                      </p>
+                    </button>
+
+                    {expandedJob?.id === job.id && expandedJob.items && (
+                      <ul className="border-t border-gray-100 divide-y divide-gray-100 text-sm">
+                        {expandedJob.items.map(item => (
+                          <li key={item.id} className="px-4 py-2 flex items-center justify-between gap-4">
+                            <span className="truncate text-gray-700" title={item.url}>
+                              {item.fileName || item.url}
+                            </span>
+                            {item.status === 'completed' && item.analysisId ? (
+                              <a href={`/results?id=${item.analysisId}`} className="text-primary hover:underline whitespace-nowrap">
+                                View results
+                              </a>
+                            ) : (
+                              <span className="text-gray-500 whitespace-nowrap" title={item.error}>
+                                {item.status}{item.attempts > 1 && item.status !== 'failed' ? ` (attempt ${item.attempts})` : ''}
+                              </span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { BenchmarkProfileSummary } from '@/lib/db/index';
+
+export default function BenchmarkPanel() {
+  const [profiles, setProfiles] = useState<BenchmarkProfileSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [channels, setChannels] = useState('');
+  const [videos, setVideos] = useState('');
+  const [building, setBuilding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProfiles = async () => {
+    try {
+      const response = await fetch('/api/benchmarks');
+      const data = await response.json();
+
+      if (data.success) {
+        setProfiles(data.profiles);
+      }
+    } catch (error) {
+      console.error('Error loading benchmark profiles:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || (!channels.trim() && !videos.trim())) return;
+
+    setBuilding(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/benchmarks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, channels, videos }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to build benchmark');
+      }
+
+      setName('');
+      setChannels('');
+      setVideos('');
+      await loadProfiles();
+    } catch (error: any) {
+      console.error('Error building benchmark:', error);
+      setError(error.message || 'Failed to build benchmark');
+    } finally {
+      setBuilding(false);
+    }
+  };
+
+  const handleDelete = async (profileId: number) => {
+    try {
+      const response = await fetch(`/api/benchmarks/${profileId}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to delete benchmark');
+      }
+
+      setProfiles(profiles.filter(profile => profile.id !== profileId));
+    } catch (error: any) {
+      console.error('Error deleting benchmark:', error);
+      setError(error.message || 'Failed to delete benchmark');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="p-6 border-b border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-800">Competitor Benchmarks</h2>
+          <p className="text-sm text-gray-600">
+            Build a scoring profile from the channels you compete with, then pick it when analyzing to see how a thumbnail stacks up in your niche
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Benchmark name, e.g. Tech reviewers"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <textarea
+              value={channels}
+              onChange={(e) => setChannels(e.target.value)}
+              rows={4}
+              placeholder={'Channels, one per line\n@handle or https://www.youtube.com/@channel'}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-sm"
+            />
+            <textarea
+              value={videos}
+              onChange={(e) => setVideos(e.target.value)}
+              rows={4}
+              placeholder={'Individual videos, one per line\nhttps://www.youtube.com/watch?v=...'}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-sm"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={!name.trim() || (!channels.trim() && !videos.trim()) || building}
+            className="bg-primary hover:bg-primary-hover text-white font-medium py-2 px-6 rounded-lg transition-all duration-300 disabled:opacity-50"
+          >
+            {building ? 'Building... this can take a few minutes' : 'Build Benchmark'}
+          </button>
+        </form>
+        {error && <p className="px-6 pb-6 text-sm text-red-600">{error}</p>}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="p-6 border-b border-gray-100">
+          <h3 className="font-semibold text-gray-800">Your Benchmarks</h3>
+        </div>
+        {loading ? (
+          <p className="p-6 text-sm text-gray-500">Loading benchmarks...</p>
+        ) : profiles.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">No benchmarks yet</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {profiles.map(profile => (
+              <li key={profile.id} className="px-6 py-4 flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-gray-800">{profile.name}</p>
+                  <p className="text-sm text-gray-600">
+                    {profile.sampleCount} thumbnails · {profile.sources.channels.length} channels · {profile.sources.videos.length} videos · built {new Date(profile.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleDelete(profile.id)}
+                  className="text-sm text-red-600 hover:text-red-700"
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { ChannelCalibration } from '../utils/calibration';
+
+interface CalibrationResponse {
+  importedVideos: number;
+  matchedVideos: number;
+  channels: ChannelCalibration[];
+}
+
+// Chart area inside the SVG viewBox
+const CHART = { width: 400, height: 220, padding: 32 };
+
+export default function CalibrationPanel() {
+  const [calibration, setCalibration] = useState<CalibrationResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [channel, setChannel] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCalibration();
+  }, []);
+
+  const fetchCalibration = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/studio/calibration');
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load calibration');
+      }
+
+      setCalibration(data);
+      setError(null);
+    } catch (error: any) {
+      console.error('Error fetching calibration:', error);
+      setError(error.message || 'Failed to load calibration');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setImporting(true);
+    setImportMessage(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('channel', channel);
+
+      const response = await fetch('/api/studio/import', { method: 'POST', body: formData });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to import CSV');
+      }
+
+      setImportMessage(`Imported ${data.imported} videos for ${data.channel}`);
+      setFile(null);
+      await fetchCalibration();
+    } catch (error: any) {
+      console.error('Error importing Studio CSV:', error);
+      setImportMessage(error.message || 'Failed to import CSV');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  // Describe how strongly scores track CTR
+  const describeCorrelation = (correlation: number | null) => {
+    if (correlation === null) return 'Not enough matched videos yet';
+    const strength = Math.abs(correlation) >= 0.5 ? 'Strong' : Math.abs(correlation) >= 0.3 ? 'Moderate' : 'Weak';
+    return `${strength} ${correlation >= 0 ? 'positive' : 'negative'} correlation (r = ${correlation.toFixed(2)})`;
+  };
+
+  const renderChart = (calibration: ChannelCalibration) => {
+    const maxCtr = Math.max(...calibration.points.map(point => point.ctr), 1) * 1.1;
+    const x = (score: number) => CHART.padding + (score / 100) * (CHART.width - CHART.padding * 2);
+    const y = (ctr: number) => CHART.height - CHART.padding - (ctr / maxCtr) * (CHART.height - CHART.padding * 2);
+    const curvePath = calibration.curve.map(bin => `${x(bin.avgScore)},${y(bin.avgCtr)}`).join(' ');
+
+    return (
+      <svg viewBox={`0 0 ${CHART.width} ${CHART.height}`} className="w-full h-auto">
+        {/* Axes */}
+        <line x1={CHART.padding} y1={CHART.height - CHART.padding} x2={CHART.width - CHART.padding} y2={CHART.height - CHART.padding} stroke="#d1d5db" />
+        <line x1={CHART.padding} y1={CHART.padding} x2={CHART.padding} y2={CHART.height - CHART.padding} stroke="#d1d5db" />
+        {[0, 50, 100].map(score => (
+          <text key={score} x={x(score)} y={CHART.height - CHART.padding + 14} fontSize="10" textAnchor="middle" fill="#6b7280">{score}</text>
+        ))}
+        <text x={CHART.padding - 4} y={y(maxCtr / 1.1) + 3} fontSize="10" textAnchor="end" fill="#6b7280">{(maxCtr / 1.1).toFixed(1)}%</text>
+        <text x={CHART.padding - 4} y={y(0) + 3} fontSize="10" textAnchor="end" fill="#6b7280">0%</text>
+        <text x={CHART.width / 2} y={CHART.height - 4} fontSize="10" textAnchor="middle" fill="#6b7280">Overall score</text>
+
+        {/* Least-squares line */}
+        {calibration.slope !== null && calibration.intercept !== null && (
+          <line
+            x1={x(0)}
+            y1={y(Math.max(0, Math.min(maxCtr, calibration.intercept)))}
+            x2={x(100)}
+            y2={y(Math.max(0, Math.min(maxCtr, calibration.intercept + calibration.slope * 100)))}
+            stroke="#9ca3af"
+            strokeDasharray="4 4"
+          />
+        )}
+
+        {/* Calibration curve, average CTR per score band */}
+        {calibration.curve.length > 1 && (
+          <polyline points={curvePath} fill="none" stroke="#ef4444" strokeWidth="2" />
+        )}
+
+        {calibration.points.map(point => (
+          <circle key={point.videoId} cx={x(point.score)} cy={y(point.ctr)} r="4" fill="#3b82f6" fillOpacity="0.7">
+            <title>{`${point.title || point.videoId}: score ${point.score}, CTR ${point.ctr}%`}</title>
+          </circle>
+        ))}
+      </svg>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="p-6 border-b border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-800">Import YouTube Studio Data</h2>
+          <p className="text-sm text-gray-600">
+            In YouTube Studio, open Analytics, choose Advanced mode, and export the Content table as CSV.
+            Include the Impressions click-through rate column.
+          </p>
+        </div>
+
+        <form onSubmit={handleImport} className="p-6 space-y-4">
+          <div className="flex flex-col md:flex-row gap-4">
+            <input
+              type="text"
+              value={channel}
+              onChange={(e) => setChannel(e.target.value)}
+              placeholder="Channel name"
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              className="flex-1 text-sm text-gray-600"
+            />
+            <button
+              type="submit"
+              disabled={!file || importing}
+              className="bg-primary hover:bg-primary-hover text-white font-medium py-2 px-6 rounded-lg transition-all duration-300 disabled:opacity-50"
+            >
+              {importing ? 'Importing...' : 'Import CSV'}
+            </button>
+          </div>
+          {importMessage && <p className="text-sm text-gray-700">{importMessage}</p>}
+        </form>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="p-6 border-b border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-800">Score Calibration</h2>
+          <p className="text-sm text-gray-600">
+            How your thumbnail scores compare with the click-through rate your videos actually got
+          </p>
+        </div>
+
+        <div className="p-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-6">
+              <p>{error}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-primary"></div>
+            </div>
+          ) : !calibration || calibration.channels.length === 0 ? (
+            <div className="text-center py-8 text-gray-600">
+              {calibration && calibration.importedVideos > 0
+                ? `Imported ${calibration.importedVideos} videos, but none match your analyzed thumbnails yet. Analyze your videos' YouTube thumbnails to compare.`
+                : 'Import a Studio export and analyze your videos\' thumbnails to see how scores track real CTR.'}
+            </div>
+          ) : (
+            <div className="space-y-8">
+              {calibration.channels.map(channelCalibration => (
+                <div key={channelCalibration.channel}>
+                  <div className="flex flex-col md:flex-row md:items-baseline justify-between mb-2">
+                    <h3 className="font-semibold text-gray-800">{channelCalibration.channel}</h3>
+                    <p className="text-sm text-gray-600">
+                      {channelCalibration.points.length} matched videos · {describeCorrelation(channelCalibration.correlation)}
+                    </p>
+                  </div>
+                  {renderChart(channelCalibration)}
+                  {channelCalibration.slope !== null && (
+                    <p className="text-xs text-gray-500 mt-2">
+                      Each 10 points of score goes with {(channelCalibration.slope * 10 >= 0 ? '+' : '')}{(channelCalibration.slope * 10).toFixed(2)} percentage points of CTR on this channel.
+                      The red line is the average CTR per 10-point score band.
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
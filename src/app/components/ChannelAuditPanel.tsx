@@ -0,0 +1,186 @@
+'use client';
+
+import React, { useState } from 'react';
+import { AuditOutlier, ChannelAudit } from '../utils/channelAudit';
+
+const OUTLIER_LABELS: Record<AuditOutlier['kind'], string> = {
+  'high-score': 'Best thumbnail',
+  'low-score': 'Weakest thumbnail',
+  overperformer: 'Overperformer',
+  underperformer: 'Underperformer',
+};
+
+export default function ChannelAuditPanel() {
+  const [channel, setChannel] = useState('');
+  const [audit, setAudit] = useState<ChannelAudit | null>(null);
+  const [auditing, setAuditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!channel.trim()) return;
+
+    setAuditing(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/audit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ channel }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to audit channel');
+      }
+
+      setAudit(data.audit);
+    } catch (error: any) {
+      console.error('Error auditing channel:', error);
+      setError(error.message || 'Failed to audit channel');
+    } finally {
+      setAuditing(false);
+    }
+  };
+
+  const videoTitle = (videoId: string) => audit?.videos.find(video => video.videoId === videoId)?.title || videoId;
+  const maxBinCount = audit ? Math.max(...audit.scoreDistribution.bins.map(bin => bin.count), 1) : 1;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="p-6 border-b border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-800">Channel Audit</h2>
+          <p className="text-sm text-gray-600">
+            Analyze every thumbnail from a channel&apos;s recent uploads and see which traits go with its better-performing videos
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 flex flex-col md:flex-row gap-4">
+          <input
+            type="text"
+            value={channel}
+            onChange={(e) => setChannel(e.target.value)}
+            placeholder="@handle or https://www.youtube.com/@channel"
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          <button
+            type="submit"
+            disabled={!channel.trim() || auditing}
+            className="bg-primary hover:bg-primary-hover text-white font-medium py-2 px-6 rounded-lg transition-all duration-300 disabled:opacity-50"
+          >
+            {auditing ? 'Auditing... this can take a few minutes' : 'Audit Channel'}
+          </button>
+        </form>
+        {error && <p className="px-6 pb-6 text-sm text-red-600">{error}</p>}
+      </div>
+
+      {audit && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="bg-white rounded-xl shadow-md p-6">
+              <h3 className="font-semibold text-gray-800 mb-1">Scores</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                {audit.videoCount} thumbnails · average {audit.scoreDistribution.mean} · range {audit.scoreDistribution.min}-{audit.scoreDistribution.max}
+              </p>
+              <div className="flex items-end gap-1 h-24">
+                {audit.scoreDistribution.bins.map(bin => (
+                  <div
+                    key={bin.minScore}
+                    className="flex-1 bg-primary/70 rounded-t"
+                    style={{ height: `${(bin.count / maxBinCount) * 100}%` }}
+                    title={`${bin.minScore}-${bin.maxScore}: ${bin.count}`}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>0</span>
+                <span>100</span>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-md p-6">
+              <h3 className="font-semibold text-gray-800 mb-1">Palette</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                {audit.palette.consistency === null ? 'Not enough palettes to compare' : `${audit.palette.consistency}/100 consistency`}
+              </p>
+              {audit.palette.signatureColors.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {audit.palette.signatureColors.map(hex => (
+                    <div key={hex} className="w-10 h-10 rounded border border-gray-200" style={{ backgroundColor: hex }} title={hex} />
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No color shows up in most thumbnails</p>
+              )}
+            </div>
+
+            <div className="bg-white rounded-xl shadow-md p-6">
+              <h3 className="font-semibold text-gray-800 mb-1">Faces & Text</h3>
+              <ul className="text-sm text-gray-700 space-y-1">
+                <li>{Math.round(audit.faces.shareWithFaces * 100)}% of thumbnails show a face (average {audit.faces.averageCount})</li>
+                <li>Face use consistency: {audit.faces.consistency}/100</li>
+                <li>{Math.round(audit.text.shareWithText * 100)}% have text</li>
+                <li>Words per thumbnail: median {audit.text.wordCount.median}, range {audit.text.wordCount.min}-{audit.text.wordCount.max}</li>
+              </ul>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-md overflow-hidden">
+            <div className="p-6 border-b border-gray-100">
+              <h3 className="font-semibold text-gray-800">What goes with better performance</h3>
+              <p className="text-sm text-gray-600">
+                Performance is views per day relative to the channel&apos;s median. Correlation isn&apos;t causation, especially with few videos.
+              </p>
+            </div>
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-gray-600">
+                <tr>
+                  <th className="text-left px-6 py-2 font-medium">Trait</th>
+                  <th className="text-right px-6 py-2 font-medium">Correlation</th>
+                  <th className="text-right px-6 py-2 font-medium">Top third</th>
+                  <th className="text-right px-6 py-2 font-medium">Bottom third</th>
+                </tr>
+              </thead>
+              <tbody>
+                {audit.correlations.map(correlation => (
+                  <tr key={correlation.trait} className="border-t border-gray-100">
+                    <td className="px-6 py-2 text-gray-800">{correlation.label}</td>
+                    <td className={`px-6 py-2 text-right font-medium ${
+                      correlation.correlation === null ? 'text-gray-400' : correlation.correlation >= 0 ? 'text-green-600' : 'text-red-500'
+                    }`}>
+                      {correlation.correlation === null ? 'n/a' : correlation.correlation.toFixed(2)}
+                    </td>
+                    <td className="px-6 py-2 text-right text-gray-700">{correlation.topThirdAverage}</td>
+                    <td className="px-6 py-2 text-right text-gray-700">{correlation.bottomThirdAverage}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {audit.outliers.length > 0 && (
+            <div className="bg-white rounded-xl shadow-md p-6">
+              <h3 className="font-semibold text-gray-800 mb-4">Outliers</h3>
+              <ul className="space-y-2 text-sm">
+                {audit.outliers.map(outlier => (
+                  <li key={`${outlier.videoId}-${outlier.kind}`} className="flex flex-col md:flex-row md:justify-between gap-1">
+                    <a
+                      href={`https://www.youtube.com/watch?v=${outlier.videoId}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-gray-800 hover:text-primary"
+                    >
+                      <span className="font-medium">{OUTLIER_LABELS[outlier.kind]}:</span> {videoTitle(outlier.videoId)}
+                    </a>
+                    <span className="text-gray-500">{outlier.reason}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
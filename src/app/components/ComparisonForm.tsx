@@ -0,0 +1,114 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+const MAX_CANDIDATES = 4;
+
+interface CandidateInput {
+  file: File | null;
+  url: string;
+}
+
+const emptyCandidate = (): CandidateInput => ({ file: null, url: '' });
+
+export default function ComparisonForm() {
+  const router = useRouter();
+  const [candidates, setCandidates] = useState<CandidateInput[]>([emptyCandidate(), emptyCandidate()]);
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const filled = candidates.filter(candidate => candidate.file || candidate.url.trim());
+
+  const updateCandidate = (index: number, update: Partial<CandidateInput>) => {
+    setCandidates(candidates.map((candidate, i) => (i === index ? { ...candidate, ...update } : candidate)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (filled.length < 2) return;
+
+    setComparing(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      filled.forEach(candidate => {
+        if (candidate.file) {
+          formData.append('files', candidate.file);
+        } else {
+          formData.append('urls', candidate.url.trim());
+        }
+      });
+
+      const response = await fetch('/api/compare', { method: 'POST', body: formData });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to compare thumbnails');
+      }
+
+      if (!data.id) {
+        throw new Error('The comparison ran but could not be saved');
+      }
+
+      router.push(`/results?comparison=${data.id}`);
+    } catch (error: any) {
+      console.error('Error comparing thumbnails:', error);
+      setError(error.message || 'Failed to compare thumbnails');
+      setComparing(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md overflow-hidden">
+      <div className="p-6 border-b border-gray-100">
+        <h2 className="text-lg font-semibold text-gray-800">Compare Thumbnails</h2>
+        <p className="text-sm text-gray-600">
+          Upload or link 2-4 thumbnail variants to see which one is likely to perform best, and why
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-6 space-y-4">
+        {candidates.map((candidate, index) => (
+          <div key={index} className="flex flex-col md:flex-row md:items-center gap-4">
+            <span className="font-semibold text-gray-700 w-6">{String.fromCharCode(65 + index)}</span>
+            <input
+              type="file"
+              accept="image/*"
+              onChange={(e) => updateCandidate(index, { file: e.target.files?.[0] || null })}
+              className="flex-1 text-sm text-gray-600"
+            />
+            <input
+              type="text"
+              value={candidate.url}
+              disabled={!!candidate.file}
+              onChange={(e) => updateCandidate(index, { url: e.target.value })}
+              placeholder="or thumbnail / YouTube URL"
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary disabled:bg-gray-50"
+            />
+          </div>
+        ))}
+
+        <div className="flex flex-wrap gap-3">
+          {candidates.length < MAX_CANDIDATES && (
+            <button
+              type="button"
+              onClick={() => setCandidates([...candidates, emptyCandidate()])}
+              className="border border-gray-300 text-gray-700 hover:bg-gray-50 font-medium py-2 px-4 rounded-lg transition-all duration-300"
+            >
+              Add Variant
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={filled.length < 2 || comparing}
+            className="bg-primary hover:bg-primary-hover text-white font-medium py-2 px-6 rounded-lg transition-all duration-300 disabled:opacity-50"
+          >
+            {comparing ? 'Comparing...' : `Compare ${filled.length} Thumbnails`}
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </form>
+    </div>
+  );
+}
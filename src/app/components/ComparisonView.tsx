@@ -0,0 +1,96 @@
+'use client';
+
+import React from 'react';
+import { ComparisonDimension, ThumbnailComparison } from '../types';
+
+interface ComparisonViewProps {
+  comparison: ThumbnailComparison;
+}
+
+const DIMENSIONS: Array<{ key: ComparisonDimension; label: string }> = [
+  { key: 'overall', label: 'Overall' },
+  { key: 'text', label: 'Text' },
+  { key: 'visual', label: 'Visual Impact' },
+  { key: 'faces', label: 'Human Element' },
+  { key: 'composition', label: 'Composition' },
+];
+
+const getScoreColorClass = (score: number) => {
+  if (score >= 80) return 'text-green-600';
+  if (score >= 60) return 'text-yellow-600';
+  return 'text-red-500';
+};
+
+export default function ComparisonView({ comparison }: ComparisonViewProps) {
+  const { candidates } = comparison;
+
+  return (
+    <div className="space-y-8">
+      {/* Winner explanation */}
+      <div className="bg-white rounded-xl shadow-md p-6 border-l-4 border-primary">
+        <h2 className="text-xl font-bold text-gray-800 mb-2">{comparison.summary}</h2>
+        {comparison.reasons.length > 0 && (
+          <ul className="list-disc list-inside space-y-1 text-gray-700">
+            {comparison.reasons.map(reason => (
+              <li key={reason}>{reason}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Side-by-side, in rank order */}
+      <div className={`grid grid-cols-1 gap-6 ${candidates.length > 2 ? 'md:grid-cols-2 lg:grid-cols-4' : 'md:grid-cols-2'}`}>
+        {candidates.map(candidate => (
+          <div
+            key={candidate.label}
+            className={`bg-white rounded-xl shadow-md overflow-hidden ${candidate.rank === 1 ? 'ring-2 ring-primary' : ''}`}
+          >
+            {candidate.result?.thumbnail.url && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={candidate.result.thumbnail.url}
+                alt={`Thumbnail ${candidate.label}`}
+                className="w-full aspect-video object-cover"
+              />
+            )}
+            <div className="p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-lg font-semibold text-gray-800">Thumbnail {candidate.label}</h3>
+                <span className={`text-sm font-medium px-2 py-1 rounded ${candidate.rank === 1 ? 'bg-primary text-white' : 'bg-gray-100 text-gray-700'}`}>
+                  #{candidate.rank}
+                </span>
+              </div>
+              <table className="w-full text-sm">
+                <tbody>
+                  {DIMENSIONS.map(({ key, label }) => (
+                    <tr key={key} className="border-t border-gray-100">
+                      <td className="py-1 text-gray-600">{label}</td>
+                      <td className={`py-1 text-right font-semibold ${getScoreColorClass(candidate.scores[key])}`}>
+                        {candidate.scores[key]}
+                      </td>
+                      <td className="py-1 pl-2 text-right w-12 text-gray-500">
+                        {candidate.rank === 1 ? '' : `${candidate.deltas[key] > 0 ? '+' : ''}${candidate.deltas[key]}`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {candidate.analysisId && (
+                <a
+                  href={`/results?id=${candidate.analysisId}`}
+                  className="block mt-4 text-sm text-primary hover:underline"
+                >
+                  View full analysis
+                </a>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Deltas are relative to the winning thumbnail. All variants were scored against the same category.
+      </p>
+    </div>
+  );
+}
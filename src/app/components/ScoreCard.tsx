@@ -1,15 +1,25 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
+import { ScoreFactor } from '../types';
 
 interface ScoreCardProps {
   label: string;
   score: number;
   description?: string;
   isOverall?: boolean;
+  breakdown?: ScoreFactor[];
 }
 
-export default function ScoreCard({ label, score, description }: ScoreCardProps) {
+export default function ScoreCard({ label, score, description, breakdown }: ScoreCardProps) {
+  const [showBreakdown, setShowBreakdown] = useState(false);
+
+  // Format a raw value or benchmark for display
+  const formatValue = (value?: number | string) => {
+    if (value === undefined || value === '') return '-';
+    return String(value);
+  };
+
   // Determine score color based on value
   const getScoreColor = (score: number) => {
     if (score >= 90) return 'text-green-600';
@@ -147,6 +157,49 @@ export default function ScoreCard({ label, score, description }: ScoreCardProps)
             ></div>
           </div>
         </div>
+
+        {/* Waterfall of how each factor adds up to the score */}
+        {breakdown && breakdown.length > 0 && (
+          <div className="mt-3 w-full">
+            <button
+              type="button"
+              onClick={() => setShowBreakdown(!showBreakdown)}
+              className="text-xs text-primary hover:underline"
+            >
+              {showBreakdown ? 'Hide breakdown' : `Why ${score}?`}
+            </button>
+
+            {showBreakdown && (
+              <div className="mt-2 space-y-2 text-left">
+                {breakdown.map((factor, index) => {
+                  const start = breakdown
+                    .slice(0, index)
+                    .reduce((sum, previous) => sum + previous.contribution, 0);
+
+                  return (
+                    <div key={factor.name}>
+                      <div className="flex justify-between text-xs text-gray-700">
+                        <span className="font-medium">{factor.name}</span>
+                        <span>+{factor.contribution.toFixed(1)}</span>
+                      </div>
+                      <div className="relative w-full bg-gray-100 rounded h-2 mt-0.5">
+                        <div
+                          className="absolute h-2 rounded bg-blue-500"
+                          style={{ left: `${Math.min(start, 100)}%`, width: `${Math.min(factor.contribution, 100 - Math.min(start, 100))}%` }}
+                        ></div>
+                      </div>
+                      <div className="text-[11px] text-gray-500 mt-0.5">
+                        {formatValue(factor.value)}
+                        {factor.benchmark !== undefined && ` vs ${formatValue(factor.benchmark)}`}
+                        {' · '}{factor.score}/100 at {Math.round(factor.weight * 100)}% weight
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
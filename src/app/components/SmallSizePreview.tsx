@@ -0,0 +1,66 @@
+'use client';
+
+import React from 'react';
+import Image from 'next/image';
+import { LegibilityCheck } from '../types';
+
+interface SmallSizePreviewProps {
+  thumbnailUrl: string;
+  checks: LegibilityCheck[];
+}
+
+export default function SmallSizePreview({ thumbnailUrl, checks }: SmallSizePreviewProps) {
+  // Determine verdict color based on score
+  const getVerdictColor = (score: number) => {
+    if (score >= 80) return 'bg-green-100 text-green-800';
+    if (score >= 60) return 'bg-blue-100 text-blue-800';
+    if (score >= 40) return 'bg-orange-100 text-orange-800';
+    return 'bg-red-100 text-red-800';
+  };
+
+  return (
+    <div className="space-y-4">
+      {checks.map(check => (
+        <div key={check.size} className="flex flex-col sm:flex-row sm:items-center gap-4 bg-white rounded-lg p-4 shadow-sm">
+          {/* Rendered at YouTube's actual size so the browser does the downscaling */}
+          <div
+            className="relative flex-shrink-0 bg-black rounded overflow-hidden"
+            style={{ width: check.width, height: check.height }}
+          >
+            {thumbnailUrl && (
+              <Image
+                src={thumbnailUrl}
+                alt={`${check.label} preview`}
+                fill
+                sizes={`${check.width}px`}
+                className="object-contain"
+                unoptimized
+              />
+            )}
+          </div>
+
+          <div className="flex-1">
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium text-gray-800">{check.label}</h3>
+              <span className="text-xs text-gray-500">{check.width} x {check.height}</span>
+            </div>
+            <div className="flex items-center mt-2">
+              <span className={`px-2 py-0.5 rounded-full text-sm font-medium ${getVerdictColor(check.score)}`}>
+                {check.verdict}
+              </span>
+              <span className="ml-2 text-sm text-gray-600">{check.score}/100</span>
+            </div>
+            <ul className="mt-2 text-sm text-gray-600 space-y-1">
+              {check.smallestTextHeight !== undefined && (
+                <li>Smallest text: {check.smallestTextHeight}px tall</li>
+              )}
+              {check.contrast !== undefined && (
+                <li>Lowest text contrast: {check.contrast.toFixed(1)}:1</li>
+              )}
+            </ul>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { AnalysisResult } from '../types';
 import ScoreCard from './ScoreCard';
 import RecommendationList from './RecommendationList';
 import AnalysisDetails from './AnalysisDetails';
+import SmallSizePreview from './SmallSizePreview';
 
 interface ThumbnailAnalysisProps {
   result: AnalysisResult;
@@ -16,6 +17,9 @@ interface ThumbnailAnalysisProps {
 export default function ThumbnailAnalysis({ result, activeTab, onTabChange }: ThumbnailAnalysisProps) {
   const { thumbnail, scores, recommendations, analysis } = result;
   const [imageError, setImageError] = useState(false);
+  const [showOverlays, setShowOverlays] = useState(false);
+  const overlayCollisions = analysis.overlays?.collisions || [];
+  const isShorts = thumbnail.mode === 'shorts';
   
   // Function to handle image loading errors
   const handleImageError = () => {
@@ -72,9 +76,13 @@ export default function ThumbnailAnalysis({ result, activeTab, onTabChange }: Th
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 text-primary" viewBox="0 0 20 20" fill="currentColor">
                       <path fillRule="evenodd" d="M4 3a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V5a2 2 0 00-2-2H4zm12 12H4l4-8 3 6 2-4 3 6z" clipRule="evenodd" />
                     </svg>
-                    Your Thumbnail
+                    {isShorts ? 'Your Shorts Cover' : 'Your Thumbnail'}
                   </h2>
-                  <div className="relative w-full aspect-video rounded-lg overflow-hidden border border-gray-200 shadow-sm">
+                  {/* Shorts keep the image's own shape so the feed's side crop lines up with the overlay mask */}
+                  <div
+                    className={`relative w-full rounded-lg overflow-hidden border border-gray-200 shadow-sm ${isShorts ? 'max-w-xs mx-auto' : 'aspect-video'}`}
+                    style={isShorts ? { aspectRatio: thumbnail.width && thumbnail.height ? `${thumbnail.width} / ${thumbnail.height}` : '9 / 16' } : undefined}
+                  >
                     {thumbnail.url && !imageError ? (
                       <Image
                         src={imageError ? getFallbackUrl(thumbnail.url) : thumbnail.url}
@@ -92,9 +100,76 @@ export default function ThumbnailAnalysis({ result, activeTab, onTabChange }: Th
                         </p>
                       </div>
                     )}
+
+                    {/* YouTube overlay mask - zones are normalized to the frame */}
+                    {showOverlays && analysis.overlays && (
+                      <div className="absolute inset-0 pointer-events-none">
+                        {analysis.overlays.zones.map(zone => (
+                          <div
+                            key={zone.id}
+                            className={`absolute border border-dashed ${zone.severity === 'high' ? 'bg-red-500/30 border-red-500' : 'bg-yellow-400/30 border-yellow-500'}`}
+                            style={{
+                              left: `${zone.box.x * 100}%`,
+                              top: `${zone.box.y * 100}%`,
+                              width: `${zone.box.width * 100}%`,
+                              height: `${zone.box.height * 100}%`,
+                            }}
+                            title={zone.label}
+                          />
+                        ))}
+                        {overlayCollisions.map((collision, index) => (
+                          <div
+                            key={`${collision.zoneId}-${index}`}
+                            className="absolute border-2 border-red-600"
+                            style={{
+                              left: `${collision.box.x * 100}%`,
+                              top: `${collision.box.y * 100}%`,
+                              width: `${collision.box.width * 100}%`,
+                              height: `${collision.box.height * 100}%`,
+                            }}
+                          />
+                        ))}
+                      </div>
+                    )}
                   </div>
+                  {analysis.overlays && (
+                    <div className="mt-2 flex items-center justify-between text-sm">
+                      <button
+                        type="button"
+                        onClick={() => setShowOverlays(!showOverlays)}
+                        className="text-primary hover:underline"
+                      >
+                        {showOverlays ? 'Hide YouTube overlays' : 'Show YouTube overlays'}
+                      </button>
+                      {overlayCollisions.length > 0 ? (
+                        <span className="text-red-600">
+                          {overlayCollisions.length} element{overlayCollisions.length === 1 ? '' : 's'} hidden by overlays
+                        </span>
+                      ) : (
+                        <span className="text-green-600">Clear of YouTube overlays</span>
+                      )}
+                    </div>
+                  )}
                   <div className="mt-2 text-sm text-gray-500">
-                    <p>Dimensions: {thumbnail.width} x {thumbnail.height} pixels</p>
+                    {thumbnail.video && (
+                      <p className="text-gray-700">
+                        <span className="font-medium">{thumbnail.video.title}</span>
+                        {thumbnail.video.channelTitle && ` · ${thumbnail.video.channelTitle}`}
+                        {thumbnail.video.publishedAt && ` · ${new Date(thumbnail.video.publishedAt).toLocaleDateString()}`}
+                      </p>
+                    )}
+                    <p>
+                      Dimensions: {thumbnail.width} x {thumbnail.height} pixels
+                      {thumbnail.format && thumbnail.format !== 'unknown' && ` · ${thumbnail.format.toUpperCase()}`}
+                      {thumbnail.fileSize !== undefined && ` · ${Math.round(thumbnail.fileSize / 1024)} KB`}
+                      {thumbnail.category && ` · ${thumbnail.category}`}
+                      {isShorts && ' · Shorts cover'}
+                    </p>
+                    {scores.resolution !== undefined && scores.resolution < 80 && (
+                      <p className="text-orange-600 mt-1">
+                        Resolution score {scores.resolution}/100: YouTube recommends {isShorts ? '1080 x 1920 at a 9:16' : '1280 x 720 at a 16:9'} aspect ratio.
+                      </p>
+                    )}
                     {imageError && (
                       <p className="text-yellow-600 mt-1">
                         Note: The original image couldn&apos;t be loaded. This may be due to YouTube&apos;s thumbnail availability.
@@ -185,12 +260,39 @@ export default function ThumbnailAnalysis({ result, activeTab, onTabChange }: Th
                   Component Scores
                 </h2>
                 <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4 animation-delay-200">
-                  <ScoreCard label="Text" score={scores.text} description="Text clarity and readability" />
-                  <ScoreCard label="Visual" score={scores.visual} description="Colors and visual elements" />
-                  <ScoreCard label="Faces" score={scores.faces} description="Face presence and expressions" />
-                  <ScoreCard label="Composition" score={scores.composition} description="Layout and design elements" />
+                  <ScoreCard label="Text" score={scores.text} breakdown={scores.breakdown?.text} description="Text clarity and readability" />
+                  <ScoreCard label="Visual" score={scores.visual} breakdown={scores.breakdown?.visual} description="Colors and visual elements" />
+                  <ScoreCard label="Faces" score={scores.faces} breakdown={scores.breakdown?.faces} description="Face presence and expressions" />
+                  <ScoreCard label="Composition" score={scores.composition} breakdown={scores.breakdown?.composition} description="Layout and design elements" />
                 </div>
+                {scores.benchmark && (
+                  <div className="mt-4 p-4 bg-primary/5 border border-primary/20 rounded-lg text-sm">
+                    <p className="font-medium text-gray-800">Scored against your &quot;{scores.benchmark.name}&quot; benchmark</p>
+                    {scores.benchmark.insights.length > 0 ? (
+                      <ul className="mt-2 list-disc list-inside text-gray-700 space-y-1">
+                        {scores.benchmark.insights.map((insight, index) => (
+                          <li key={index}>{insight}</li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="mt-1 text-gray-600">This thumbnail matches what works for your competitors.</p>
+                    )}
+                  </div>
+                )}
               </div>
+
+              {/* Small Size Legibility */}
+              {analysis.legibility && analysis.legibility.length > 0 && (
+                <div className="mt-8">
+                  <h2 className="text-xl font-semibold mb-4 text-gray-800 flex items-center">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 text-primary" viewBox="0 0 20 20" fill="currentColor">
+                      <path fillRule="evenodd" d="M7 2a2 2 0 00-2 2v12a2 2 0 002 2h6a2 2 0 002-2V4a2 2 0 00-2-2H7zm3 14a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
+                    </svg>
+                    How It Looks at Small Sizes
+                  </h2>
+                  <SmallSizePreview thumbnailUrl={thumbnail.url} checks={analysis.legibility} />
+                </div>
+              )}
               
               {/* Key Findings Summary */}
               <div className="mt-8 bg-blue-50 rounded-xl p-6 border border-blue-100">
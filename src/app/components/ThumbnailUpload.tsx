@@ -1,12 +1,13 @@
 'use client';
 
 import React, { useState, useRef, ChangeEvent, useEffect } from 'react';
-import { ThumbnailData } from '../types';
+import { AnalysisMode, ThumbnailData } from '../types';
 import { useAuth } from '@clerk/nextjs';
 import { useRouter } from 'next/navigation';
 import { getUserDailyAnalysisCount } from '@/lib/db/index';
 import AuthModal from './AuthModal';
 import FileUpload from './FileUpload';
+import { classifyYoutubeLink, getShortsCoverUrl, YOUTUBE_CATEGORIES, YoutubeLink } from '../utils/youtube';
 
 interface ThumbnailUploadProps {
   onSubmit: (data: ThumbnailData) => void;
@@ -19,6 +20,17 @@ export default function ThumbnailUpload({ onSubmit, isLoading = false, buttonTex
   const [file, setFile] = useState<File | null>(null);
   const [url, setUrl] = useState('');
   const [youtubeId, setYoutubeId] = useState('');
+  // What the user typed in the YouTube tab - a video ID or any YouTube link
+  const [youtubeInput, setYoutubeInput] = useState('');
+  const [youtubeLink, setYoutubeLink] = useState<YoutubeLink | null>(null);
+  const [queueingBatch, setQueueingBatch] = useState(false);
+  // Empty means auto-detect from YouTube metadata where possible
+  const [category, setCategory] = useState('');
+  // Empty means the global findings
+  const [benchmarkId, setBenchmarkId] = useState('');
+  const [benchmarks, setBenchmarks] = useState<Array<{ id: number; name: string }>>([]);
+  // Switched to Shorts for /shorts/ links and portrait images, but can be changed by hand
+  const [mode, setMode] = useState<AnalysisMode>('video');
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [dragActive, setDragActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -31,6 +43,18 @@ export default function ThumbnailUpload({ onSubmit, isLoading = false, buttonTex
   const { isLoaded, isSignedIn, userId } = useAuth();
   const router = useRouter();
 
+  // Load the user's benchmark profiles for the benchmark picker
+  useEffect(() => {
+    if (!isLoaded || !isSignedIn) return;
+
+    fetch('/api/benchmarks')
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) setBenchmarks(data.profiles);
+      })
+      .catch(error => console.error('Error loading benchmark profiles:', error));
+  }, [isLoaded, isSignedIn]);
+
   // Check if user has already used their daily analysis
   useEffect(() => {
     if (isLoaded && isSignedIn && userId) {
@@ -61,6 +85,8 @@ export default function ThumbnailUpload({ onSubmit, isLoading = false, buttonTex
         if (pendingData.url) storableData.url = pendingData.url;
         if (pendingData.youtubeId) storableData.youtubeId = pendingData.youtubeId;
         if (pendingData.previewUrl) storableData.previewUrl = pendingData.previewUrl;
+        if (pendingData.category) storableData.category = pendingData.category;
+        if (pendingData.mode) storableData.mode = pendingData.mode;
         
         sessionStorage.setItem('pendingAnalysisData', JSON.stringify(storableData));
         console.log('Stored pending data in sessionStorage:', storableData);
@@ -181,8 +207,11 @@ export default function ThumbnailUpload({ onSubmit, isLoading = false, buttonTex
     setFile(null);
     setUrl('');
     setYoutubeId('');
+    setYoutubeInput('');
+    setYoutubeLink(null);
     setPreviewUrl(null);
     setError(null);
+    setMode('video');
   };
 
   const handleMethodChange = (method: 'file' | 'url' | 'youtube') => {
@@ -250,26 +279,85 @@ export default function ThumbnailUpload({ onSubmit, isLoading = false, buttonTex
     setYoutubeId('');
   };
 
-  const validateYoutubeId = (id: string): boolean => {
-    // YouTube IDs are typically 11 characters
-    return /^[a-zA-Z0-9_-]{11}$/.test(id);
-  };
-
-  const handleYoutubeIdChange = (e: ChangeEvent<HTMLInputElement>) => {
-    const id = e.target.value.trim();
-    setYoutubeId(id);
+  const handleYoutubeInputChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    const link = value.trim() ? classifyYoutubeLink(value) : null;
+    setYoutubeInput(value);
+    setYoutubeLink(link);
     
-    if (id && validateYoutubeId(id)) {
-      // Set a preview URL for the YouTube thumbnail
-      const previewUrl = `https://img.youtube.com/vi/${id}/hqdefault.jpg`;
+    if (link && (link.type === 'video' || link.type === 'short')) {
+      setYoutubeId(link.videoId);
+      setMode(link.type === 'short' ? 'shorts' : 'video');
+      // Set a preview URL for the YouTube thumbnail, or the portrait cover for Shorts
+      const previewUrl = link.type === 'short'
+        ? getShortsCoverUrl(link.videoId)
+        : `https://img.youtube.com/vi/${link.videoId}/hqdefault.jpg`;
       setPreviewUrl(previewUrl);
     } else {
+      setYoutubeId('');
       setPreviewUrl(null);
     }
     
+    setError(null);
     setFile(null);
     setUrl('');
   };
+  
+  // Portrait uploads and image URLs are almost always Shorts covers
+  const handlePreviewLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    if (uploadMethod === 'youtube') return;
+    const { naturalWidth, naturalHeight } = e.currentTarget;
+    setMode(naturalHeight > naturalWidth ? 'shorts' : 'video');
+  };
+  
+  // Playlists and channels are queued as a batch of their videos' thumbnails
+  const isYoutubeCollection = uploadMethod === 'youtube' && (youtubeLink?.type === 'playlist' || youtubeLink?.type === 'channel');
+  
+  const handleBatchSubmit = async () => {
+    if (!isSignedIn) {
+      setShowAuthModal(true);
+      return;
+    }
+    
+    setQueueingBatch(true);
+    setError(null);
+    try {
+      const extractResponse = await fetch('/api/extract', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: youtubeInput }),
+      });
+      const extracted = await extractResponse.json();
+      
+      if (!extractResponse.ok) {
+        throw new Error(extracted.error || 'Failed to list videos');
+      }
+      if (extracted.videos.length === 0) {
+        throw new Error('No videos found');
+      }
+      
+      const jobResponse = await fetch('/api/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          urls: extracted.videos.map((video: { thumbnail: string }) => video.thumbnail),
+          category: category || undefined,
+        }),
+      });
+      const job = await jobResponse.json();
+      
+      if (!jobResponse.ok || !job.success) {
+        throw new Error(job.error || 'Failed to queue batch analysis');
+      }
+      
+      router.push('/dashboard?tab=batches');
+    } catch (error: any) {
+      console.error('Error queueing batch analysis:', error);
+      setError(error.message || 'Failed to queue batch analysis');
+    } finally {
+      setQueueingBatch(false);
+    }
+  };
 
   // Add validateUrl function near the other validation functions
   const validateUrl = (url: string): boolean => {
@@ -291,6 +379,9 @@ export default function ThumbnailUpload({ onSubmit, isLoading = false, buttonTex
         // If we have a file, send it as form data
         const formData = new FormData();
         formData.append('file', data.file);
+        if (data.category) formData.append('category', data.category);
+        if (data.benchmarkId) formData.append('benchmarkId', String(data.benchmarkId));
+        if (data.mode) formData.append('mode', data.mode);
         
         response = await fetch('/api/analyze', {
           method: 'POST',
@@ -303,17 +394,19 @@ export default function ThumbnailUpload({ onSubmit, isLoading = false, buttonTex
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({ url: data.url }),
+          body: JSON.stringify({ url: data.url, category: data.category, benchmarkId: data.benchmarkId, mode: data.mode }),
         });
       } else if (data.youtubeId) {
-        // If we have a YouTube ID, construct a URL and send as JSON
-        const youtubeUrl = `https://img.youtube.com/vi/${data.youtubeId}/maxresdefault.jpg`;
+        // If we have a YouTube ID, construct a URL and send as JSON - Shorts use their portrait cover
+        const youtubeUrl = data.mode === 'shorts'
+          ? getShortsCoverUrl(data.youtubeId)
+          : `https://img.youtube.com/vi/${data.youtubeId}/maxresdefault.jpg`;
         response = await fetch('/api/analyze', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({ url: youtubeUrl }),
+          body: JSON.stringify({ url: youtubeUrl, category: data.category, benchmarkId: data.benchmarkId, mode: data.mode }),
         });
       } else {
         throw new Error('No valid data for analysis');
@@ -369,20 +462,20 @@ export default function ThumbnailUpload({ onSubmit, isLoading = false, buttonTex
 
     if (uploadMethod === 'file' && file) {
       console.log('ThumbnailUpload - Submitting file:', file.name);
-      data = { file, previewUrl: previewUrl || undefined };
+      data = { file, previewUrl: previewUrl || undefined, category: category || undefined, benchmarkId: benchmarkId ? Number(benchmarkId) : undefined, mode };
     } else if (uploadMethod === 'url' && url) {
       console.log('ThumbnailUpload - Submitting URL:', url);
-      data = { url, previewUrl: previewUrl || undefined };
-    } else if (uploadMethod === 'youtube' && youtubeId) {
-      console.log('ThumbnailUpload - Submitting YouTube ID:', youtubeId);
-      
-      // Basic YouTube ID validation
-      const youtubeIdRegex = /^[a-zA-Z0-9_-]{11}$/;
-      if (youtubeIdRegex.test(youtubeId)) {
-        data = { youtubeId, previewUrl: previewUrl || undefined };
+      data = { url, previewUrl: previewUrl || undefined, category: category || undefined, benchmarkId: benchmarkId ? Number(benchmarkId) : undefined, mode };
+    } else if (isYoutubeCollection) {
+      await handleBatchSubmit();
+      return;
+    } else if (uploadMethod === 'youtube' && youtubeInput) {
+      if (youtubeId) {
+        console.log('ThumbnailUpload - Submitting YouTube ID:', youtubeId);
+        data = { youtubeId, previewUrl: previewUrl || undefined, category: category || undefined, benchmarkId: benchmarkId ? Number(benchmarkId) : undefined, mode };
       } else {
         isValid = false;
-        validationError = 'Please enter a valid YouTube video ID (11 characters)';
+        validationError = 'Please enter a valid YouTube video link or ID';
       }
     } else {
       isValid = false;
@@ -413,6 +506,8 @@ export default function ThumbnailUpload({ onSubmit, isLoading = false, buttonTex
         if (data.url) storableData.url = data.url;
         if (data.youtubeId) storableData.youtubeId = data.youtubeId;
         if (data.previewUrl) storableData.previewUrl = data.previewUrl;
+        if (data.category) storableData.category = data.category;
+        if (data.mode) storableData.mode = data.mode;
         storableData.uploadMethod = uploadMethod;
         
         sessionStorage.setItem('pendingAnalysisData', JSON.stringify(storableData));
@@ -457,8 +552,18 @@ export default function ThumbnailUpload({ onSubmit, isLoading = false, buttonTex
             }
           }
           
+          if (parsedData.category) {
+            setCategory(parsedData.category);
+          }
+          
+          if (parsedData.mode) {
+            setMode(parsedData.mode);
+          }
+          
           if (parsedData.youtubeId) {
             setYoutubeId(parsedData.youtubeId);
+            setYoutubeInput(parsedData.youtubeId);
+            setYoutubeLink({ type: 'video', videoId: parsedData.youtubeId });
             
             if (parsedData.previewUrl) {
               setPreviewUrl(parsedData.previewUrl);
@@ -560,26 +665,95 @@ export default function ThumbnailUpload({ onSubmit, isLoading = false, buttonTex
         {uploadMethod === 'youtube' && (
           <div className="space-y-3">
             <label htmlFor="youtube-input" className="block text-sm font-medium text-gray-700">
-              Enter YouTube Video ID:
+              Enter a YouTube link or video ID:
             </label>
             <input
               id="youtube-input"
               ref={youtubeInputRef}
               type="text"
-              placeholder="dQw4w9WgXcQ"
+              placeholder="https://www.youtube.com/watch?v=dQw4w9WgXcQ"
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary/50 text-gray-800"
-              value={youtubeId}
-              onChange={handleYoutubeIdChange}
+              value={youtubeInput}
+              onChange={handleYoutubeInputChange}
             />
             <p className="text-xs text-gray-500">
-              Enter the YouTube video ID (e.g., dQw4w9WgXcQ from https://www.youtube.com/watch?v=dQw4w9WgXcQ)
+              Videos, Shorts, live streams and youtu.be links work, as do playlists and channels (e.g. https://www.youtube.com/@handle)
             </p>
+            {isYoutubeCollection && (
+              <p className="text-xs text-primary">
+                This is a {youtubeLink?.type}. Its recent videos will be queued as a batch analysis, which you can follow from your dashboard.
+              </p>
+            )}
+            {youtubeLink?.type === 'invalid' && (
+              <p className="text-xs text-red-600">
+                This doesn&apos;t look like a YouTube video, playlist or channel link.
+              </p>
+            )}
             <p className="text-xs text-yellow-600">
               Note: YouTube thumbnails may not always be available at the highest quality.
             </p>
           </div>
         )}
 
+        {/* Thumbnail format - Shorts covers have their own overlays and thresholds */}
+        {!isYoutubeCollection && (
+          <div className="mt-4 space-y-1">
+            <label htmlFor="mode-select" className="block text-sm font-medium text-gray-700">
+              Format:
+            </label>
+            <select
+              id="mode-select"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary/50 text-gray-800 bg-white"
+              value={mode}
+              onChange={(e) => setMode(e.target.value as AnalysisMode)}
+            >
+              <option value="video">Video thumbnail (16:9)</option>
+              <option value="shorts">Shorts cover (9:16)</option>
+            </select>
+          </div>
+        )}
+
+        {/* Video category - picks category-specific scoring thresholds */}
+        <div className="mt-4 space-y-1">
+          <label htmlFor="category-select" className="block text-sm font-medium text-gray-700">
+            Video category:
+          </label>
+          <select
+            id="category-select"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary/50 text-gray-800 bg-white"
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+          >
+            <option value="">{uploadMethod === 'youtube' ? 'Auto-detect from YouTube' : 'Not specified'}</option>
+            {Object.values(YOUTUBE_CATEGORIES).map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500">
+            Scores are compared against successful thumbnails in the same category.
+          </p>
+        </div>
+
+        {/* Benchmark profile - scores against the user's competitors instead of the global sample */}
+        {benchmarks.length > 0 && (
+          <div className="mt-4 space-y-1">
+            <label htmlFor="benchmark-select" className="block text-sm font-medium text-gray-700">
+              Compare against:
+            </label>
+            <select
+              id="benchmark-select"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary/50 text-gray-800 bg-white"
+              value={benchmarkId}
+              onChange={(e) => setBenchmarkId(e.target.value)}
+            >
+              <option value="">Trending thumbnails (global)</option>
+              {benchmarks.map(benchmark => (
+                <option key={benchmark.id} value={benchmark.id}>{benchmark.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {error && (
           <div className="mt-3 p-2 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm flex items-center">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1 flex-shrink-0" viewBox="0 0 20 20" fill="currentColor">
@@ -596,12 +770,15 @@ export default function ThumbnailUpload({ onSubmit, isLoading = false, buttonTex
           {previewUrl ? (
             <div className="mb-4">
               <p className="text-sm font-medium text-gray-700 mb-2">Preview:</p>
-              <div className="relative w-full aspect-video bg-gray-100 rounded-lg overflow-hidden border border-gray-200">
+              <div className={`relative bg-gray-100 rounded-lg overflow-hidden border border-gray-200 ${
+                mode === 'shorts' ? 'h-80 aspect-[9/16] mx-auto' : 'w-full aspect-video'
+              }`}>
                 {/* eslint-disable-next-line @next/next/no-img-element */}
                 <img 
                   src={previewUrl} 
                   alt="Thumbnail preview" 
                   className="w-full h-full object-contain"
+                  onLoad={handlePreviewLoad}
                 />
               </div>
             </div>
@@ -625,12 +802,20 @@ export default function ThumbnailUpload({ onSubmit, isLoading = false, buttonTex
         {/* Analyze Button - Always visible */}
         <button 
           className={`w-full bg-primary hover:bg-primary-hover text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 transform hover:scale-105 flex items-center justify-center ${
-            isLoading ? 'opacity-70 cursor-not-allowed' : ''
+            isLoading || queueingBatch ? 'opacity-70 cursor-not-allowed' : ''
           }`}
           onClick={handleSubmit}
-          disabled={isLoading || (!file && !url && !youtubeId)}
+          disabled={isLoading || queueingBatch || (!file && !url && !youtubeId && !isYoutubeCollection)}
         >
-          {isLoading ? (
+          {queueingBatch ? (
+            <>
+              <svg className="animate-spin -ml-1 mr-2 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              Queueing videos...
+            </>
+          ) : isLoading ? (
             <>
               <svg className="animate-spin -ml-1 mr-2 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -643,7 +828,7 @@ export default function ThumbnailUpload({ onSubmit, isLoading = false, buttonTex
               <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor">
                 <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-8.707l-3-3a1 1 0 00-1.414 0l-3 3a1 1 0 001.414 1.414L9 9.414V13a1 1 0 102 0V9.414l1.293 1.293a1 1 0 001.414-1.414z" clipRule="evenodd" />
               </svg>
-              {buttonText}
+              {isYoutubeCollection ? 'Analyze Videos as a Batch' : buttonText}
             </>
           )}
         </button>
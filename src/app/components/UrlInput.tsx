@@ -1,6 +1,8 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
+import { VideoMetadata } from '../types';
+import { classifyYoutubeLink } from '../utils/youtube';
 
 interface UrlInputProps {
   onUrlSubmit: (url: string) => void;
@@ -11,12 +13,13 @@ export default function UrlInput({ onUrlSubmit }: UrlInputProps) {
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
+  const [video, setVideo] = useState<VideoMetadata | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   const validateYoutubeUrl = (url: string): boolean => {
-    // Simple validation for YouTube URLs
-    const youtubeRegex = /^(https?:\/\/)?(www\.)?(youtube\.com\/watch\?v=|youtu\.be\/)([a-zA-Z0-9_-]{11})(\S*)?$/;
-    return youtubeRegex.test(url);
+    // Only single videos have one thumbnail to extract
+    const link = classifyYoutubeLink(url);
+    return link.type === 'video' || link.type === 'short';
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -35,6 +38,7 @@ export default function UrlInput({ onUrlSubmit }: UrlInputProps) {
     }
     
     setError(null);
+    setVideo(null);
     setIsLoading(true);
     
     try {
@@ -52,6 +56,9 @@ export default function UrlInput({ onUrlSubmit }: UrlInputProps) {
         throw new Error(errorData.error || 'Failed to extract thumbnail');
       }
       
+      const data = await response.json();
+      setVideo(data.metadata);
+      
       // Show success state briefly
       setIsSuccess(true);
       setTimeout(() => setIsSuccess(false), 2000);
@@ -145,6 +152,13 @@ export default function UrlInput({ onUrlSubmit }: UrlInputProps) {
           </div>
         )}
         
+        {video && (
+          <div className="mt-3 text-sm text-gray-700 animate-fadeIn">
+            <span className="font-medium">{video.title}</span>
+            {video.channelTitle && <span className="text-gray-500"> · {video.channelTitle}</span>}
+          </div>
+        )}
+        
         <div className="mt-3 text-xs text-gray-500">
           <p>Example: https://www.youtube.com/watch?v=dQw4w9WgXcQ</p>
         </div>
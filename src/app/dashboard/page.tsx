@@ -5,6 +5,11 @@ import { useAuth, UserProfile, UserButton } from '@clerk/nextjs';
 import { getUserDailyAnalysisCount, getLastAnalysisTimestamp, getUserThumbnailAnalyses } from '@/lib/db/index';
 import { redirect } from 'next/navigation';
 import Header from '../components/Header';
+import CalibrationPanel from '../components/CalibrationPanel';
+import ComparisonForm from '../components/ComparisonForm';
+import BatchJobsPanel from '../components/BatchJobsPanel';
+import ChannelAuditPanel from '../components/ChannelAuditPanel';
+import BenchmarkPanel from '../components/BenchmarkPanel';
 import Link from 'next/link';
 import Image from 'next/image';
 
@@ -70,6 +75,14 @@ export default function ProfilePage() {
     }
   }, [isLoaded, isSignedIn]);
 
+  // Open the tab named in ?tab=, e.g. after queueing a batch from the home page
+  useEffect(() => {
+    const tab = new URLSearchParams(window.location.search).get('tab');
+    if (tab) {
+      setActiveTab(tab);
+    }
+  }, []);
+
   // Fetch analysis history when the history tab is activated
   useEffect(() => {
     if (activeTab === 'history' && userId && analysisHistory.length === 0 && !historyLoading) {
@@ -302,6 +315,66 @@ export default function ProfilePage() {
                     Analysis History
                   </button>
                   
+                  <button
+                    className={`w-full text-left px-4 py-3 rounded-lg flex items-center transition-colors ${
+                      activeTab === 'calibration' ? 'bg-primary/10 text-primary' : 'text-gray-700 hover:bg-gray-50'
+                    }`}
+                    onClick={() => handleTabChange('calibration')}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-3" viewBox="0 0 20 20" fill="currentColor">
+                      <path d="M2 11a1 1 0 011-1h2a1 1 0 011 1v5a1 1 0 01-1 1H3a1 1 0 01-1-1v-5zM8 7a1 1 0 011-1h2a1 1 0 011 1v9a1 1 0 01-1 1H9a1 1 0 01-1-1V7zM14 4a1 1 0 011-1h2a1 1 0 011 1v12a1 1 0 01-1 1h-2a1 1 0 01-1-1V4z" />
+                    </svg>
+                    CTR Calibration
+                  </button>
+                  
+                  <button
+                    className={`w-full text-left px-4 py-3 rounded-lg flex items-center transition-colors ${
+                      activeTab === 'compare' ? 'bg-primary/10 text-primary' : 'text-gray-700 hover:bg-gray-50'
+                    }`}
+                    onClick={() => handleTabChange('compare')}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-3" viewBox="0 0 20 20" fill="currentColor">
+                      <path d="M5 3a2 2 0 00-2 2v10a2 2 0 002 2h3V3H5zM12 3v14h3a2 2 0 002-2V5a2 2 0 00-2-2h-3z" />
+                    </svg>
+                    Compare Thumbnails
+                  </button>
+                  
+                  <button
+                    className={`w-full text-left px-4 py-3 rounded-lg flex items-center transition-colors ${
+                      activeTab === 'batches' ? 'bg-primary/10 text-primary' : 'text-gray-700 hover:bg-gray-50'
+                    }`}
+                    onClick={() => handleTabChange('batches')}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-3" viewBox="0 0 20 20" fill="currentColor">
+                      <path d="M7 3a1 1 0 000 2h6a1 1 0 100-2H7zM4 7a1 1 0 011-1h10a1 1 0 110 2H5a1 1 0 01-1-1zM2 11a2 2 0 012-2h12a2 2 0 012 2v4a2 2 0 01-2 2H4a2 2 0 01-2-2v-4z" />
+                    </svg>
+                    Batch Analysis
+                  </button>
+                  
+                  <button
+                    className={`w-full text-left px-4 py-3 rounded-lg flex items-center transition-colors ${
+                      activeTab === 'audit' ? 'bg-primary/10 text-primary' : 'text-gray-700 hover:bg-gray-50'
+                    }`}
+                    onClick={() => handleTabChange('audit')}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-3" viewBox="0 0 20 20" fill="currentColor">
+                      <path fillRule="evenodd" d="M8 4a4 4 0 100 8 4 4 0 000-8zM2 8a6 6 0 1110.89 3.476l4.817 4.817a1 1 0 01-1.414 1.414l-4.816-4.816A6 6 0 012 8z" clipRule="evenodd" />
+                    </svg>
+                    Channel Audit
+                  </button>
+                  
+                  <button
+                    className={`w-full text-left px-4 py-3 rounded-lg flex items-center transition-colors ${
+                      activeTab === 'benchmarks' ? 'bg-primary/10 text-primary' : 'text-gray-700 hover:bg-gray-50'
+                    }`}
+                    onClick={() => handleTabChange('benchmarks')}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-3" viewBox="0 0 20 20" fill="currentColor">
+                      <path d="M2 11a1 1 0 011-1h2a1 1 0 011 1v5a1 1 0 01-1 1H3a1 1 0 01-1-1v-5zM8 7a1 1 0 011-1h2a1 1 0 011 1v9a1 1 0 01-1 1H9a1 1 0 01-1-1V7zM14 4a1 1 0 011-1h2a1 1 0 011 1v12a1 1 0 01-1 1h-2a1 1 0 01-1-1V4z" />
+                    </svg>
+                    Benchmarks
+                  </button>
+                  
                   <button
                     className={`w-full text-left px-4 py-3 rounded-lg flex items-center transition-colors ${
                       activeTab === 'settings' ? 'bg-primary/10 text-primary' : 'text-gray-700 hover:bg-gray-50'
@@ -689,6 +762,16 @@ export default function ProfilePage() {
               </div>
             )}
             
+            {activeTab === 'calibration' && <CalibrationPanel />}
+            
+            {activeTab === 'compare' && <ComparisonForm />}
+            
+            {activeTab === 'batches' && <BatchJobsPanel />}
+            
+            {activeTab === 'audit' && <ChannelAuditPanel />}
+
+            {activeTab === 'benchmarks' && <BenchmarkPanel />}
+            
             {activeTab === 'settings' && (
               <div className="bg-white rounded-xl shadow-md overflow-hidden">
                 <div className="p-6 border-b border-gray-100">
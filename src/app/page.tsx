@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import ThumbnailUpload from './components/ThumbnailUpload';
 import { ThumbnailData } from './types';
+import { getShortsCoverUrl } from './utils/youtube';
 import AnalysisLoading from './components/AnalysisLoading';
 import Header from './components/Header';
 import { useAuth } from '@clerk/nextjs';
@@ -76,6 +77,7 @@ export default function Home() {
           if (data.url) storableData.url = data.url;
           if (data.youtubeId) storableData.youtubeId = data.youtubeId;
           if (data.previewUrl) storableData.previewUrl = data.previewUrl;
+          if (data.category) storableData.category = data.category;
           
           sessionStorage.setItem('pendingAnalysisData', JSON.stringify(storableData));
           console.log('Stored pending data in sessionStorage (Home):', storableData);
@@ -122,6 +124,9 @@ export default function Home() {
         // If we have a file, send it as FormData
         const formData = new FormData();
         formData.append('file', data.file);
+        if (data.category) formData.append('category', data.category);
+        if (data.benchmarkId) formData.append('benchmarkId', String(data.benchmarkId));
+        if (data.mode) formData.append('mode', data.mode);
         
         response = await fetch('/api/analyze', {
           method: 'POST',
@@ -134,18 +139,20 @@ export default function Home() {
           headers: {
             'Content-Type': 'application/json'
           },
-          body: JSON.stringify({ url: data.url })
+          body: JSON.stringify({ url: data.url, category: data.category, benchmarkId: data.benchmarkId, mode: data.mode })
         });
       } else if (data.youtubeId) {
-        // If we have a YouTube ID, construct the URL
-        const url = `https://img.youtube.com/vi/${data.youtubeId}/maxresdefault.jpg`;
+        // If we have a YouTube ID, construct the URL - Shorts use their portrait cover
+        const url = data.mode === 'shorts'
+          ? getShortsCoverUrl(data.youtubeId)
+          : `https://img.youtube.com/vi/${data.youtubeId}/maxresdefault.jpg`;
         
         response = await fetch('/api/analyze', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json'
           },
-          body: JSON.stringify({ url })
+          body: JSON.stringify({ url, category: data.category, benchmarkId: data.benchmarkId, mode: data.mode })
         });
       } else {
         throw new Error('No thumbnail data provided');
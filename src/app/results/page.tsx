@@ -3,7 +3,8 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import ThumbnailAnalysis from '../components/ThumbnailAnalysis';
-import { AnalysisResult } from '../types';
+import ComparisonView from '../components/ComparisonView';
+import { AnalysisResult, ThumbnailComparison } from '../types';
 import Header from '../components/Header';
 import { SignedIn, SignedOut, useAuth } from '@clerk/nextjs';
 
@@ -12,6 +13,7 @@ export default function Results() {
   const searchParams = useSearchParams();
   const { isLoaded: isAuthLoaded, userId } = useAuth();
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  const [comparison, setComparison] = useState<ThumbnailComparison | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [showContent, setShowContent] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -90,8 +92,12 @@ export default function Results() {
     
     // Check if we have an analysis ID in the URL
     const analysisId = searchParams.get('id');
+    const comparisonId = searchParams.get('comparison');
     
-    if (analysisId) {
+    if (comparisonId) {
+      // A/B comparisons are always loaded from the API
+      fetchComparisonById(comparisonId);
+    } else if (analysisId) {
       // If we have an ID, fetch the analysis from the API
       fetchAnalysisById(analysisId);
     } else {
@@ -100,6 +106,45 @@ export default function Results() {
     }
   }, [searchParams, isAuthLoaded, userId]);
   
+  const fetchComparisonById = async (id: string) => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/compare/${id}`);
+      
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to fetch comparison');
+      }
+      
+      const data = await response.json();
+      
+      if (data.success && data.comparison) {
+        setComparison(data.comparison);
+        setIsLoading(false);
+        
+        // Add a slight delay before showing content for a smooth animation
+        const timer = setTimeout(() => {
+          setShowContent(true);
+        }, 300);
+        
+        return () => clearTimeout(timer);
+      } else {
+        throw new Error('Invalid comparison data received');
+      }
+    } catch (error: any) {
+      console.error('Failed to fetch comparison:', error);
+      setError(error.message || 'Failed to fetch comparison. Please try again.');
+      setIsLoading(false);
+      
+      // If we can't fetch the comparison, redirect to home after a delay
+      const timer = setTimeout(() => {
+        router.push('/');
+      }, 3000);
+      
+      return () => clearTimeout(timer);
+    }
+  };
+  
   const fetchAnalysisById = async (id: string) => {
     try {
       setIsLoading(true);
@@ -361,6 +406,30 @@ export default function Results() {
               Go to Home Page Now
             </button>
           </div>
+        ) : comparison ? (
+          <div className={`transition-opacity duration-500 ${showContent ? 'opacity-100' : 'opacity-0'}`}>
+            <div className="bg-gradient-to-r from-primary/10 to-accent/10 py-8 border-b border-primary/10">
+              <div className="container mx-auto px-4 max-w-6xl">
+                <div className="flex flex-col md:flex-row items-center justify-between gap-6">
+                  <div>
+                    <h1 className="text-3xl md:text-4xl font-bold mb-2 text-gray-800">Comparison Results</h1>
+                    <p className="text-lg text-gray-700">
+                      How your {comparison.candidates.length} thumbnail variants rank against each other
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => router.push('/dashboard')}
+                    className="inline-flex items-center bg-primary hover:bg-primary-hover text-white font-medium py-2 px-4 rounded-lg transition-all duration-300"
+                  >
+                    Back to Dashboard
+                  </button>
+                </div>
+              </div>
+            </div>
+            <div className="container mx-auto px-4 max-w-6xl py-8">
+              <ComparisonView comparison={comparison} />
+            </div>
+          </div>
         ) : analysisResult ? (
           <div className={`transition-opacity duration-500 ${showContent ? 'opacity-100' : 'opacity-0'}`}>
             {/* Results Header */}
@@ -1,8 +1,93 @@
+import type { ModelVersion } from '../utils/scoringModel';
+
 export interface ThumbnailData {
   file?: File;
   url?: string;
   youtubeId?: string;
   previewUrl?: string;
+  category?: string;
+  // Score against one of the user's benchmark profiles instead of the global findings
+  benchmarkId?: number;
+  // Left unset, the server picks Shorts mode for portrait images
+  mode?: AnalysisMode;
+}
+
+/**
+ * What the thumbnail is for: a regular 16:9 video thumbnail or a 9:16 Shorts cover
+ * Each mode has its own overlays, render sizes and scoring thresholds
+ */
+export type AnalysisMode = 'video' | 'shorts';
+
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type GridPosition = `${'top' | 'middle' | 'bottom'}-${'left' | 'center' | 'right'}`;
+
+export interface TextBlockGeometry {
+  text: string;
+  box: BoundingBox;
+  heightPercent: number;
+  gridPosition: GridPosition;
+  faceOverlap: number;
+  contrast?: number;
+}
+
+export type LayoutType = 'centered' | 'rule-of-thirds' | 'golden-ratio' | 'other';
+
+export interface DetectedObjectSummary {
+  name: string;
+  confidence: number;
+  box: BoundingBox;
+}
+
+export type RenderSize = 'sidebar' | 'search' | 'mobile' | 'shorts-shelf' | 'shorts-feed';
+
+export interface LegibilityCheck {
+  size: RenderSize;
+  label: string;
+  width: number;
+  height: number;
+  score: number;
+  smallestTextHeight?: number;
+  contrast?: number;
+  verdict: string;
+}
+
+export type OverlayZoneId =
+  | 'timestamp'
+  | 'progress-bar'
+  | 'hover-actions'
+  | 'shorts-title'
+  | 'shorts-action-rail'
+  | 'shorts-top-bar'
+  | 'shorts-crop-left'
+  | 'shorts-crop-right';
+
+export interface OverlayZone {
+  id: OverlayZoneId;
+  label: string;
+  // Normalized to the thumbnail frame (0-1)
+  box: BoundingBox;
+  severity: 'high' | 'medium';
+}
+
+export interface OverlayCollision {
+  zoneId: OverlayZoneId;
+  element: 'text' | 'face';
+  label: string;
+  // Normalized to the thumbnail frame (0-1)
+  box: BoundingBox;
+  // Fraction of the element hidden by the overlay
+  coverage: number;
+}
+
+export interface OverlayAnalysis {
+  zones: OverlayZone[];
+  collisions: OverlayCollision[];
 }
 
 export interface AnalysisResult {
@@ -10,6 +95,18 @@ export interface AnalysisResult {
     url: string;
     width: number;
     height: number;
+    aspectRatio?: number;
+    format?: 'jpeg' | 'png' | 'webp' | 'gif' | 'unknown';
+    colorSpace?: 'rgb' | 'rgba' | 'grayscale' | 'cmyk' | 'indexed' | 'unknown';
+    fileSize?: number;
+    source?: 'upload' | 'url';
+    // YouTube video category, e.g. "Gaming"
+    category?: string;
+    // Missing on older analyses, which were all video thumbnails
+    mode?: AnalysisMode;
+    // Video title, set for YouTube thumbnails
+    title?: string;
+    video?: VideoMetadata;
   };
   scores: {
     text: number;
@@ -17,6 +114,12 @@ export interface AnalysisResult {
     faces: number;
     composition: number;
     overall: number;
+    resolution?: number;
+    breakdown?: ScoreBreakdown;
+    // Scoring model that produced these scores, missing on older analyses
+    model?: ModelVersion;
+    // Set when scored against one of the user's benchmark profiles instead of the global findings
+    benchmark?: BenchmarkScoring;
   };
   analysis: {
     text: {
@@ -24,25 +127,151 @@ export interface AnalysisResult {
       readability: string;
       fontSizes?: number[];
       fontContrast?: number;
+      blocks?: TextBlockGeometry[];
+      faceOverlap?: number;
     };
     colors: {
       dominant: string[];
       contrast: string;
       brightnessFactor?: number;
       saturationLevel?: number;
+      saturationDistribution?: {
+        low: number;
+        medium: number;
+        high: number;
+      };
+      palette?: Array<{ hex: string; coverage: number }>;
+      colorfulness?: number;
+      paletteContrast?: number;
     };
     faces: {
       count: number;
       expressions: string[];
       prominence: string;
       explanation: string;
+      coverage?: number;
       eyeContact?: boolean;
       position?: 'center' | 'left' | 'right' | 'other';
     };
-    layoutType?: 'centered' | 'rule-of-thirds' | 'golden-ratio' | 'other';
+    layoutType?: LayoutType;
     clutterFactor?: number;
+    focalPoint?: { x: number; y: number };
+    objects?: DetectedObjectSummary[];
+    legibility?: LegibilityCheck[];
+    overlays?: OverlayAnalysis;
   };
   recommendations: Recommendation[];
+  // Set when the features came from the analysis cache instead of a fresh Vision run
+  cache?: AnalysisCacheInfo;
+}
+
+/**
+ * How an analysis was matched in the cache of earlier results
+ */
+export interface AnalysisCacheInfo {
+  // Only the exact same bytes are a hit
+  hit: boolean;
+  imageHash: string;
+  // 64-bit difference hash as hex, null when the image couldn't be decoded
+  perceptualHash: string | null;
+  // When the cached features were first extracted
+  cachedAt?: string;
+  // The user's own latest analysis of a near-identical image, as a hint only - none of its results are reused
+  similarAnalysis?: {
+    id: number;
+    analyzedAt: string;
+  };
+}
+
+/**
+ * A YouTube video's metadata, from the Data API or the oEmbed fallback
+ */
+export interface VideoMetadata {
+  videoId: string;
+  title: string;
+  channelTitle: string;
+  channelId?: string;
+  channelUrl?: string;
+  // The fields below need the Data API; oEmbed only has the title and channel
+  category?: string;
+  durationSeconds?: number;
+  publishedAt?: string;
+  source: 'data-api' | 'oembed';
+}
+
+/**
+ * Output of image analysis before scoring - measured features only
+ */
+export type VisionAnalysis = Omit<AnalysisResult, 'scores' | 'recommendations'>;
+
+export type TextReadability = 'No text detected' | 'Too little text' | 'Good amount of text' | 'Too much text';
+
+export type FaceProminence = 'High' | 'Medium' | 'Low' | 'None';
+
+/**
+ * Typed feature vector - the only input the scoring engine reads
+ */
+export interface ThumbnailFeatures {
+  text: {
+    count: number;
+    characterCount: number;
+    readability: TextReadability;
+    // Line heights as a percentage of the frame height
+    fontSizes?: number[];
+    fontContrast?: number;
+    faceOverlap?: number;
+  };
+  colors: {
+    dominant: string[];
+    contrast: string;
+    brightness?: number;
+    saturation?: number;
+    colorfulness?: number;
+    paletteContrast?: number;
+  };
+  faces: {
+    count: number;
+    expressions: string[];
+    prominence: FaceProminence;
+    // Largest face as a percentage of the image area
+    coverage: number;
+    eyeContact?: boolean;
+    position?: 'center' | 'left' | 'right' | 'other';
+  };
+  composition: {
+    layoutType?: LayoutType;
+    clutterFactor?: number;
+  };
+  objects: string[];
+  // Picks category-specific thresholds when set
+  category?: string;
+  mode?: AnalysisMode;
+  image: {
+    width: number;
+    height: number;
+    source?: 'upload' | 'url';
+  };
+}
+
+export interface ScoreFactor {
+  name: string;
+  // Measured value the factor was scored on
+  value?: number | string;
+  // What successful thumbnails look like, from findings.json
+  benchmark?: number | string;
+  score: number;
+  weight: number;
+  // Points this factor adds to the component score
+  contribution: number;
+}
+
+export type ScoreComponent = 'text' | 'visual' | 'faces' | 'composition' | 'overall' | 'resolution';
+
+export type ScoreBreakdown = Partial<Record<ScoreComponent, ScoreFactor[]>>;
+
+export interface ComponentScore {
+  score: number;
+  factors: ScoreFactor[];
 }
 
 export interface Recommendation {
@@ -58,4 +287,81 @@ export interface Recommendation {
   icon?: string;
   tools?: string[];
   examples?: string[];
-} 
\ No newline at end of file
+} 
+
+export type ComparisonDimension = Exclude<ScoreComponent, 'resolution'>;
+
+/**
+ * One thumbnail in an A/B comparison
+ */
+export interface ComparisonCandidate {
+  // Candidate letter in submission order, e.g. "A"
+  label: string;
+  analysisId: number | null;
+  // 1 is the winner
+  rank: number;
+  scores: Pick<AnalysisResult['scores'], ComparisonDimension>;
+  // Score minus the winner's score, per dimension
+  deltas: Record<ComparisonDimension, number>;
+  // Present when the comparison is loaded with its analyses
+  result?: AnalysisResult;
+}
+
+export interface ThumbnailComparison {
+  id?: number;
+  // Ordered by rank
+  candidates: ComparisonCandidate[];
+  winner: string;
+  // "A wins because ..." summary and the reasons behind it
+  summary: string;
+  reasons: string[];
+  createdAt?: string;
+}
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type AnalysisJobItemStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+/**
+ * One thumbnail in a batch analysis job
+ */
+export interface AnalysisJobItem {
+  id: number;
+  jobId: number;
+  position: number;
+  url: string;
+  // Set for images extracted from an uploaded zip, which are analyzed as uploads
+  fileName?: string;
+  status: AnalysisJobItemStatus;
+  attempts: number;
+  analysisId: number | null;
+  error?: string;
+}
+
+/**
+ * A batch of thumbnails queued for analysis
+ */
+export interface AnalysisJob {
+  id: number;
+  status: AnalysisJobStatus;
+  category?: string;
+  total: number;
+  pending: number;
+  processing: number;
+  completed: number;
+  failed: number;
+  createdAt: string;
+  finishedAt?: string;
+  // Present when a single job is loaded
+  items?: AnalysisJobItem[];
+}
+
+/**
+ * The benchmark profile a thumbnail was scored against
+ */
+export interface BenchmarkScoring {
+  id: number;
+  name: string;
+  // Where the thumbnail falls short of the benchmark's thumbnails
+  insights: string[];
+}
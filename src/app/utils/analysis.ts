@@ -0,0 +1,197 @@
+import { analyzeImage } from './vision';
+import { recalculateScores } from './scoring';
+import { generateRecommendations } from './anthropic';
+import { extractVideoIdFromThumbnailUrl, fetchVideoMetadata } from './youtube';
+import { getModelVersion, getPerformanceInsights, ScoringModelSource } from './scoringModel';
+import { getImageAnalysisProvider } from './providers';
+import { probeImage } from './imageProbe';
+import { hashImage } from './imageHash';
+import { openImage } from './pixels';
+import { featuresFromVision } from '../../lib/pipeline/dataset';
+import { getYoutubeDataClient } from '../../lib/youtube/client';
+import { fetchImage } from '../../lib/imageFetch';
+import { readStoredImage } from '../../lib/storage';
+import { AnalysisCacheKey, getCachedAnalysis, saveCachedAnalysis } from '../../lib/db';
+import { AnalysisCacheInfo, AnalysisMode, AnalysisResult, VideoMetadata, VisionAnalysis } from '../types';
+
+/**
+ * Whether an analysis served from the cache uses up one of the user's daily analyses
+ * Cache hits cost no Vision or Anthropic calls, so they're free. Users over the limit are
+ * still turned away before anything is fetched, so the cache can't be used to get around it
+ */
+export const CACHE_HITS_COUNT_TOWARDS_DAILY_LIMIT = false;
+
+/**
+ * A user's benchmark profile, loaded for scoring
+ */
+export interface BenchmarkSource {
+  id: number;
+  name: string;
+  source: ScoringModelSource;
+}
+
+/**
+ * Read an analysis mode from a request field, ignoring anything unrecognized
+ */
+export function parseAnalysisMode(value: unknown): AnalysisMode | undefined {
+  return value === 'video' || value === 'shorts' ? value : undefined;
+}
+
+/**
+ * Load an image by URL
+ * Images we stored ourselves are read from storage, anything else goes through the hardened fetcher
+ */
+export async function loadImageFromUrl(url: string): Promise<Buffer> {
+  const stored = await readStoredImage(url);
+  if (stored) return stored;
+
+  const image = await fetchImage(url);
+  return image.buffer;
+}
+
+/**
+ * Main function to analyze a thumbnail using our services
+ * This uses the real APIs and algorithms we've built
+ */
+export async function analyzeThumbnail(
+  thumbnailUrl: string,
+  thumbnailData?: File,
+  category?: string,
+  benchmark?: BenchmarkSource,
+  mode?: AnalysisMode
+): Promise<AnalysisResult> {
+  try {
+    console.log(`Starting analysis for: ${thumbnailUrl}`);
+    
+    // Step 1: Convert File to Buffer if needed
+    let imageBuffer: Buffer;
+    
+    if (thumbnailData) {
+      // Convert File to Buffer
+      const arrayBuffer = await thumbnailData.arrayBuffer();
+      imageBuffer = Buffer.from(arrayBuffer);
+    } else if (thumbnailUrl) {
+      // Fetch the image from URL, refusing private networks, oversized files and non-images
+      imageBuffer = await loadImageFromUrl(thumbnailUrl);
+    } else {
+      throw new Error('No image data provided');
+    }
+    
+    // Step 2: Reuse features extracted from the same image before, keyed by its hashes
+    // Opening the image refuses anything too large to decode, and the hash and analysis share one decode
+    const image = openImage(imageBuffer);
+    const probe = probeImage(imageBuffer);
+    const hashes = await hashImage(image);
+    const cacheKey: AnalysisCacheKey = {
+      imageHash: hashes.exact,
+      // Without a requested mode, vision picks it from the orientation the same way
+      mode: mode || (probe.height > probe.width ? 'shorts' : 'video'),
+      provider: getImageAnalysisProvider().name,
+      modelVersion: getModelVersion().version,
+    };
+    const cached = await getCachedAnalysis(cacheKey);
+    
+    // Step 3: Run image analysis with Vision API on a miss
+    let visionResult: VisionAnalysis;
+    if (cached) {
+      console.log(`Analysis cache hit for image ${hashes.exact}`);
+      visionResult = { ...cached.vision, thumbnail: { ...cached.vision.thumbnail } };
+    } else {
+      visionResult = await analyzeImage(image, cacheKey.mode);
+      console.log('Vision API analysis complete');
+    }
+    visionResult.thumbnail.source = thumbnailData ? 'upload' : 'url';
+    visionResult.thumbnail.category = category;
+    
+    // Step 4: Calculate scores based on the vision results
+    // A benchmark profile replaces the global findings, so scores read as "vs. my niche"
+    const withScores = benchmark
+      ? scoreAgainstBenchmark(visionResult, benchmark)
+      : recalculateScores(visionResult);
+    console.log('Score calculation complete:', withScores.scores);
+    
+    // Step 5: Generate recommendations using Anthropic API
+    // Cached ones are reused when they were written for the same category and global findings
+    const recommendations = cached?.recommendations && !benchmark && cached.category === (category || null)
+      ? cached.recommendations
+      : await generateRecommendations(withScores);
+    
+    if (!cached) {
+      await saveCachedAnalysis(cacheKey, {
+        vision: visionResult,
+        recommendations: benchmark ? null : recommendations,
+        category,
+      });
+    }
+    
+    const cache: AnalysisCacheInfo = cached
+      ? { hit: true, imageHash: hashes.exact, perceptualHash: hashes.perceptual, cachedAt: cached.createdAt }
+      : { hit: false, imageHash: hashes.exact, perceptualHash: hashes.perceptual };
+    
+    // Add recommendations to the result
+    const finalResult: AnalysisResult = {
+      ...withScores,
+      thumbnail: {
+        ...withScores.thumbnail,
+        url: thumbnailUrl  // Ensure the URL is explicitly set
+      },
+      recommendations: recommendations,
+      cache
+    };
+    
+    console.log('Recommendations generated:', finalResult.recommendations.length);
+    
+    return finalResult;
+  } catch (error) {
+    console.error('Error in analyzeThumbnail:', error);
+    throw error;
+  }
+}
+
+/**
+ * Score vision output against a benchmark profile and note where it falls short of it
+ */
+export function scoreAgainstBenchmark<T extends VisionAnalysis>(
+  visionResult: T,
+  benchmark: BenchmarkSource
+): T & Pick<AnalysisResult, 'scores'> {
+  const scored = recalculateScores(visionResult, benchmark.source);
+  const features = featuresFromVision(visionResult);
+  const insights = getPerformanceInsights({
+    textEntities: features.textEntities,
+    colorScore: features.colorScore,
+    faceCount: features.faceCount,
+    faceCoverage: features.faceCoverage,
+  }, benchmark.source);
+
+  return {
+    ...scored,
+    scores: {
+      ...scored.scores,
+      benchmark: { id: benchmark.id, name: benchmark.name, insights },
+    },
+  };
+}
+
+/**
+ * Looks up the video category for a YouTube thumbnail URL
+ * Returns undefined for other URLs or when the Data API isn't available, since oEmbed has no category
+ */
+export async function detectThumbnailCategory(url: string): Promise<string | undefined> {
+  const category = (await detectVideoMetadata(url))?.category;
+  console.log(`Detected category for ${url}:`, category || 'unknown');
+  return category;
+}
+
+/**
+ * Looks up the video behind a YouTube thumbnail URL
+ * Returns undefined for other URLs or when neither the Data API nor oEmbed has the video
+ */
+export async function detectVideoMetadata(url: string): Promise<VideoMetadata | undefined> {
+  const videoId = extractVideoIdFromThumbnailUrl(url);
+  if (!videoId) return undefined;
+
+  const metadata = await fetchVideoMetadata(videoId, getYoutubeDataClient());
+  console.log(`Fetched metadata for video ${videoId}:`, metadata ? `${metadata.title} (${metadata.source})` : 'unavailable');
+  return metadata || undefined;
+}
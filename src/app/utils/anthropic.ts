@@ -3,7 +3,13 @@ import { Anthropic } from '@anthropic-ai/sdk';
 import {
   getOverallFindings,
   getRecommendedColors,
+  getScoringNorms,
+  ScoringNorms,
+  SHORTS_THRESHOLDS,
 } from './scoringModel';
+import { categorizeColorRange } from './colorAnalysis';
+import { getOverlayRecommendations } from './overlays';
+import { RECOMMENDED_DIMENSIONS } from './scoring';
 
 const COMPONENT_ICONS = {
   text: '🔤',
@@ -16,7 +22,7 @@ const COMPONENT_ICONS = {
 /**
  * Generate recommendations for a thumbnail based on analysis results
  */
-export async function generateRecommendations(analysisResult: AnalysisResult): Promise<Recommendation[]> {
+export async function generateRecommendations(analysisResult: Omit<AnalysisResult, 'recommendations'>): Promise<Recommendation[]> {
   try {
     // Try to use Anthropic API for smart recommendations
     if (process.env.ANTHROPIC_API_KEY) {
@@ -40,6 +46,12 @@ export async function generateRecommendations(analysisResult: AnalysisResult): P
         { component: 'composition', score: analysisResult.scores.composition }
       ].sort((a, b) => a.score - b.score);
 
+      const overlays = analysisResult.analysis.overlays;
+      const overlayCollisions = overlays?.collisions || [];
+      const mode = analysisResult.thumbnail.mode || 'video';
+      const recommended = RECOMMENDED_DIMENSIONS[mode];
+      const norms = getScoringNorms(analysisResult.thumbnail.category, undefined, mode);
+
       const prompt = `You are a YouTube thumbnail optimization expert. Based on analysis of thousands of successful thumbnails, provide specific recommendations to improve this thumbnail.
 
 Current Analysis:
@@ -47,12 +59,19 @@ Current Analysis:
 - Visual Score: ${analysisResult.scores.visual}/100 (Colors: ${analysisResult.analysis.colors.dominant.join(', ')})
 - Face Score: ${analysisResult.scores.faces}/100 (${analysisResult.analysis.faces.count} faces, ${analysisResult.analysis.faces.expressions.join(', ')})
 - Overall Score: ${analysisResult.scores.overall}/100
+- Format: ${mode === 'shorts'
+  ? 'YouTube Shorts cover (9:16), shown full screen with the title, subscribe button and like/comment/share buttons drawn over it'
+  : 'Video thumbnail (16:9)'}
+- Image: ${analysisResult.thumbnail.width}x${analysisResult.thumbnail.height}${analysisResult.scores.resolution !== undefined ? ` (Resolution Score: ${analysisResult.scores.resolution}/100, recommended ${recommended.width}x${recommended.height} at ${recommended.aspectLabel})` : ''}
+- Hidden by YouTube overlays: ${overlayCollisions.length > 0
+  ? overlayCollisions.map(c => `${c.label} under the ${overlays?.zones.find(z => z.id === c.zoneId)?.label.toLowerCase()}`).join(', ')
+  : 'nothing'}
 
 Successful Thumbnail Patterns:
 - Text: ${findings.textStats.withTextPercentage}% use text, avg ${findings.textStats.avgTextEntities} elements
 - Faces: ${findings.faceStats.withFacesPercentage}% include faces, avg coverage ${findings.faceStats.avgFaceCoverage}%
 - Colors: Most effective are ${getRecommendedColors().map(c => c.range).join(', ')}
-
+${norms.category ? `\n${describeCategoryNorms(norms)}\n` : ''}${mode === 'shorts' ? `\nShorts Cover Norms:\n- Text: ${SHORTS_THRESHOLDS.maxTextEntities} words at most, large enough to read on the Shorts shelf\n- Faces: one close-up face, about ${SHORTS_THRESHOLDS.faceCoverage}% of the frame, centered\n` : ''}
 Priority Areas (Lowest to Highest Score):
 ${componentScores.map(c => `- ${c.component.toUpperCase()}: ${c.score}/100`).join('\n')}
 
@@ -92,7 +111,9 @@ Keep each recommendation under 100 words total. Be specific, practical, and data
       }
       
       const recommendations = parseRecommendations(content.text, componentScores);
-      return recommendations.length > 0 ? recommendations : generateBasicRecommendations(analysisResult);
+      return recommendations.length > 0
+        ? [...getOverlayRecommendations(overlays, mode), ...recommendations]
+        : generateBasicRecommendations(analysisResult);
     }
 
     // Fallback to basic recommendations if no API key
@@ -103,6 +124,21 @@ Keep each recommendation under 100 words total. Be specific, practical, and data
   }
 }
 
+/**
+ * Summarize a category's norms for prompts and recommendation steps
+ */
+function describeCategoryNorms(norms: ScoringNorms): string {
+  return [
+    `${norms.category} Thumbnail Norms:`,
+    `- Text: ${norms.textPresence ? 'usually present' : 'usually absent'}, avg ${Math.round(norms.avgTextEntities * 10) / 10} elements`,
+    `- Faces: ${norms.facePresence ? 'usually shown' : 'usually not shown'}`,
+    `- Colors: ${norms.commonColors.slice(0, 3).map(c => c.range).join(', ')}`,
+    norms.commonObjects.length > 0
+      ? `- Common objects: ${norms.commonObjects.slice(0, 3).map(o => o.name).join(', ')}`
+      : '',
+  ].filter(Boolean).join('\n');
+}
+
 /**
  * Parse AI generated recommendations into structured format
  */
@@ -191,21 +227,31 @@ function parseRecommendations(text: string, componentScores: Array<{ component:
  * Generate data-driven recommendations based on analysis results
  * Used as a fallback when Anthropic API is not available
  */
-function generateBasicRecommendations(analysisResult: AnalysisResult): Recommendation[] {
-  const recommendations: Recommendation[] = [];
+function generateBasicRecommendations(analysisResult: Omit<AnalysisResult, 'recommendations'>): Recommendation[] {
+  const mode = analysisResult.thumbnail.mode || 'video';
+  const isShorts = mode === 'shorts';
+  // Overlay collisions are measured, not estimated, so they always come first
+  const recommendations: Recommendation[] = getOverlayRecommendations(analysisResult.analysis.overlays, mode);
   const findings = getOverallFindings();
-  const recommendedColors = getRecommendedColors();
+  const norms = getScoringNorms(analysisResult.thumbnail.category, undefined, mode);
+  const recommendedColors = norms.category
+    ? norms.commonColors.filter(color => color.range !== 'other')
+    : getRecommendedColors();
   
-  // Text recommendations based on findings
+  // Text recommendations based on findings (or the category's norms)
   const textLength = analysisResult.analysis.text.detected.length;
-  if (textLength < findings.textStats.avgTextEntities) {
+  const targetTextCount = Math.round(norms.avgTextEntities);
+  if (textLength < targetTextCount && norms.textPresence) {
     recommendations.push({
       category: 'text',
-      action: `Add ${findings.textStats.avgTextEntities - textLength} text elements`,
+      action: `Add ${targetTextCount - textLength} text elements`,
       steps: [
         'Create short, impactful text overlays using a bold font',
-        'Place primary text in the top third of the thumbnail',
-        'Use contrasting colors for better readability'
+        isShorts
+          ? 'Place primary text in the upper middle of the cover, below the search bar'
+          : 'Place primary text in the top third of the thumbnail',
+        'Use contrasting colors for better readability',
+        ...(norms.category ? [`${norms.category} thumbnails average ${targetTextCount} text elements`] : [])
       ],
       impact: {
         metric: 'Click-through rate',
@@ -216,10 +262,28 @@ function generateBasicRecommendations(analysisResult: AnalysisResult): Recommend
       icon: COMPONENT_ICONS.text,
       tools: ['Canva', 'Adobe Express', 'Photoshop']
     });
+  } else if (isShorts && textLength > SHORTS_THRESHOLDS.maxTextEntities) {
+    // The Shorts player already shows the title, so a wordy cover just competes with it
+    recommendations.push({
+      category: 'text',
+      action: `Cut the cover text to ${SHORTS_THRESHOLDS.maxTextEntities} words or fewer`,
+      steps: [
+        'Keep a single short hook and let the title below carry the rest',
+        'Make the remaining words large enough to read on the Shorts shelf',
+        'Keep text out of the bottom fifth, where the title and subscribe button sit'
+      ],
+      impact: {
+        metric: 'Readability on the Shorts shelf',
+        value: textLength - SHORTS_THRESHOLDS.maxTextEntities,
+        unit: 'points'
+      },
+      priority: 1,
+      icon: COMPONENT_ICONS.text
+    });
   }
 
   // Color recommendations based on findings
-  const currentColors = new Set(analysisResult.analysis.colors.dominant.map(c => c.toLowerCase()));
+  const currentColors = new Set(analysisResult.analysis.colors.dominant.map(categorizeColorRange));
   const recommendedColorSet = new Set(recommendedColors.slice(0, 3).map(c => c.range.toLowerCase()));
   const missingTopColors = [...recommendedColorSet].filter(c => !currentColors.has(c));
   
@@ -230,7 +294,8 @@ function generateBasicRecommendations(analysisResult: AnalysisResult): Recommend
       steps: [
         `Add ${missingTopColors[0]} elements through text, overlays, or backgrounds`,
         'Ensure color contrast ratio is at least 4.5:1',
-        'Use the color for important visual elements or text'
+        'Use the color for important visual elements or text',
+        ...(norms.category ? [`${missingTopColors[0]} is one of the most common colors in ${norms.category} thumbnails`] : [])
       ],
       impact: {
         metric: 'Visual appeal score',
@@ -244,14 +309,16 @@ function generateBasicRecommendations(analysisResult: AnalysisResult): Recommend
   }
 
   // Face recommendations based on findings
-  if (analysisResult.analysis.faces.count === 0 && findings.faceStats.withFacesPercentage > 70) {
+  const facesExpected = norms.category ? norms.facePresence : findings.faceStats.withFacesPercentage > 70;
+  if (analysisResult.analysis.faces.count === 0 && facesExpected) {
     recommendations.push({
       category: 'face',
       action: 'Add a human face to the thumbnail',
       steps: [
-        'Position face in the center-right area',
-        `Ensure face covers ${Math.round(findings.faceStats.avgFaceCoverage)}% of thumbnail`,
-        'Use clear, well-lit photo with good resolution'
+        isShorts ? 'Center the face in the upper half of the cover' : 'Position face in the center-right area',
+        `Ensure face covers ${Math.round(norms.faceCoverage)}% of thumbnail`,
+        'Use clear, well-lit photo with good resolution',
+        ...(norms.category ? [`Most ${norms.category} thumbnails show a face`] : [])
       ],
       impact: {
         metric: 'Engagement rate',
@@ -263,13 +330,13 @@ function generateBasicRecommendations(analysisResult: AnalysisResult): Recommend
     });
   } else if (analysisResult.analysis.faces.count > 0) {
     const currentCoverage = parseFloat(analysisResult.analysis.faces.prominence) || 0;
-    if (currentCoverage < findings.faceStats.avgFaceCoverage) {
+    if (currentCoverage < norms.faceCoverage) {
       recommendations.push({
         category: 'face',
         action: 'Optimize face size and placement',
         steps: [
-          `Increase face size to cover ${Math.round(findings.faceStats.avgFaceCoverage)}% of thumbnail`,
-          'Position face in the center-right third',
+          `Increase face size to cover ${Math.round(norms.faceCoverage)}% of thumbnail`,
+          isShorts ? 'Center the face, clear of the buttons on the right edge' : 'Position face in the center-right third',
           'Ensure face is well-lit and in focus'
         ],
         impact: {
@@ -283,16 +350,44 @@ function generateBasicRecommendations(analysisResult: AnalysisResult): Recommend
     }
   }
 
+  // Resolution recommendations for uploads that are too small or the wrong shape
+  const { width, height } = analysisResult.thumbnail;
+  const recommended = RECOMMENDED_DIMENSIONS[mode];
+  if (analysisResult.scores.resolution !== undefined && analysisResult.scores.resolution < 80) {
+    recommendations.push({
+      category: 'visual',
+      action: `Export at ${recommended.width}x${recommended.height} (${recommended.aspectLabel})`,
+      steps: [
+        `Your image is ${width}x${height} - YouTube recommends at least ${recommended.width}x${recommended.height}`,
+        `Use a ${recommended.aspectLabel} canvas so YouTube does not letterbox or crop it`,
+        'Export from the original source rather than upscaling'
+      ],
+      impact: {
+        metric: 'Visual clarity',
+        value: 100 - analysisResult.scores.resolution,
+        unit: 'points'
+      },
+      priority: 2,
+      icon: COMPONENT_ICONS.visual
+    });
+  }
+
   // Composition recommendations
   if (analysisResult.scores.composition < 70) {
     recommendations.push({
       category: 'composition',
       action: 'Improve visual hierarchy and composition',
-      steps: [
-        'Place text in top third of thumbnail',
-        'Position faces in center-right area',
-        'Use rule of thirds for main elements'
-      ],
+      steps: isShorts
+        ? [
+          'Keep the subject in the center of the frame',
+          'Leave the bottom fifth and the right edge for YouTube\'s buttons',
+          'Use one focal point - the cover is seen while scrolling'
+        ]
+        : [
+          'Place text in top third of thumbnail',
+          'Position faces in center-right area',
+          'Use rule of thirds for main elements'
+        ],
       impact: {
         metric: 'Click-through rate',
         value: 65,
@@ -0,0 +1,100 @@
+/**
+ * An analyzed thumbnail joined to its real Studio metrics
+ */
+export interface CalibrationPoint {
+  analysisId: number;
+  videoId: string;
+  title?: string;
+  // Overall thumbnail score, 0-100
+  score: number;
+  // Impressions click-through rate, as a percentage
+  ctr: number;
+  impressions?: number;
+}
+
+export interface CalibrationBin {
+  minScore: number;
+  maxScore: number;
+  count: number;
+  avgScore: number;
+  avgCtr: number;
+}
+
+export interface ChannelCalibration {
+  channel: string;
+  points: CalibrationPoint[];
+  // Pearson correlation between score and CTR, null with fewer than 3 points or no variation
+  correlation: number | null;
+  // Least-squares line, CTR = intercept + slope * score
+  slope: number | null;
+  intercept: number | null;
+  // Average CTR per score band
+  curve: CalibrationBin[];
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Pearson correlation coefficient
+ */
+export function pearsonCorrelation(xs: number[], ys: number[]): number | null {
+  if (xs.length < 3 || xs.length !== ys.length) return null;
+
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    varianceX += Math.pow(x - meanX, 2);
+    varianceY += Math.pow(ys[i] - meanY, 2);
+  });
+
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/**
+ * Calibrate scores against a channel's real CTR
+ * The curve groups scores into bands so a channel can read off the CTR a score usually gets
+ */
+export function calibrateChannel(
+  channel: string,
+  points: CalibrationPoint[],
+  bandSize: number = 10
+): ChannelCalibration {
+  const scores = points.map(point => point.score);
+  const ctrs = points.map(point => point.ctr);
+  const correlation = pearsonCorrelation(scores, ctrs);
+
+  let slope: number | null = null;
+  let intercept: number | null = null;
+  if (correlation !== null) {
+    const meanScore = mean(scores);
+    const meanCtr = mean(ctrs);
+    const varianceScore = scores.reduce((sum, score) => sum + Math.pow(score - meanScore, 2), 0);
+    slope = scores.reduce((sum, score, i) => sum + (score - meanScore) * (ctrs[i] - meanCtr), 0) / varianceScore;
+    intercept = meanCtr - slope * meanScore;
+  }
+
+  // Only bands that have thumbnails in them
+  const bands: Record<number, CalibrationPoint[]> = {};
+  points.forEach(point => {
+    const band = Math.min(Math.floor(point.score / bandSize), Math.floor(100 / bandSize) - 1);
+    (bands[band] ||= []).push(point);
+  });
+  const curve = Object.entries(bands)
+    .map(([band, bandPoints]) => ({
+      minScore: Number(band) * bandSize,
+      maxScore: Number(band) * bandSize + bandSize,
+      count: bandPoints.length,
+      avgScore: mean(bandPoints.map(point => point.score)),
+      avgCtr: mean(bandPoints.map(point => point.ctr)),
+    }))
+    .sort((a, b) => a.minScore - b.minScore);
+
+  return { channel, points, correlation, slope, intercept, curve };
+}
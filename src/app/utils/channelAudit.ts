@@ -0,0 +1,320 @@
+import { AnalysisResult } from '../types';
+import { pearsonCorrelation } from './calibration';
+import { hexToRgb } from './colorAnalysis';
+import { ChannelVideo } from './youtube';
+
+export interface DistributionSummary {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  stdDev: number;
+}
+
+/**
+ * One upload with the thumbnail traits the audit compares
+ */
+export interface AuditedVideo {
+  videoId: string;
+  title: string;
+  thumbnailUrl: string;
+  publishedAt: string;
+  viewCount: number;
+  viewsPerDay: number;
+  // log2 of views per day over the channel median; null for videos too new to judge
+  performance: number | null;
+  scores: Pick<AnalysisResult['scores'], 'overall' | 'text' | 'visual' | 'faces' | 'composition'>;
+  faceCount: number;
+  wordCount: number;
+  colorfulness?: number;
+  palette: string[];
+}
+
+export interface AuditOutlier {
+  videoId: string;
+  title: string;
+  kind: 'high-score' | 'low-score' | 'overperformer' | 'underperformer';
+  reason: string;
+}
+
+export interface TraitCorrelation {
+  trait: AuditTrait;
+  label: string;
+  // Pearson correlation with performance, null with too few videos or no variation
+  correlation: number | null;
+  // Average trait value in the best and worst performing thirds
+  topThirdAverage: number;
+  bottomThirdAverage: number;
+}
+
+export interface ChannelAudit {
+  channelId: string;
+  channelTitle: string;
+  asOf: string;
+  videoCount: number;
+  scoreDistribution: DistributionSummary & { bins: Array<{ minScore: number; maxScore: number; count: number }> };
+  palette: {
+    // 0-100, how close thumbnails' palettes are to each other; null with fewer than 2 palettes
+    consistency: number | null;
+    // Colors that show up in at least half the thumbnails
+    signatureColors: string[];
+  };
+  faces: {
+    shareWithFaces: number;
+    averageCount: number;
+    // 0-100, 100 when the channel always or never shows faces
+    consistency: number;
+  };
+  text: {
+    shareWithText: number;
+    wordCount: DistributionSummary;
+  };
+  outliers: AuditOutlier[];
+  // Strongest relationship first
+  correlations: TraitCorrelation[];
+  videos: AuditedVideo[];
+}
+
+type AuditTrait = 'overall' | 'text' | 'visual' | 'faces' | 'composition' | 'faceCount' | 'wordCount' | 'colorfulness';
+
+const TRAIT_LABELS: Record<AuditTrait, string> = {
+  overall: 'Overall score',
+  text: 'Text score',
+  visual: 'Visual impact score',
+  faces: 'Human element score',
+  composition: 'Composition score',
+  faceCount: 'Number of faces',
+  wordCount: 'Words of text',
+  colorfulness: 'Colorfulness',
+};
+
+// Videos younger than this haven't settled into their view rate yet
+const MIN_AGE_DAYS = 2;
+
+// Scores or performance this many standard deviations from the mean are outliers
+const OUTLIER_Z = 1.5;
+
+// Colors closer than this in RGB are treated as the same color
+const SAME_COLOR_DISTANCE = 40;
+
+// Palette distance at which consistency bottoms out, roughly two unrelated hues
+const MAX_PALETTE_DISTANCE = 150;
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function summarize(values: number[]): DistributionSummary {
+  if (values.length === 0) return { min: 0, max: 0, mean: 0, median: 0, stdDev: 0 };
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const average = mean(values);
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: Math.round(average * 10) / 10,
+    median: sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle],
+    stdDev: Math.round(Math.sqrt(mean(values.map(value => Math.pow(value - average, 2)))) * 10) / 10,
+  };
+}
+
+type Rgb = NonNullable<ReturnType<typeof hexToRgb>>;
+
+function colorDistance(a: Rgb, b: Rgb): number {
+  return Math.sqrt(Math.pow(a.r - b.r, 2) + Math.pow(a.g - b.g, 2) + Math.pow(a.b - b.b, 2));
+}
+
+// Average distance from each color in one palette to its closest color in the other, both ways
+function paletteDistance(a: string[], b: string[]): number {
+  const rgbA = a.map(hexToRgb).filter((rgb): rgb is Rgb => !!rgb);
+  const rgbB = b.map(hexToRgb).filter((rgb): rgb is Rgb => !!rgb);
+  const closest = (from: typeof rgbA, to: typeof rgbB) =>
+    mean(from.map(color => Math.min(...to.map(other => colorDistance(color, other)))));
+  return (closest(rgbA, rgbB) + closest(rgbB, rgbA)) / 2;
+}
+
+function auditPalettes(palettes: string[][]): ChannelAudit['palette'] {
+  const usable = palettes.filter(palette => palette.some(hex => hexToRgb(hex)));
+
+  let consistency: number | null = null;
+  if (usable.length >= 2) {
+    const distances: number[] = [];
+    for (let i = 0; i < usable.length; i++) {
+      for (let j = i + 1; j < usable.length; j++) {
+        distances.push(paletteDistance(usable[i], usable[j]));
+      }
+    }
+    consistency = Math.round(100 * (1 - Math.min(1, mean(distances) / MAX_PALETTE_DISTANCE)));
+  }
+
+  // Count each distinct color once per thumbnail it appears in
+  const candidates: Array<{ hex: string; rgb: Rgb; count: number }> = [];
+  usable.forEach(palette => {
+    const seen = new Set<number>();
+    palette.forEach(hex => {
+      const rgb = hexToRgb(hex);
+      if (!rgb) return;
+      const index = candidates.findIndex(candidate => colorDistance(candidate.rgb, rgb) < SAME_COLOR_DISTANCE);
+      if (index === -1) {
+        candidates.push({ hex, rgb, count: 1 });
+        seen.add(candidates.length - 1);
+      } else if (!seen.has(index)) {
+        candidates[index].count++;
+        seen.add(index);
+      }
+    });
+  });
+
+  return {
+    consistency,
+    signatureColors: candidates
+      .filter(candidate => usable.length >= 2 && candidate.count >= usable.length / 2)
+      .sort((a, b) => b.count - a.count)
+      .map(candidate => candidate.hex),
+  };
+}
+
+function findOutliers(videos: AuditedVideo[]): AuditOutlier[] {
+  const outliers: AuditOutlier[] = [];
+
+  const scores = summarize(videos.map(video => video.scores.overall));
+  if (scores.stdDev > 0) {
+    videos.forEach(video => {
+      const z = (video.scores.overall - scores.mean) / scores.stdDev;
+      if (Math.abs(z) >= OUTLIER_Z) {
+        outliers.push({
+          videoId: video.videoId,
+          title: video.title,
+          kind: z > 0 ? 'high-score' : 'low-score',
+          reason: `Scores ${video.scores.overall} against a channel average of ${scores.mean}`,
+        });
+      }
+    });
+  }
+
+  const judged = videos.filter(video => video.performance !== null);
+  const performance = summarize(judged.map(video => video.performance as number));
+  if (performance.stdDev > 0) {
+    judged.forEach(video => {
+      const z = ((video.performance as number) - performance.mean) / performance.stdDev;
+      if (Math.abs(z) >= OUTLIER_Z) {
+        const ratio = Math.pow(2, video.performance as number);
+        outliers.push({
+          videoId: video.videoId,
+          title: video.title,
+          kind: z > 0 ? 'overperformer' : 'underperformer',
+          reason: `${ratio >= 1 ? `${ratio.toFixed(1)}x` : `${Math.round(ratio * 100)}% of`} the channel's typical views per day`,
+        });
+      }
+    });
+  }
+
+  return outliers;
+}
+
+function correlateTraits(videos: AuditedVideo[]): TraitCorrelation[] {
+  const judged = videos
+    .filter(video => video.performance !== null)
+    .sort((a, b) => (b.performance as number) - (a.performance as number));
+  const third = Math.max(1, Math.floor(judged.length / 3));
+
+  const traitValue = (video: AuditedVideo, trait: AuditTrait): number | undefined => {
+    switch (trait) {
+      case 'faceCount': return video.faceCount;
+      case 'wordCount': return video.wordCount;
+      case 'colorfulness': return video.colorfulness;
+      default: return video.scores[trait];
+    }
+  };
+
+  return (Object.keys(TRAIT_LABELS) as AuditTrait[])
+    .map(trait => {
+      const withTrait = judged.filter(video => traitValue(video, trait) !== undefined);
+      const values = withTrait.map(video => traitValue(video, trait) as number);
+      const average = (group: AuditedVideo[]) =>
+        Math.round(mean(group.filter(video => traitValue(video, trait) !== undefined).map(video => traitValue(video, trait) as number)) * 10) / 10;
+      const correlation = pearsonCorrelation(values, withTrait.map(video => video.performance as number));
+      return {
+        trait,
+        label: TRAIT_LABELS[trait],
+        correlation: correlation === null ? null : Math.round(correlation * 100) / 100,
+        topThirdAverage: average(judged.slice(0, third)),
+        bottomThirdAverage: average(judged.slice(-third)),
+      };
+    })
+    .sort((a, b) => Math.abs(b.correlation ?? 0) - Math.abs(a.correlation ?? 0));
+}
+
+/**
+ * Audit a channel's thumbnails against each other and against how the videos performed
+ * Performance is views per day relative to the channel median, so older videos aren't favored
+ */
+export function auditChannel(
+  channel: { channelId: string; channelTitle: string },
+  analyzed: Array<{ video: ChannelVideo; result: AnalysisResult }>,
+  asOf: Date = new Date()
+): ChannelAudit {
+  const withRates = analyzed.map(({ video, result }) => {
+    const ageDays = (asOf.getTime() - new Date(video.publishedAt).getTime()) / 86400000;
+    return { video, result, ageDays, viewsPerDay: video.viewCount / Math.max(1, ageDays) };
+  });
+  const settled = withRates.filter(entry => entry.ageDays >= MIN_AGE_DAYS && entry.viewsPerDay > 0);
+  const medianRate = summarize(settled.map(entry => entry.viewsPerDay)).median;
+
+  const videos: AuditedVideo[] = withRates.map(({ video, result, ageDays, viewsPerDay }) => {
+    const { analysis, scores } = result;
+    return {
+      videoId: video.id,
+      title: video.title,
+      thumbnailUrl: video.thumbnailUrl,
+      publishedAt: video.publishedAt,
+      viewCount: video.viewCount,
+      viewsPerDay: Math.round(viewsPerDay),
+      performance: ageDays >= MIN_AGE_DAYS && viewsPerDay > 0 && medianRate > 0
+        ? Math.round(Math.log2(viewsPerDay / medianRate) * 100) / 100
+        : null,
+      scores: {
+        overall: scores.overall,
+        text: scores.text,
+        visual: scores.visual,
+        faces: scores.faces,
+        composition: scores.composition,
+      },
+      faceCount: analysis.faces.count,
+      wordCount: analysis.text.detected.join(' ').split(/\s+/).filter(Boolean).length,
+      colorfulness: analysis.colors.colorfulness,
+      palette: analysis.colors.palette?.map(color => color.hex) || analysis.colors.dominant,
+    };
+  });
+
+  const overallScores = videos.map(video => video.scores.overall);
+  const bins = Array.from({ length: 10 }, (_, band) => ({
+    minScore: band * 10,
+    maxScore: band * 10 + 10,
+    count: overallScores.filter(score => Math.min(Math.floor(score / 10), 9) === band).length,
+  }));
+
+  const shareWithFaces = videos.length ? videos.filter(video => video.faceCount > 0).length / videos.length : 0;
+
+  return {
+    channelId: channel.channelId,
+    channelTitle: channel.channelTitle,
+    asOf: asOf.toISOString(),
+    videoCount: videos.length,
+    scoreDistribution: { ...summarize(overallScores), bins },
+    palette: auditPalettes(videos.map(video => video.palette)),
+    faces: {
+      shareWithFaces: Math.round(shareWithFaces * 100) / 100,
+      averageCount: Math.round(mean(videos.map(video => video.faceCount)) * 10) / 10,
+      consistency: Math.round(Math.abs(shareWithFaces - 0.5) * 200),
+    },
+    text: {
+      shareWithText: videos.length ? Math.round((videos.filter(video => video.wordCount > 0).length / videos.length) * 100) / 100 : 0,
+      wordCount: summarize(videos.map(video => video.wordCount)),
+    },
+    outliers: findOutliers(videos),
+    correlations: correlateTraits(videos),
+    videos,
+  };
+}
@@ -0,0 +1,263 @@
+import { decodeImagePixels, ImageSource } from './pixels';
+
+// Pixel analysis runs on a downscaled copy - palette and averages barely change
+const SAMPLE_DIMENSION = 200;
+const PALETTE_SIZE = 5;
+const KMEANS_ITERATIONS = 12;
+
+export interface PaletteColor {
+  hex: string;
+  // Share of the image covered by this color, 0-100
+  coverage: number;
+}
+
+export interface PaletteContrast {
+  colors: [string, string];
+  ratio: number;
+}
+
+/**
+ * Color statistics measured from the decoded pixels
+ */
+export interface ColorAnalysis {
+  // Mean luma of the gamma-encoded sRGB values, 0 (black) to 1 (white), so mid-gray is 0.5
+  brightness: number;
+  // Mean HSV saturation, 0-1
+  saturation: number;
+  // Share of pixels with low (<0.25), medium and high (>0.6) saturation
+  saturationDistribution: {
+    low: number;
+    medium: number;
+    high: number;
+  };
+  palette: PaletteColor[];
+  // Hasler & Süsstrunk colorfulness metric (0 = greyscale, >59 = highly colorful)
+  colorfulness: number;
+  // WCAG contrast ratio for every pair of palette colors, highest first
+  paletteContrast: PaletteContrast[];
+}
+
+type RGB = [number, number, number];
+
+export function rgbToHex(r: number, g: number, b: number): string {
+  return '#' + [r, g, b].map(x => {
+    const hex = Math.round(x).toString(16);
+    return hex.length === 1 ? '0' + hex : hex;
+  }).join('');
+}
+
+export function hexToRgb(hex: string): { r: number, g: number, b: number } | null {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  return result ? {
+    r: parseInt(result[1], 16),
+    g: parseInt(result[2], 16),
+    b: parseInt(result[3], 16)
+  } : null;
+}
+
+/**
+ * Bucket a hex color into the named ranges used by findings.json
+ * Mirrors categorizeColor in scripts/analyzeVideos.js
+ */
+export function categorizeColorRange(hex: string): string {
+  const rgb = hexToRgb(hex);
+  if (!rgb) return 'other';
+  const { r, g, b } = rgb;
+
+  if (r > 200 && g > 200 && b > 200) return 'white';
+  if (r < 50 && g < 50 && b < 50) return 'black';
+  if (r > 200 && g < 100 && b < 100) return 'red';
+  if (r < 100 && g > 200 && b < 100) return 'green';
+  if (r < 100 && g < 100 && b > 200) return 'blue';
+  if (r > 200 && g > 200 && b < 100) return 'yellow';
+
+  return 'other';
+}
+
+/**
+ * WCAG relative luminance of an sRGB color
+ */
+export function calculateLuminance(r: number, g: number, b: number): number {
+  const a = [r, g, b].map(v => {
+    v /= 255;
+    return v <= 0.03928 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+  });
+  return a[0] * 0.2126 + a[1] * 0.7152 + a[2] * 0.0722;
+}
+
+/**
+ * Rec. 709 luma of an sRGB color, 0-1
+ * Unlike relative luminance this stays in gamma space, so it tracks how bright a color looks
+ */
+export function calculateLuma(r: number, g: number, b: number): number {
+  return (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+}
+
+/**
+ * WCAG contrast ratio between two hex colors (1 to 21)
+ */
+export function calculateContrastRatio(color1: string, color2: string): number {
+  const rgb1 = hexToRgb(color1);
+  const rgb2 = hexToRgb(color2);
+
+  if (!rgb1 || !rgb2) return 1;
+
+  // Calculate luminance
+  const luminance1 = calculateLuminance(rgb1.r, rgb1.g, rgb1.b);
+  const luminance2 = calculateLuminance(rgb2.r, rgb2.g, rgb2.b);
+
+  // Calculate contrast ratio
+  const lighter = Math.max(luminance1, luminance2);
+  const darker = Math.min(luminance1, luminance2);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Decode a thumbnail and measure brightness, saturation, palette and contrast
+ */
+export async function analyzeColors(image: ImageSource): Promise<ColorAnalysis> {
+  const { data } = await decodeImagePixels(image, SAMPLE_DIMENSION);
+
+  const pixels: RGB[] = [];
+  let lumaSum = 0;
+  let saturationSum = 0;
+  const saturationDistribution = { low: 0, medium: 0, high: 0 };
+
+  // Running sums for the colorfulness metric
+  let rgSum = 0, rgSquareSum = 0, ybSum = 0, ybSquareSum = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    // Skip transparent pixels, they don't contribute to what viewers see
+    if (data[i + 3] < 128) continue;
+
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    pixels.push([r, g, b]);
+
+    lumaSum += calculateLuma(r, g, b);
+
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const saturation = max === 0 ? 0 : (max - min) / max;
+    saturationSum += saturation;
+    if (saturation < 0.25) saturationDistribution.low++;
+    else if (saturation > 0.6) saturationDistribution.high++;
+    else saturationDistribution.medium++;
+
+    const rg = r - g;
+    const yb = 0.5 * (r + g) - b;
+    rgSum += rg;
+    rgSquareSum += rg * rg;
+    ybSum += yb;
+    ybSquareSum += yb * yb;
+  }
+
+  const count = pixels.length;
+  if (count === 0) {
+    throw new Error('Image has no visible pixels');
+  }
+
+  const rgMean = rgSum / count;
+  const ybMean = ybSum / count;
+  const rgStd = Math.sqrt(Math.max(0, rgSquareSum / count - rgMean * rgMean));
+  const ybStd = Math.sqrt(Math.max(0, ybSquareSum / count - ybMean * ybMean));
+  const colorfulness = Math.sqrt(rgStd ** 2 + ybStd ** 2) + 0.3 * Math.sqrt(rgMean ** 2 + ybMean ** 2);
+
+  const palette = extractPalette(pixels, PALETTE_SIZE);
+
+  return {
+    brightness: lumaSum / count,
+    saturation: saturationSum / count,
+    saturationDistribution: {
+      low: saturationDistribution.low / count,
+      medium: saturationDistribution.medium / count,
+      high: saturationDistribution.high / count,
+    },
+    palette,
+    colorfulness,
+    paletteContrast: calculatePaletteContrast(palette),
+  };
+}
+
+/**
+ * Cluster pixels into a palette with k-means
+ * Centroids are seeded deterministically (farthest-first from the mean color)
+ * so the same image always yields the same palette
+ */
+function extractPalette(pixels: RGB[], size: number): PaletteColor[] {
+  const distance = (a: RGB, b: RGB) =>
+    (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+  const mean: RGB = [0, 0, 0];
+  pixels.forEach(p => { mean[0] += p[0]; mean[1] += p[1]; mean[2] += p[2]; });
+  mean[0] /= pixels.length; mean[1] /= pixels.length; mean[2] /= pixels.length;
+
+  // Farthest-first seeding
+  const centroids: RGB[] = [];
+  for (let k = 0; k < size; k++) {
+    const references = centroids.length > 0 ? centroids : [mean];
+    let farthest = pixels[0];
+    let farthestDistance = -1;
+    for (const pixel of pixels) {
+      const nearest = Math.min(...references.map(c => distance(pixel, c)));
+      if (nearest > farthestDistance) {
+        farthestDistance = nearest;
+        farthest = pixel;
+      }
+    }
+    // Fewer distinct colors than clusters
+    if (farthestDistance <= 0) break;
+    centroids.push([...farthest]);
+  }
+  if (centroids.length === 0) centroids.push(mean);
+
+  const assignments = new Array<number>(pixels.length).fill(0);
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    // Assign each pixel to its nearest centroid
+    pixels.forEach((pixel, i) => {
+      let best = 0;
+      let bestDistance = Infinity;
+      centroids.forEach((centroid, c) => {
+        const d = distance(pixel, centroid);
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = c;
+        }
+      });
+      assignments[i] = best;
+    });
+
+    // Move centroids to the mean of their pixels
+    const sums = centroids.map(() => [0, 0, 0, 0]);
+    pixels.forEach((pixel, i) => {
+      const sum = sums[assignments[i]];
+      sum[0] += pixel[0]; sum[1] += pixel[1]; sum[2] += pixel[2]; sum[3]++;
+    });
+    sums.forEach((sum, c) => {
+      if (sum[3] > 0) centroids[c] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+    });
+  }
+
+  const counts = centroids.map(() => 0);
+  assignments.forEach(c => counts[c]++);
+
+  return centroids
+    .map((centroid, c) => ({
+      hex: rgbToHex(centroid[0], centroid[1], centroid[2]),
+      coverage: Math.round((counts[c] / pixels.length) * 1000) / 10,
+    }))
+    .filter(color => color.coverage > 0)
+    .sort((a, b) => b.coverage - a.coverage);
+}
+
+function calculatePaletteContrast(palette: PaletteColor[]): PaletteContrast[] {
+  const pairs: PaletteContrast[] = [];
+  for (let i = 0; i < palette.length; i++) {
+    for (let j = i + 1; j < palette.length; j++) {
+      pairs.push({
+        colors: [palette[i].hex, palette[j].hex],
+        ratio: Math.round(calculateContrastRatio(palette[i].hex, palette[j].hex) * 100) / 100,
+      });
+    }
+  }
+  return pairs.sort((a, b) => b.ratio - a.ratio);
+}
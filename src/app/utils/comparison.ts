@@ -0,0 +1,138 @@
+import {
+  AnalysisResult,
+  ComparisonCandidate,
+  ComparisonDimension,
+  ScoreFactor,
+  ThumbnailComparison,
+} from '../types';
+
+export const COMPARISON_DIMENSIONS: ComparisonDimension[] = ['overall', 'text', 'visual', 'faces', 'composition'];
+
+// How each dimension reads in an explanation
+const DIMENSION_LABELS: Record<ComparisonDimension, string> = {
+  overall: 'overall score',
+  text: 'text',
+  visual: 'visual impact',
+  faces: 'human element',
+  composition: 'composition',
+};
+
+// Smaller gaps are within the noise of the analysis
+const MEANINGFUL_DIFFERENCE = 5;
+
+export const MIN_COMPARISON_CANDIDATES = 2;
+export const MAX_COMPARISON_CANDIDATES = 4;
+
+// Label candidates A, B, C... in submission order
+export function candidateLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+// The breakdown factor that separates two thumbnails most within a dimension
+function biggestFactorGap(
+  winnerFactors: ScoreFactor[] = [],
+  otherFactors: ScoreFactor[] = []
+): { factor: ScoreFactor; other: ScoreFactor } | null {
+  let best: { factor: ScoreFactor; other: ScoreFactor; gap: number } | null = null;
+
+  for (const factor of winnerFactors) {
+    const other = otherFactors.find(candidate => candidate.name === factor.name);
+    if (!other) continue;
+    const gap = factor.score - other.score;
+    if (gap >= MEANINGFUL_DIFFERENCE && (!best || gap > best.gap)) {
+      best = { factor, other, gap };
+    }
+  }
+
+  return best && { factor: best.factor, other: best.other };
+}
+
+// Explain why the winner beat the runner-up
+function explainWin(
+  winner: ComparisonCandidate & { result: AnalysisResult },
+  runnerUp: ComparisonCandidate & { result: AnalysisResult }
+): string[] {
+  const reasons: string[] = [];
+  const dimensions = COMPARISON_DIMENSIONS.filter(dimension => dimension !== 'overall');
+
+  const leads = dimensions
+    .map(dimension => ({ dimension, gap: winner.scores[dimension] - runnerUp.scores[dimension] }))
+    .sort((a, b) => b.gap - a.gap);
+
+  for (const { dimension } of leads.filter(lead => lead.gap >= MEANINGFUL_DIFFERENCE)) {
+    let reason = `Stronger ${DIMENSION_LABELS[dimension]} (${winner.scores[dimension]} vs ${runnerUp.scores[dimension]} for ${runnerUp.label})`;
+
+    const factorGap = biggestFactorGap(
+      winner.result.scores.breakdown?.[dimension],
+      runnerUp.result.scores.breakdown?.[dimension]
+    );
+    if (factorGap) {
+      reason += `, mostly from ${factorGap.factor.name.toLowerCase()} (${factorGap.factor.score} vs ${factorGap.other.score})`;
+    }
+    reasons.push(reason);
+  }
+
+  // Be upfront about where the winner is weaker
+  for (const { dimension } of leads.filter(lead => lead.gap <= -MEANINGFUL_DIFFERENCE)) {
+    reasons.push(`Despite weaker ${DIMENSION_LABELS[dimension]} (${winner.scores[dimension]} vs ${runnerUp.scores[dimension]} for ${runnerUp.label})`);
+  }
+
+  return reasons;
+}
+
+/**
+ * Rank analyzed thumbnails against each other
+ * Ties on the overall score go to the higher total across dimensions, then submission order
+ */
+export function compareThumbnails(
+  inputs: Array<{ label: string; analysisId: number | null; result: AnalysisResult }>
+): ThumbnailComparison {
+  if (inputs.length < MIN_COMPARISON_CANDIDATES) {
+    throw new Error(`A comparison needs at least ${MIN_COMPARISON_CANDIDATES} thumbnails`);
+  }
+
+  const total = (result: AnalysisResult) =>
+    COMPARISON_DIMENSIONS.reduce((sum, dimension) => sum + result.scores[dimension], 0);
+  const ranked = inputs
+    .map((input, index) => ({ ...input, index }))
+    .sort((a, b) =>
+      b.result.scores.overall - a.result.scores.overall ||
+      total(b.result) - total(a.result) ||
+      a.index - b.index
+    );
+
+  const winnerScores = ranked[0].result.scores;
+  const candidates = ranked.map((input, index) => ({
+    label: input.label,
+    analysisId: input.analysisId,
+    rank: index + 1,
+    scores: Object.fromEntries(
+      COMPARISON_DIMENSIONS.map(dimension => [dimension, input.result.scores[dimension]])
+    ) as ComparisonCandidate['scores'],
+    deltas: Object.fromEntries(
+      COMPARISON_DIMENSIONS.map(dimension => [dimension, input.result.scores[dimension] - winnerScores[dimension]])
+    ) as ComparisonCandidate['deltas'],
+    result: input.result,
+  }));
+
+  const [winner, runnerUp] = candidates;
+  const margin = winner.scores.overall - runnerUp.scores.overall;
+  const reasons = explainWin(winner, runnerUp);
+
+  let summary: string;
+  if (margin < MEANINGFUL_DIFFERENCE && reasons.length === 0) {
+    summary = `${winner.label} and ${runnerUp.label} are too close to call (${winner.scores.overall} vs ${runnerUp.scores.overall}) - consider testing both`;
+  } else {
+    const strongest = reasons.find(reason => reason.startsWith('Stronger'));
+    summary = strongest
+      ? `${winner.label} wins because of ${strongest.charAt(0).toLowerCase() + strongest.slice(1)}`
+      : `${winner.label} wins because it scores higher overall (${winner.scores.overall} vs ${runnerUp.scores.overall})`;
+  }
+
+  return {
+    candidates,
+    winner: winner.label,
+    summary,
+    reasons,
+  };
+}
@@ -0,0 +1,144 @@
+import { BoundingBox, LayoutType } from '../types';
+import { calculateLuminance } from './colorAnalysis';
+import { decodeImagePixels, DecodedImage, ImageSource } from './pixels';
+
+// Edge detection only needs a coarse image
+const SAMPLE_DIMENSION = 160;
+// Luminance gradient (0-1 scale) above which a pixel counts as an edge
+const EDGE_THRESHOLD = 0.1;
+// Edge density at which a thumbnail is considered fully cluttered
+const MAX_EDGE_DENSITY = 0.25;
+// Object count at which a thumbnail is considered fully cluttered
+const MAX_OBJECT_COUNT = 10;
+// How close (as a share of the frame) a subject must be to a grid point
+const GRID_TOLERANCE = 0.08;
+
+export interface CompositionAnalysis {
+  layoutType: LayoutType;
+  // 0 (clean) to 1 (very busy)
+  clutterFactor: number;
+  // Normalized (0-1) center of the main subject, if there is one
+  focalPoint?: { x: number; y: number };
+  edgeDensity?: number;
+}
+
+interface SalientElement {
+  box: BoundingBox;
+  // Faces draw the eye more than text, which draws it more than other objects
+  weight: number;
+}
+
+const FACE_WEIGHT = 2;
+const TEXT_WEIGHT = 1.5;
+const OBJECT_WEIGHT = 1;
+
+const THIRDS_POINTS = [1 / 3, 2 / 3].flatMap(x => [1 / 3, 2 / 3].map(y => ({ x, y })));
+const GOLDEN_POINTS = [0.382, 0.618].flatMap(x => [0.382, 0.618].map(y => ({ x, y })));
+
+/**
+ * Weighted center of the most salient element
+ * The element with the largest weighted area is the subject the eye lands on
+ */
+function findFocalPoint(
+  elements: SalientElement[],
+  imageWidth: number,
+  imageHeight: number
+): { x: number; y: number } | undefined {
+  if (elements.length === 0) return undefined;
+
+  const primary = elements.reduce((best, element) =>
+    element.box.width * element.box.height * element.weight >
+    best.box.width * best.box.height * best.weight ? element : best
+  );
+
+  return {
+    x: (primary.box.x + primary.box.width / 2) / imageWidth,
+    y: (primary.box.y + primary.box.height / 2) / imageHeight,
+  };
+}
+
+/**
+ * Classify a focal point against centered, rule-of-thirds and golden-ratio grids
+ */
+export function classifyLayout(focalPoint?: { x: number; y: number }): LayoutType {
+  if (!focalPoint) return 'other';
+
+  const distanceTo = (points: Array<{ x: number; y: number }>) =>
+    Math.min(...points.map(p => Math.hypot(p.x - focalPoint.x, p.y - focalPoint.y)));
+
+  const candidates: Array<{ type: LayoutType; distance: number }> = [
+    { type: 'centered', distance: distanceTo([{ x: 0.5, y: 0.5 }]) },
+    { type: 'rule-of-thirds', distance: distanceTo(THIRDS_POINTS) },
+    { type: 'golden-ratio', distance: distanceTo(GOLDEN_POINTS) },
+  ];
+
+  const nearest = candidates.reduce((best, c) => c.distance < best.distance ? c : best);
+  return nearest.distance <= GRID_TOLERANCE ? nearest.type : 'other';
+}
+
+/**
+ * Share of pixels that sit on a strong luminance edge
+ */
+function calculateEdgeDensity(image: DecodedImage): number {
+  const { width, height, data } = image;
+  if (width < 3 || height < 3) return 0;
+
+  const luminance = new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    luminance[i] = calculateLuminance(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+  }
+
+  let edges = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx = luminance[i + 1] - luminance[i - 1];
+      const gy = luminance[i + width] - luminance[i - width];
+      if (Math.hypot(gx, gy) > EDGE_THRESHOLD) edges++;
+    }
+  }
+
+  return edges / ((width - 2) * (height - 2));
+}
+
+/**
+ * Classify the layout and measure clutter from faces, text and objects
+ * All boxes are in source image pixels
+ */
+export async function analyzeComposition(
+  image: ImageSource,
+  boxes: { faces: BoundingBox[]; text: BoundingBox[]; objects: BoundingBox[] },
+  imageWidth: number,
+  imageHeight: number
+): Promise<CompositionAnalysis> {
+  const elements: SalientElement[] = [
+    ...boxes.faces.map(box => ({ box, weight: FACE_WEIGHT })),
+    ...boxes.text.map(box => ({ box, weight: TEXT_WEIGHT })),
+    ...boxes.objects.map(box => ({ box, weight: OBJECT_WEIGHT })),
+  ].filter(element => element.box.width > 0 && element.box.height > 0);
+
+  const focalPoint = imageWidth && imageHeight
+    ? findFocalPoint(elements, imageWidth, imageHeight)
+    : undefined;
+
+  const objectClutter = Math.min(1, boxes.objects.length / MAX_OBJECT_COUNT);
+
+  // Edge density needs node-canvas - fall back to object count alone without it
+  let edgeDensity: number | undefined;
+  try {
+    edgeDensity = calculateEdgeDensity(await decodeImagePixels(image, SAMPLE_DIMENSION));
+  } catch (error) {
+    console.error('Could not decode image for edge density, skipping:', error);
+  }
+
+  const clutterFactor = edgeDensity !== undefined
+    ? objectClutter * 0.4 + Math.min(1, edgeDensity / MAX_EDGE_DENSITY) * 0.6
+    : objectClutter;
+
+  return {
+    layoutType: classifyLayout(focalPoint),
+    clutterFactor: Math.round(clutterFactor * 100) / 100,
+    focalPoint,
+    edgeDensity,
+  };
+}
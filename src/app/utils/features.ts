@@ -0,0 +1,76 @@
+import { FaceProminence, TextReadability, ThumbnailFeatures, VisionAnalysis } from '../types';
+
+/**
+ * Classify how much text a thumbnail carries
+ * Vision uses this for the displayed label and scoring reads the same value,
+ * so the two can't drift apart
+ */
+export function classifyTextReadability(detectedText: string[]): TextReadability {
+  if (detectedText.length === 0) return 'No text detected';
+
+  const totalTextLength = detectedText.join(' ').length;
+  if (totalTextLength > 50) return 'Too much text';
+  if (totalTextLength > 20) return 'Good amount of text';
+  return 'Too little text';
+}
+
+/**
+ * Bucket the largest face's share of the image
+ */
+export function classifyFaceProminence(faceCount: number, coveragePercent: number): FaceProminence {
+  if (faceCount === 0) return 'None';
+  if (coveragePercent > 30) return 'High';
+  if (coveragePercent > 15) return 'Medium';
+  return 'Low';
+}
+
+/**
+ * Build the scoring feature vector from a vision analysis
+ * Works on stored results too, so older analyses can be re-scored
+ */
+export function extractFeatures(analysis: VisionAnalysis): ThumbnailFeatures {
+  const { text, colors, faces } = analysis.analysis;
+
+  // Older results only kept the coverage inside the prominence label
+  const coverage = faces.coverage
+    ?? parseFloat(faces.prominence.match(/(\d+(?:\.\d+)?)%/)?.[1] || '0');
+
+  return {
+    text: {
+      count: text.detected.length,
+      characterCount: text.detected.join(' ').length,
+      readability: classifyTextReadability(text.detected),
+      fontSizes: text.fontSizes,
+      fontContrast: text.fontContrast,
+      faceOverlap: text.faceOverlap,
+    },
+    colors: {
+      dominant: colors.dominant,
+      contrast: colors.contrast,
+      brightness: colors.brightnessFactor,
+      saturation: colors.saturationLevel,
+      colorfulness: colors.colorfulness,
+      paletteContrast: colors.paletteContrast,
+    },
+    faces: {
+      count: faces.count,
+      expressions: faces.expressions,
+      prominence: classifyFaceProminence(faces.count, coverage),
+      coverage,
+      eyeContact: faces.eyeContact,
+      position: faces.position,
+    },
+    composition: {
+      layoutType: analysis.analysis.layoutType,
+      clutterFactor: analysis.analysis.clutterFactor,
+    },
+    objects: (analysis.analysis.objects || []).map(object => object.name),
+    category: analysis.thumbnail.category,
+    mode: analysis.thumbnail.mode,
+    image: {
+      width: analysis.thumbnail.width,
+      height: analysis.thumbnail.height,
+      source: analysis.thumbnail.source,
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import { BoundingBox, GridPosition } from '../types';
+import { Vertex } from './providers';
+
+/**
+ * Convert a bounding polygon into an axis-aligned box
+ */
+export function toBoundingBox(vertices: Vertex[]): BoundingBox {
+  if (vertices.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+
+  const xs = vertices.map(v => v.x || 0);
+  const ys = vertices.map(v => v.y || 0);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+
+  return {
+    x,
+    y,
+    width: Math.max(...xs) - x,
+    height: Math.max(...ys) - y,
+  };
+}
+
+/**
+ * Smallest box containing all of the given boxes
+ */
+export function unionBox(boxes: BoundingBox[]): BoundingBox {
+  const x = Math.min(...boxes.map(b => b.x));
+  const y = Math.min(...boxes.map(b => b.y));
+
+  return {
+    x,
+    y,
+    width: Math.max(...boxes.map(b => b.x + b.width)) - x,
+    height: Math.max(...boxes.map(b => b.y + b.height)) - y,
+  };
+}
+
+export function intersectionArea(a: BoundingBox, b: BoundingBox): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+/**
+ * Which cell of a 3x3 grid the centre of a box falls in
+ */
+export function getGridPosition(box: BoundingBox, imageWidth: number, imageHeight: number): GridPosition {
+  const centerX = box.x + box.width / 2;
+  const centerY = box.y + box.height / 2;
+
+  const column = Math.min(2, Math.max(0, Math.floor((centerX / imageWidth) * 3)));
+  const row = Math.min(2, Math.max(0, Math.floor((centerY / imageHeight) * 3)));
+
+  const rows = ['top', 'middle', 'bottom'] as const;
+  const columns = ['left', 'center', 'right'] as const;
+
+  return `${rows[row]}-${columns[column]}`;
+}
@@ -0,0 +1,51 @@
+import { createHash } from 'crypto';
+import { decodeImagePixelsToSize, ImageSource } from './pixels';
+
+/**
+ * Exact and perceptual fingerprints of an image
+ */
+export interface ImageHashes {
+  // sha256 of the bytes - identical files only
+  exact: string;
+  // 64-bit difference hash as 16 hex characters, null when the image couldn't be decoded
+  perceptual: string | null;
+}
+
+// dHash compares each pixel to its right neighbour, so it needs one extra column
+const DHASH_WIDTH = 9;
+const DHASH_HEIGHT = 8;
+
+/**
+ * Difference hash of an image
+ * Survives re-encoding and mild compression, so the same thumbnail saved at another quality matches
+ */
+export async function computePerceptualHash(image: ImageSource): Promise<string | null> {
+  try {
+    const { data } = await decodeImagePixelsToSize(image, DHASH_WIDTH, DHASH_HEIGHT);
+    const luminance = (index: number) => 0.299 * data[index * 4] + 0.587 * data[index * 4 + 1] + 0.114 * data[index * 4 + 2];
+
+    let hash = BigInt(0);
+    for (let y = 0; y < DHASH_HEIGHT; y++) {
+      for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+        const left = luminance(y * DHASH_WIDTH + x);
+        const right = luminance(y * DHASH_WIDTH + x + 1);
+        hash = (hash << BigInt(1)) | (left > right ? BigInt(1) : BigInt(0));
+      }
+    }
+
+    return hash.toString(16).padStart(16, '0');
+  } catch (error) {
+    console.error('Could not compute perceptual hash:', error);
+    return null;
+  }
+}
+
+/**
+ * Hash an image both ways for the analysis cache
+ */
+export async function hashImage(image: ImageSource): Promise<ImageHashes> {
+  return {
+    exact: createHash('sha256').update(image.buffer).digest('hex'),
+    perceptual: await computePerceptualHash(image),
+  };
+}
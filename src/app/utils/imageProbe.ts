@@ -0,0 +1,145 @@
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'unknown';
+export type ImageColorSpace = 'rgb' | 'rgba' | 'grayscale' | 'cmyk' | 'indexed' | 'unknown';
+
+/**
+ * Basic properties of an image read straight from its header
+ */
+export interface ImageProbe {
+  width: number;
+  height: number;
+  aspectRatio: number;
+  format: ImageFormat;
+  colorSpace: ImageColorSpace;
+  fileSize: number;
+}
+
+interface HeaderInfo {
+  width: number;
+  height: number;
+  format: ImageFormat;
+  colorSpace: ImageColorSpace;
+}
+
+/**
+ * Read dimensions, format and color space from an image buffer
+ * Only the header is parsed, so this is cheap and needs no native modules.
+ * Unrecognised images come back with zero dimensions and an 'unknown' format.
+ */
+export function probeImage(imageBuffer: Buffer): ImageProbe {
+  const header = probeJpeg(imageBuffer)
+    || probePng(imageBuffer)
+    || probeWebp(imageBuffer)
+    || probeGif(imageBuffer)
+    || { width: 0, height: 0, format: 'unknown', colorSpace: 'unknown' };
+
+  return {
+    ...header,
+    aspectRatio: header.height > 0 ? header.width / header.height : 0,
+    fileSize: imageBuffer.length,
+  };
+}
+
+function probeJpeg(buffer: Buffer): HeaderInfo | null {
+  if (buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== 0xd8) return null;
+
+  // Walk the marker segments until we hit a start-of-frame marker
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+
+    const marker = buffer[offset + 1];
+    // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const components = buffer[offset + 9];
+      return {
+        height: buffer.readUInt16BE(offset + 5),
+        width: buffer.readUInt16BE(offset + 7),
+        format: 'jpeg',
+        colorSpace: components === 1 ? 'grayscale' : components === 4 ? 'cmyk' : 'rgb',
+      };
+    }
+
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+
+  return { width: 0, height: 0, format: 'jpeg', colorSpace: 'unknown' };
+}
+
+function probePng(buffer: Buffer): HeaderInfo | null {
+  if (buffer.length < 26 || buffer.toString('ascii', 1, 4) !== 'PNG') return null;
+
+  const colorTypes: Record<number, ImageColorSpace> = {
+    0: 'grayscale',
+    2: 'rgb',
+    3: 'indexed',
+    4: 'grayscale',
+    6: 'rgba',
+  };
+
+  return {
+    width: buffer.readUInt32BE(16),
+    height: buffer.readUInt32BE(20),
+    format: 'png',
+    colorSpace: colorTypes[buffer[25]] || 'unknown',
+  };
+}
+
+function probeWebp(buffer: Buffer): HeaderInfo | null {
+  if (
+    buffer.length < 30 ||
+    buffer.toString('ascii', 0, 4) !== 'RIFF' ||
+    buffer.toString('ascii', 8, 12) !== 'WEBP'
+  ) {
+    return null;
+  }
+
+  const chunk = buffer.toString('ascii', 12, 16);
+
+  // Lossy: 14-bit dimensions after the VP8 frame tag
+  if (chunk === 'VP8 ') {
+    return {
+      width: buffer.readUInt16LE(26) & 0x3fff,
+      height: buffer.readUInt16LE(28) & 0x3fff,
+      format: 'webp',
+      colorSpace: 'rgb',
+    };
+  }
+
+  // Lossless: 14-bit dimensions packed after the signature byte
+  if (chunk === 'VP8L') {
+    const bits = buffer.readUInt32LE(21);
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >> 14) & 0x3fff) + 1,
+      format: 'webp',
+      colorSpace: 'rgba',
+    };
+  }
+
+  // Extended: 24-bit canvas size, alpha flag in the feature bits
+  if (chunk === 'VP8X') {
+    const hasAlpha = (buffer[20] & 0x10) !== 0;
+    return {
+      width: buffer.readUIntLE(24, 3) + 1,
+      height: buffer.readUIntLE(27, 3) + 1,
+      format: 'webp',
+      colorSpace: hasAlpha ? 'rgba' : 'rgb',
+    };
+  }
+
+  return { width: 0, height: 0, format: 'webp', colorSpace: 'unknown' };
+}
+
+function probeGif(buffer: Buffer): HeaderInfo | null {
+  if (buffer.length < 10 || buffer.toString('ascii', 0, 3) !== 'GIF') return null;
+
+  return {
+    width: buffer.readUInt16LE(6),
+    height: buffer.readUInt16LE(8),
+    format: 'gif',
+    colorSpace: 'indexed',
+  };
+}
@@ -0,0 +1,107 @@
+import { AnalysisMode, LegibilityCheck, RenderSize, TextBlockGeometry } from '../types';
+import { decodeImagePixelsToFit, ImageSource } from './pixels';
+import { measureBoxContrast } from './textGeometry';
+
+/**
+ * Sizes YouTube actually renders thumbnails at, in CSS pixels
+ * Shorts covers are 9:16 and show up on the home feed's Shorts shelf and full screen in the Shorts feed
+ */
+export const RENDER_SIZES: Record<AnalysisMode, Partial<Record<RenderSize, { label: string; width: number; height: number }>>> = {
+  video: {
+    sidebar: { label: 'Sidebar (up next)', width: 168, height: 94 },
+    search: { label: 'Search results', width: 246, height: 138 },
+    mobile: { label: 'Mobile home feed', width: 360, height: 202 },
+  },
+  shorts: {
+    'shorts-shelf': { label: 'Shorts shelf (home feed)', width: 180, height: 320 },
+    'shorts-feed': { label: 'Shorts feed (mobile)', width: 360, height: 640 },
+  },
+};
+
+// Text shorter than this (in rendered pixels) can't be read at all
+const MIN_TEXT_HEIGHT = 5;
+// Text this tall or taller reads comfortably
+const COMFORTABLE_TEXT_HEIGHT = 12;
+// WCAG AA contrast for normal text
+const TARGET_CONTRAST = 4.5;
+
+function getVerdict(score: number): string {
+  if (score >= 80) return 'Easy to read';
+  if (score >= 60) return 'Readable with effort';
+  if (score >= 40) return 'Hard to read';
+  return 'Illegible';
+}
+
+/**
+ * Re-run text size and contrast checks at each YouTube render size
+ * Text height is scaled from the full-size OCR boxes; contrast is re-measured
+ * on the downscaled pixels, since thin strokes blur into the background.
+ */
+export async function analyzeLegibility(
+  image: ImageSource,
+  textBlocks: TextBlockGeometry[],
+  mode: AnalysisMode = 'video'
+): Promise<LegibilityCheck[]> {
+  const checks: LegibilityCheck[] = [];
+  const sizes = Object.entries(RENDER_SIZES[mode]) as Array<[RenderSize, { label: string; width: number; height: number }]>;
+
+  for (const [size, { label, width, height }] of sizes) {
+    if (textBlocks.length === 0) {
+      checks.push({ size, label, width, height, score: 100, verdict: 'No text to read' });
+      continue;
+    }
+
+    // Contrast needs node-canvas - size checks still work without it
+    let pixels = null;
+    try {
+      // Shorts covers fill the player's height and lose their sides rather than being letterboxed
+      pixels = await decodeImagePixelsToFit(image, mode === 'shorts' ? undefined : width, height);
+    } catch (error) {
+      console.error(`Could not render ${size} preview for legibility, skipping contrast:`, error);
+    }
+
+    const blockResults = textBlocks.map(block => {
+      // The image is fitted to the render size, so scale by the side that limits it
+      const renderedHeight = pixels
+        ? block.box.height * (pixels.height / pixels.sourceHeight)
+        : (block.heightPercent / 100) * height;
+      const contrast = pixels ? measureBoxContrast(pixels, block.box) : block.contrast;
+
+      const sizeScore = Math.max(0, Math.min(1,
+        (renderedHeight - MIN_TEXT_HEIGHT) / (COMFORTABLE_TEXT_HEIGHT - MIN_TEXT_HEIGHT)
+      )) * 100;
+      const contrastScore = contrast !== undefined
+        ? Math.max(0, Math.min(1, (contrast - 1) / (TARGET_CONTRAST - 1))) * 100
+        : 75;
+
+      return {
+        renderedHeight,
+        contrast,
+        score: sizeScore * 0.6 + contrastScore * 0.4,
+        area: block.box.width * block.box.height,
+      };
+    });
+
+    // Bigger blocks are the headline, so they matter most
+    const totalArea = blockResults.reduce((sum, result) => sum + result.area, 0) || 1;
+    const score = Math.round(
+      blockResults.reduce((sum, result) => sum + result.score * result.area, 0) / totalArea
+    );
+    const contrasts = blockResults
+      .map(result => result.contrast)
+      .filter((contrast): contrast is number => contrast !== undefined);
+
+    checks.push({
+      size,
+      label,
+      width,
+      height,
+      score,
+      smallestTextHeight: Math.round(Math.min(...blockResults.map(result => result.renderedHeight)) * 10) / 10,
+      contrast: contrasts.length > 0 ? Math.min(...contrasts) : undefined,
+      verdict: getVerdict(score),
+    });
+  }
+
+  return checks;
+}
@@ -0,0 +1,175 @@
+import { AnalysisMode, BoundingBox, OverlayAnalysis, OverlayCollision, OverlayZone, Recommendation } from '../types';
+import { intersectionArea } from './geometry';
+
+/**
+ * Areas YouTube draws its own UI over, normalized to the thumbnail frame
+ * Measured from the desktop and mobile feeds at their common render sizes
+ */
+export const OVERLAY_ZONES: OverlayZone[] = [
+  {
+    id: 'timestamp',
+    label: 'Duration badge',
+    box: { x: 0.8, y: 0.8, width: 0.2, height: 0.2 },
+    severity: 'high',
+  },
+  {
+    id: 'progress-bar',
+    label: 'Watch progress bar',
+    box: { x: 0, y: 0.95, width: 1, height: 0.05 },
+    severity: 'medium',
+  },
+  {
+    id: 'hover-actions',
+    label: 'Watch later / Add to queue buttons',
+    box: { x: 0.85, y: 0, width: 0.15, height: 0.3 },
+    severity: 'medium',
+  },
+];
+
+/**
+ * Areas the Shorts player draws over a 9:16 cover, normalized to the cover
+ * Measured from the mobile Shorts feed, where covers are shown full screen
+ */
+export const SHORTS_OVERLAY_ZONES: OverlayZone[] = [
+  {
+    id: 'shorts-title',
+    label: 'Title, channel and subscribe button',
+    box: { x: 0, y: 0.8, width: 0.82, height: 0.2 },
+    severity: 'high',
+  },
+  {
+    id: 'shorts-action-rail',
+    label: 'Like, comment and share buttons',
+    box: { x: 0.84, y: 0.4, width: 0.16, height: 0.5 },
+    severity: 'high',
+  },
+  {
+    id: 'shorts-top-bar',
+    label: 'Search and menu icons',
+    box: { x: 0, y: 0, width: 1, height: 0.08 },
+    severity: 'medium',
+  },
+];
+
+// Shorts are shown at 9:16 - wider covers lose their sides
+const SHORTS_ASPECT_RATIO = 9 / 16;
+
+/**
+ * The overlay zones for a mode
+ * Shorts covers wider than 9:16 are center-cropped, so the cropped sides count as zones too
+ */
+export function getOverlayZones(mode: AnalysisMode, imageWidth: number, imageHeight: number): OverlayZone[] {
+  if (mode !== 'shorts') return OVERLAY_ZONES;
+
+  const visibleWidth = imageWidth && imageHeight ? Math.min(1, SHORTS_ASPECT_RATIO / (imageWidth / imageHeight)) : 1;
+  if (visibleWidth >= 0.98) return SHORTS_OVERLAY_ZONES;
+
+  const croppedWidth = (1 - visibleWidth) / 2;
+  return [
+    ...SHORTS_OVERLAY_ZONES,
+    {
+      id: 'shorts-crop-left',
+      label: 'Left edge cropped off in the Shorts feed',
+      box: { x: 0, y: 0, width: croppedWidth, height: 1 },
+      severity: 'high',
+    },
+    {
+      id: 'shorts-crop-right',
+      label: 'Right edge cropped off in the Shorts feed',
+      box: { x: 1 - croppedWidth, y: 0, width: croppedWidth, height: 1 },
+      severity: 'high',
+    },
+  ];
+}
+
+// Ignore collisions that only clip the edge of an element
+const MIN_COVERAGE = 0.1;
+
+function normalizeBox(box: BoundingBox, imageWidth: number, imageHeight: number): BoundingBox {
+  return {
+    x: box.x / imageWidth,
+    y: box.y / imageHeight,
+    width: box.width / imageWidth,
+    height: box.height / imageHeight,
+  };
+}
+
+/**
+ * Check detected text and faces against YouTube's overlay zones
+ * Boxes are in source image pixels
+ */
+export function detectOverlayCollisions(
+  elements: { text: Array<{ label: string; box: BoundingBox }>; faces: BoundingBox[] },
+  imageWidth: number,
+  imageHeight: number,
+  mode: AnalysisMode = 'video'
+): OverlayAnalysis {
+  const zones = getOverlayZones(mode, imageWidth, imageHeight);
+  if (!imageWidth || !imageHeight) {
+    return { zones, collisions: [] };
+  }
+
+  const candidates = [
+    ...elements.text.map(text => ({ element: 'text' as const, label: text.label, box: text.box })),
+    ...elements.faces.map((box, index) => ({ element: 'face' as const, label: `Face ${index + 1}`, box })),
+  ];
+
+  const collisions: OverlayCollision[] = [];
+  for (const candidate of candidates) {
+    const box = normalizeBox(candidate.box, imageWidth, imageHeight);
+    const area = box.width * box.height;
+    if (area <= 0) continue;
+
+    for (const zone of zones) {
+      const coverage = intersectionArea(box, zone.box) / area;
+      if (coverage >= MIN_COVERAGE) {
+        collisions.push({
+          zoneId: zone.id,
+          element: candidate.element,
+          label: candidate.label,
+          box,
+          coverage: Math.round(coverage * 100) / 100,
+        });
+      }
+    }
+  }
+
+  return { zones, collisions };
+}
+
+/**
+ * Turn overlay collisions into a concrete composition recommendation
+ */
+export function getOverlayRecommendations(overlays?: OverlayAnalysis, mode: AnalysisMode = 'video'): Recommendation[] {
+  if (!overlays || overlays.collisions.length === 0) return [];
+
+  const steps = overlays.collisions.map(collision => {
+    const zone = overlays.zones.find(z => z.id === collision.zoneId);
+    const subject = collision.element === 'text' ? `"${collision.label}"` : collision.label.toLowerCase();
+    return `Move ${subject} out of the ${zone?.label.toLowerCase() || collision.zoneId} area (${Math.round(collision.coverage * 100)}% covered)`;
+  });
+
+  const hasHighSeverity = overlays.collisions.some(collision =>
+    overlays.zones.find(z => z.id === collision.zoneId)?.severity === 'high'
+  );
+
+  if (mode === 'shorts') {
+    steps.push('Keep text and faces in the center 9:16 area, above the bottom fifth and clear of the right edge');
+  } else if (overlays.collisions.some(collision => collision.zoneId === 'timestamp')) {
+    // Only worth saying when something actually sits under the duration badge
+    steps.push('Keep the bottom-right fifth of the frame free of text and faces');
+  }
+
+  return [{
+    category: 'composition',
+    action: 'Keep key content clear of YouTube overlays',
+    steps,
+    impact: {
+      metric: 'Visible content',
+      value: Math.round(Math.max(...overlays.collisions.map(c => c.coverage)) * 100),
+      unit: '%'
+    },
+    priority: hasHighSeverity ? 1 : 3,
+    icon: '📐',
+  }];
+}
@@ -0,0 +1,136 @@
+import type { Image } from 'canvas';
+import { probeImage } from './imageProbe';
+import { ImageFetchError } from '../../lib/imageFetch';
+
+// Decoding takes 4 bytes per pixel, so a small file claiming huge dimensions is refused before canvas sees it
+export const MAX_IMAGE_PIXELS = 40 * 1000 * 1000;
+export const MAX_IMAGE_DIMENSION = 16384;
+
+/**
+ * An image to read pixels from
+ * Its dimensions are checked from the header up front, and it is decoded at most once
+ * however many helpers sample it
+ */
+export interface ImageSource {
+  buffer: Buffer;
+  // Dimensions from the header
+  width: number;
+  height: number;
+  decode(): Promise<Image>;
+}
+
+/**
+ * Raw RGBA pixels decoded from an image buffer
+ */
+export interface DecodedImage {
+  // Dimensions of the pixel data (may be downscaled)
+  width: number;
+  height: number;
+  // Dimensions of the original image
+  sourceWidth: number;
+  sourceHeight: number;
+  // RGBA bytes, 4 per pixel, row-major
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Check an image's dimensions against the pixel budget and prepare it for decoding
+ * Throws an ImageFetchError for images that can't be probed or are too large to decode
+ */
+export function openImage(imageBuffer: Buffer): ImageSource {
+  const { width, height, format } = probeImage(imageBuffer);
+
+  if (format === 'unknown' || width === 0 || height === 0) {
+    throw new ImageFetchError('unsupported_type', 'Image is not a readable JPEG, PNG, WebP or GIF');
+  }
+  if (width > MAX_IMAGE_DIMENSION || height > MAX_IMAGE_DIMENSION || width * height > MAX_IMAGE_PIXELS) {
+    throw new ImageFetchError(
+      'too_large',
+      `Image is ${width}x${height}, too large to decode (at most ${MAX_IMAGE_DIMENSION} pixels a side and ${MAX_IMAGE_PIXELS / 1000 / 1000} megapixels)`
+    );
+  }
+
+  let decoded: Promise<Image> | undefined;
+  return {
+    buffer: imageBuffer,
+    width,
+    height,
+    decode() {
+      if (!decoded) {
+        // canvas is a native module, so only load it when pixels are actually needed
+        decoded = import('canvas').then(({ loadImage }) => loadImage(imageBuffer));
+      }
+      return decoded;
+    },
+  };
+}
+
+/**
+ * Accept either a raw buffer or an image that is already open
+ */
+export function toImageSource(image: Buffer | ImageSource): ImageSource {
+  return Buffer.isBuffer(image) ? openImage(image) : image;
+}
+
+/**
+ * Read RGBA pixels from an image
+ * Pass maxDimension to downscale large images before reading pixels,
+ * which keeps per-pixel passes cheap on full-size thumbnails
+ */
+export async function decodeImagePixels(
+  source: ImageSource,
+  maxDimension?: number
+): Promise<DecodedImage> {
+  return decodeImagePixelsToFit(source, maxDimension, maxDimension);
+}
+
+/**
+ * Read an image's pixels, downscaling it to fit inside maxWidth x maxHeight
+ * The aspect ratio is preserved and images are never upscaled
+ */
+export async function decodeImagePixelsToFit(
+  source: ImageSource,
+  maxWidth?: number,
+  maxHeight?: number
+): Promise<DecodedImage> {
+  const image = await source.decode();
+  const sourceWidth = image.width;
+  const sourceHeight = image.height;
+
+  const scale = Math.min(
+    1,
+    maxWidth ? maxWidth / sourceWidth : 1,
+    maxHeight ? maxHeight / sourceHeight : 1
+  );
+  const width = Math.max(1, Math.round(sourceWidth * scale));
+  const height = Math.max(1, Math.round(sourceHeight * scale));
+
+  return drawPixels(image, width, height);
+}
+
+/**
+ * Read an image's pixels stretched to exactly width x height, ignoring the aspect ratio
+ */
+export async function decodeImagePixelsToSize(
+  source: ImageSource,
+  width: number,
+  height: number
+): Promise<DecodedImage> {
+  return drawPixels(await source.decode(), width, height);
+}
+
+async function drawPixels(image: Image, width: number, height: number): Promise<DecodedImage> {
+  const { createCanvas } = await import('canvas');
+
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d');
+  context.drawImage(image, 0, 0, width, height);
+
+  return {
+    width,
+    height,
+    sourceWidth: image.width,
+    sourceHeight: image.height,
+    data: context.getImageData(0, 0, width, height).data,
+  };
+}
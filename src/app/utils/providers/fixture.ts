@@ -0,0 +1,113 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { googleVisionProvider } from './googleVision';
+import { ImageSource } from '../pixels';
+import {
+  DetectedColor,
+  DetectedFace,
+  DetectedObject,
+  DetectedText,
+  ImageAnalysisProvider,
+} from './types';
+
+/**
+ * Everything a provider can detect for one image, as stored on disk
+ */
+export interface VisionFixture {
+  text: DetectedText;
+  faces: DetectedFace[];
+  colors: DetectedColor[];
+  objects: DetectedObject[];
+}
+
+const DEFAULT_FIXTURES_DIR = 'data/fixtures/vision';
+
+function getFixturesDir(): string {
+  const dir = process.env.VISION_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+  return path.isAbsolute(dir) ? dir : path.join(process.cwd(), dir);
+}
+
+function getFixturePath(image: ImageSource): string {
+  const hash = createHash('sha256').update(image.buffer).digest('hex');
+  return path.join(getFixturesDir(), `${hash}.json`);
+}
+
+/**
+ * Record a fixture by running the image through Google Vision once
+ */
+async function recordFixture(image: ImageSource, fixturePath: string): Promise<VisionFixture> {
+  console.log(`Recording vision fixture at: ${fixturePath}`);
+
+  const [text, faces, colors, objects] = await Promise.all([
+    googleVisionProvider.detectText(image),
+    googleVisionProvider.detectFaces(image),
+    googleVisionProvider.detectColors(image),
+    googleVisionProvider.detectObjects(image),
+  ]);
+  const fixture: VisionFixture = { text, faces, colors, objects };
+
+  await fs.mkdir(path.dirname(fixturePath), { recursive: true });
+  await fs.writeFile(fixturePath, JSON.stringify(fixture, null, 2));
+
+  return fixture;
+}
+
+// Loads in flight, by fixture path
+// The detectors are called together for each image, so they share one read (and one recording)
+const pendingLoads = new Map<string, Promise<VisionFixture>>();
+
+async function readOrRecordFixture(image: ImageSource, fixturePath: string): Promise<VisionFixture> {
+  try {
+    const content = await fs.readFile(fixturePath, 'utf-8');
+    return JSON.parse(content) as VisionFixture;
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      console.error(`Error reading vision fixture at ${fixturePath}:`, error);
+      throw new Error('Invalid vision fixture');
+    }
+
+    if (process.env.VISION_FIXTURES_RECORD === 'true') {
+      return recordFixture(image, fixturePath);
+    }
+
+    throw new Error(`No vision fixture recorded for image (expected ${fixturePath})`);
+  }
+}
+
+function loadFixture(image: ImageSource): Promise<VisionFixture> {
+  const fixturePath = getFixturePath(image);
+
+  let pending = pendingLoads.get(fixturePath);
+  if (!pending) {
+    pending = readOrRecordFixture(image, fixturePath).finally(() => pendingLoads.delete(fixturePath));
+    pendingLoads.set(fixturePath, pending);
+  }
+
+  return pending;
+}
+
+/**
+ * Deterministic provider that replays recorded detection results
+ * Fixtures are keyed by the SHA-256 of the image bytes. Set
+ * VISION_FIXTURES_RECORD=true to capture missing fixtures from Google Vision.
+ */
+export const fixtureProvider: ImageAnalysisProvider = {
+  name: 'fixture',
+
+  async detectText(image: ImageSource): Promise<DetectedText> {
+    return (await loadFixture(image)).text;
+  },
+
+  async detectFaces(image: ImageSource): Promise<DetectedFace[]> {
+    return (await loadFixture(image)).faces;
+  },
+
+  async detectColors(image: ImageSource): Promise<DetectedColor[]> {
+    return (await loadFixture(image)).colors;
+  },
+
+  async detectObjects(image: ImageSource): Promise<DetectedObject[]> {
+    return (await loadFixture(image)).objects;
+  },
+};
@@ -0,0 +1,159 @@
+import { ImageAnnotatorClient } from '@google-cloud/vision';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ImageSource } from '../pixels';
+import {
+  DetectedColor,
+  DetectedFace,
+  DetectedObject,
+  DetectedText,
+  ImageAnalysisProvider,
+  Likelihood,
+  Vertex,
+} from './types';
+
+// Initialize the Vision client
+// Note: This assumes you have set GOOGLE_APPLICATION_CREDENTIALS in your environment
+// or have the service account JSON file in the location specified in .env.local
+let visionClient: ImageAnnotatorClient | null = null;
+
+async function initVisionClient() {
+  if (visionClient) return visionClient;
+  
+  try {
+    // Check if we have a credentials file path or JSON in .env.local
+    const credentialsEnv = process.env.GOOGLE_CLOUD_VISION_API_KEY;
+    
+    if (credentialsEnv) {
+      // If we have a path to a JSON file
+      if (credentialsEnv.endsWith('.json')) {
+        const fullPath = path.isAbsolute(credentialsEnv) 
+          ? credentialsEnv 
+          : path.join(process.cwd(), credentialsEnv);
+        
+        console.log(`Using credentials file at: ${fullPath}`);
+        
+        // Check if file exists
+        try {
+          await fs.access(fullPath);
+          // Initialize with explicit credentials file
+          visionClient = new ImageAnnotatorClient({
+            keyFilename: fullPath
+          });
+        } catch (error) {
+          console.error(`Credentials file not found at ${fullPath}:`, error);
+          throw new Error('Google Cloud credentials file not found');
+        }
+      } 
+      // If it's a Base64 encoded JSON (for Vercel deployment)
+      else if (credentialsEnv.includes('ewog')) {
+        try {
+          console.log('Using Base64 encoded credentials');
+          // Decode the Base64 string to get the JSON content
+          const credentialsJSON = Buffer.from(credentialsEnv, 'base64').toString();
+          const credentials = JSON.parse(credentialsJSON);
+          
+          // Initialize with the parsed credentials
+          visionClient = new ImageAnnotatorClient({
+            credentials: credentials,
+            projectId: credentials.project_id,
+          });
+        } catch (error) {
+          console.error('Error parsing Base64 credentials:', error);
+          throw new Error('Invalid Google Cloud credentials format');
+        }
+      } 
+      // If it's an API key directly
+      else {
+        console.log('Using API key from environment variable');
+        visionClient = new ImageAnnotatorClient({
+          credentials: {
+            client_email: 'dummy@example.com', // These won't be used with API key auth
+            private_key: 'dummy_key',
+          },
+          projectId: 'thumbnail-analyzer',
+        });
+      }
+    } else {
+      // Try to use default credentials (for development)
+      console.log('Attempting to use default credentials');
+      visionClient = new ImageAnnotatorClient();
+    }
+    
+    return visionClient;
+  } catch (error) {
+    console.error('Error initializing Vision client:', error);
+    throw new Error('Failed to initialize Google Cloud Vision client');
+  }
+}
+
+function toVertices(vertices?: Array<{ x?: number | null; y?: number | null }> | null): Vertex[] {
+  return (vertices || []).map(v => ({ x: v.x || 0, y: v.y || 0 }));
+}
+
+function toLikelihood(value: unknown): Likelihood {
+  return typeof value === 'string' ? (value as Likelihood) : 'UNKNOWN';
+}
+
+/**
+ * Google Cloud Vision backed provider
+ */
+export const googleVisionProvider: ImageAnalysisProvider = {
+  name: 'google',
+
+  async detectText(image: ImageSource): Promise<DetectedText> {
+    const client = await initVisionClient();
+    const [textDetection] = await client.textDetection(image.buffer);
+    const annotations = textDetection.textAnnotations || [];
+
+    // The first annotation is the full text, the rest are individual words
+    return {
+      fullText: annotations[0]?.description || '',
+      blocks: annotations.slice(1).map(annotation => ({
+        text: annotation.description || '',
+        boundingBox: toVertices(annotation.boundingPoly?.vertices),
+      })),
+    };
+  },
+
+  async detectFaces(image: ImageSource): Promise<DetectedFace[]> {
+    const client = await initVisionClient();
+    const [faceDetection] = await client.faceDetection(image.buffer);
+
+    return (faceDetection.faceAnnotations || []).map(face => ({
+      boundingBox: toVertices(face.boundingPoly?.vertices),
+      confidence: face.detectionConfidence || 0,
+      joy: toLikelihood(face.joyLikelihood),
+      anger: toLikelihood(face.angerLikelihood),
+      sorrow: toLikelihood(face.sorrowLikelihood),
+      surprise: toLikelihood(face.surpriseLikelihood),
+    }));
+  },
+
+  async detectColors(image: ImageSource): Promise<DetectedColor[]> {
+    const client = await initVisionClient();
+    const [imageProperties] = await client.imageProperties(image.buffer);
+    const colors = imageProperties.imagePropertiesAnnotation?.dominantColors?.colors || [];
+
+    return colors.map(color => ({
+      red: color.color?.red || 0,
+      green: color.color?.green || 0,
+      blue: color.color?.blue || 0,
+      score: color.score || 0,
+      pixelFraction: color.pixelFraction || 0,
+    }));
+  },
+
+  async detectObjects(image: ImageSource): Promise<DetectedObject[]> {
+    const client = await initVisionClient();
+    if (!client.objectLocalization) return [];
+
+    const [objectLocalization] = await client.objectLocalization(image.buffer);
+
+    return (objectLocalization.localizedObjectAnnotations || []).map(object => ({
+      name: object.name || '',
+      confidence: object.score || 0,
+      normalizedBoundingBox: toVertices(object.boundingPoly?.normalizedVertices),
+    }));
+  },
+};
@@ -0,0 +1,27 @@
+import { fixtureProvider } from './fixture';
+import { googleVisionProvider } from './googleVision';
+import { localProvider } from './local';
+import { ImageAnalysisProvider, ImageAnalysisProviderName } from './types';
+
+export * from './types';
+
+const PROVIDERS: Record<ImageAnalysisProviderName, ImageAnalysisProvider> = {
+  google: googleVisionProvider,
+  local: localProvider,
+  fixture: fixtureProvider,
+};
+
+/**
+ * Get the image analysis provider selected by IMAGE_ANALYSIS_PROVIDER
+ * Defaults to Google Cloud Vision when the variable is not set
+ */
+export function getImageAnalysisProvider(): ImageAnalysisProvider {
+  const name = (process.env.IMAGE_ANALYSIS_PROVIDER || 'google') as ImageAnalysisProviderName;
+  const provider = PROVIDERS[name];
+
+  if (!provider) {
+    throw new Error(`Unknown image analysis provider: ${name}`);
+  }
+
+  return provider;
+}
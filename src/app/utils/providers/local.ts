@@ -0,0 +1,80 @@
+import { decodeImagePixels, ImageSource } from '../pixels';
+import {
+  DetectedColor,
+  DetectedFace,
+  DetectedObject,
+  DetectedText,
+  ImageAnalysisProvider,
+} from './types';
+
+// Downscale before bucketing - colour distribution barely changes and it keeps this fast
+const SAMPLE_DIMENSION = 160;
+// Bits kept per channel when bucketing colours (4 bits = 4096 buckets)
+const BITS_PER_CHANNEL = 4;
+const MAX_COLORS = 10;
+
+/**
+ * Offline provider built on node-canvas
+ * Works without network access or credentials, so it is suitable for CI and
+ * air-gapped machines. It only measures pixels: dominant colours are real,
+ * but there is no OCR, face or object model, so those detectors return
+ * empty results.
+ */
+export const localProvider: ImageAnalysisProvider = {
+  name: 'local',
+
+  async detectText(): Promise<DetectedText> {
+    return { fullText: '', blocks: [] };
+  },
+
+  async detectFaces(): Promise<DetectedFace[]> {
+    return [];
+  },
+
+  async detectColors(image: ImageSource): Promise<DetectedColor[]> {
+    let data: Uint8ClampedArray;
+    try {
+      ({ data } = await decodeImagePixels(image, SAMPLE_DIMENSION));
+    } catch (error) {
+      console.error('Could not decode image for colour detection, skipping:', error);
+      return [];
+    }
+    const shift = 8 - BITS_PER_CHANNEL;
+    const buckets = new Map<number, { red: number; green: number; blue: number; count: number }>();
+    let totalPixels = 0;
+
+    for (let i = 0; i < data.length; i += 4) {
+      // Skip transparent pixels, they don't contribute to what viewers see
+      if (data[i + 3] < 128) continue;
+
+      const key = ((data[i] >> shift) << (BITS_PER_CHANNEL * 2)) |
+        ((data[i + 1] >> shift) << BITS_PER_CHANNEL) |
+        (data[i + 2] >> shift);
+      const bucket = buckets.get(key) || { red: 0, green: 0, blue: 0, count: 0 };
+      bucket.red += data[i];
+      bucket.green += data[i + 1];
+      bucket.blue += data[i + 2];
+      bucket.count++;
+      buckets.set(key, bucket);
+      totalPixels++;
+    }
+
+    if (totalPixels === 0) return [];
+
+    return [...buckets.values()]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_COLORS)
+      .map(bucket => ({
+        // Use the mean colour of the bucket rather than its corner value
+        red: Math.round(bucket.red / bucket.count),
+        green: Math.round(bucket.green / bucket.count),
+        blue: Math.round(bucket.blue / bucket.count),
+        score: bucket.count / totalPixels,
+        pixelFraction: bucket.count / totalPixels,
+      }));
+  },
+
+  async detectObjects(): Promise<DetectedObject[]> {
+    return [];
+  },
+};
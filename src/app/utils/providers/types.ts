@@ -0,0 +1,70 @@
+/**
+ * Provider-neutral shapes returned by every image analysis backend.
+ * Bounding boxes are in pixel coordinates of the source image unless the
+ * field name says otherwise.
+ */
+
+import type { ImageSource } from '../pixels';
+
+export interface Vertex {
+  x: number;
+  y: number;
+}
+
+export type Likelihood =
+  | 'UNKNOWN'
+  | 'VERY_UNLIKELY'
+  | 'UNLIKELY'
+  | 'POSSIBLE'
+  | 'LIKELY'
+  | 'VERY_LIKELY';
+
+export interface TextBlock {
+  text: string;
+  boundingBox: Vertex[];
+}
+
+export interface DetectedText {
+  // All text in the image, one line per detected line
+  fullText: string;
+  // Individual words/blocks with their bounding polygons
+  blocks: TextBlock[];
+}
+
+export interface DetectedFace {
+  boundingBox: Vertex[];
+  confidence: number;
+  joy: Likelihood;
+  anger: Likelihood;
+  sorrow: Likelihood;
+  surprise: Likelihood;
+}
+
+export interface DetectedColor {
+  red: number;
+  green: number;
+  blue: number;
+  score: number;
+  pixelFraction: number;
+}
+
+export interface DetectedObject {
+  name: string;
+  confidence: number;
+  // Vertices normalized to 0-1 of the image width/height
+  normalizedBoundingBox: Vertex[];
+}
+
+export type ImageAnalysisProviderName = 'google' | 'local' | 'fixture';
+
+/**
+ * A backend capable of extracting raw features from a thumbnail.
+ * Implementations only detect - all scoring happens downstream.
+ */
+export interface ImageAnalysisProvider {
+  readonly name: ImageAnalysisProviderName;
+  detectText(image: ImageSource): Promise<DetectedText>;
+  detectFaces(image: ImageSource): Promise<DetectedFace[]>;
+  detectColors(image: ImageSource): Promise<DetectedColor[]>;
+  detectObjects(image: ImageSource): Promise<DetectedObject[]>;
+}
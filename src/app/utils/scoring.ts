@@ -1,33 +1,65 @@
-import { AnalysisResult } from '../types';
+import { AnalysisMode, AnalysisResult, ComponentScore, ScoreFactor, ThumbnailFeatures, VisionAnalysis } from '../types';
 import {
+  getActiveModel,
   getScoringWeights,
-  getOverallFindings,
   calculateNormalizedScore,
+  getScoringNorms,
+  ScoringModelSource,
+  ScoringNorms,
 } from './scoringModel';
+import { extractFeatures } from './features';
+import { categorizeColorRange } from './colorAnalysis';
+
+type FactorInput = Omit<ScoreFactor, 'contribution'>;
+
+/**
+ * Combine weighted factors into a 0-100 component score
+ * Zero-weight factors (missing measurements) are dropped from the breakdown.
+ * Weights are normalized, so contributions add up to the score
+ */
+function combineFactors(factors: FactorInput[]): ComponentScore {
+  const included = factors.filter(factor => factor.weight > 0);
+  const totalWeight = included.reduce((sum, factor) => sum + factor.weight, 0);
+  const score = totalWeight > 0
+    ? included.reduce((sum, factor) => sum + factor.score * factor.weight, 0) / totalWeight
+    : 0;
+
+  return {
+    score: Math.round(Math.max(0, Math.min(100, score))),
+    factors: included.map(factor => ({
+      ...factor,
+      score: Math.round(factor.score),
+      weight: Math.round((factor.weight / totalWeight) * 1000) / 1000,
+      contribution: Math.round((factor.score * factor.weight / totalWeight) * 10) / 10,
+    })),
+  };
+}
+
+// Round raw measurements so the breakdown stays readable
+function roundValue(value: number, decimals: number = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
 
 /**
  * Calculate text effectiveness score
  * Evaluates text based on readability, amount, and placement
  */
 export function calculateTextScore(
-  detectedText: string[],
-  textReadability: string,
-  fontSizes?: number[],
-  fontContrast?: number
-): number {
-  // Add null/undefined checks
-  if (!detectedText) return 0;
+  text: ThumbnailFeatures['text'],
+  norms: ScoringNorms = getScoringNorms()
+): ComponentScore {
+  const { count: textCount, readability, fontSizes, fontContrast, faceOverlap } = text;
   
-  const weights = getScoringWeights();
-  const findings = getOverallFindings();
+  const { weights, overall: findings } = norms;
   
   // More sophisticated text presence scoring
-  const hasText = detectedText.length > 0;
-  const textPresenceScore = hasText ? 100 : 0;
+  // Some categories (e.g. Music) mostly go without text, so missing text costs less there
+  const hasText = textCount > 0;
+  const textPresenceScore = hasText ? 100 : (norms.textPresence ? 0 : 70);
   
   // Improved text entities scoring with capping for excessive text
-  const textCount = detectedText.length;
-  const optimalTextCount = findings.textStats.avgTextEntities;
+  const optimalTextCount = norms.avgTextEntities;
   let textEntitiesScore = 0;
   
   if (textCount > 0) {
@@ -45,7 +77,7 @@ export function calculateTextScore(
   
   // More nuanced readability scoring
   let readabilityScore = 0;
-  switch (textReadability) {
+  switch (readability) {
     case 'Good amount of text':
       readabilityScore = 100;
       break;
@@ -60,23 +92,61 @@ export function calculateTextScore(
   }
   
   // Add font size and contrast scoring if available
+  // Font sizes are line heights as a percentage of the frame height
   let fontScore = 80; // Default
-  if (fontSizes && fontContrast) {
-    const avgFontSize = fontSizes.reduce((sum, size) => sum + size, 0) / fontSizes.length;
-    const fontSizeScore = calculateNormalizedScore(avgFontSize, findings.textStats.avgFontSize || 24, 15);
+  let avgFontSize: number | undefined;
+  const benchmarkFontSize = norms.fontSize;
+  if (fontSizes && fontSizes.length > 0 && fontContrast) {
+    avgFontSize = fontSizes.reduce((sum, size) => sum + size, 0) / fontSizes.length;
+    const fontSizeScore = calculateNormalizedScore(avgFontSize, benchmarkFontSize, 15);
     const fontContrastScore = fontContrast > 4.5 ? 100 : (fontContrast / 4.5) * 100;
     fontScore = (fontSizeScore * 0.5) + (fontContrastScore * 0.5);
   }
   
+  // Text drawn over faces hides the most engaging part of the thumbnail
+  const placementWeight = hasText && faceOverlap !== undefined ? 0.1 : 0;
+  const placementScore = Math.max(0, 100 - (faceOverlap || 0) * 150);
+  
   // Weighted combination with enhanced weights
-  const finalScore = (
-    textPresenceScore * weights.textPresence +
-    textEntitiesScore * weights.textEntities +
-    readabilityScore * 0.3 +
-    fontScore * 0.2
-  ) / (weights.textPresence + weights.textEntities + 0.3 + 0.2);
-  
-  return Math.round(Math.max(0, Math.min(100, finalScore)));
+  return combineFactors([
+    {
+      name: 'Text presence',
+      value: hasText ? 'Yes' : 'No',
+      benchmark: norms.category
+        ? `${norms.category} thumbnails ${norms.textPresence ? 'usually' : 'rarely'} use text`
+        : `${findings.textStats.withTextPercentage}% use text`,
+      score: textPresenceScore,
+      weight: weights.textPresence,
+    },
+    {
+      name: 'Text amount',
+      value: textCount,
+      benchmark: roundValue(optimalTextCount, 1),
+      score: textEntitiesScore,
+      weight: weights.textEntities,
+    },
+    {
+      name: 'Readability',
+      value: readability,
+      benchmark: 'Good amount of text',
+      score: readabilityScore,
+      weight: 0.3,
+    },
+    {
+      name: 'Font size and contrast',
+      value: avgFontSize !== undefined ? roundValue(avgFontSize, 1) : undefined,
+      benchmark: benchmarkFontSize,
+      score: fontScore,
+      weight: 0.2,
+    },
+    {
+      name: 'Clear of faces',
+      value: faceOverlap !== undefined ? roundValue(faceOverlap) : undefined,
+      benchmark: 0,
+      score: placementScore,
+      weight: placementWeight,
+    },
+  ]);
 }
 
 /**
@@ -84,15 +154,25 @@ export function calculateTextScore(
  * Evaluates colors, contrast, and visual appeal
  */
 export function calculateVisualScore(
-  dominantColors: string[],
-  contrast: string,
-  brightnessFactor?: number,
-  saturationLevel?: number
-): number {
-  if (!dominantColors || dominantColors.length === 0) return 50; // Default score for no color data
+  colors: ThumbnailFeatures['colors'],
+  objects: string[] = [],
+  norms: ScoringNorms = getScoringNorms()
+): ComponentScore {
+  const {
+    dominant: dominantColors,
+    contrast,
+    brightness: brightnessFactor,
+    saturation: saturationLevel,
+    colorfulness,
+    paletteContrast,
+  } = colors;
+  
+  if (!dominantColors || dominantColors.length === 0) {
+    // Default score for no color data
+    return { score: 50, factors: [{ name: 'No color data', score: 50, weight: 1, contribution: 50 }] };
+  }
   
   // const weights = getScoringWeights();
-  const findings = getOverallFindings();
   
   // Enhanced color variety scoring with diminishing returns
   const optimalColorCount = 3; // Most successful thumbnails have 3-4 colors
@@ -111,28 +191,38 @@ export function calculateVisualScore(
   
   // More nuanced contrast scoring
   let contrastScore = 0;
-  switch (contrast) {
-    case 'High':
-      contrastScore = 100;
-      break;
-    case 'Medium':
-      contrastScore = 75;
-      break;
-    case 'Low':
-      contrastScore = 50;
-      break;
-    default:
-      contrastScore = (brightnessFactor && brightnessFactor > 0.5) ? 70 : 40;
+  if (paletteContrast !== undefined) {
+    // Measured WCAG ratio between the most contrasting palette colors
+    if (paletteContrast >= 7) contrastScore = 100;
+    else if (paletteContrast >= 4.5) contrastScore = 85;
+    else if (paletteContrast >= 3) contrastScore = 70;
+    else contrastScore = 40 + ((paletteContrast - 1) / 2) * 30;
+  } else {
+    switch (contrast) {
+      case 'High':
+        contrastScore = 100;
+        break;
+      case 'Medium':
+        contrastScore = 75;
+        break;
+      case 'Low':
+        contrastScore = 50;
+        break;
+      default:
+        contrastScore = (brightnessFactor && brightnessFactor > 0.5) ? 70 : 40;
+    }
   }
   
   // Enhanced color impact scoring with weighted matching
-  const recommendedColors = findings.colorStats.mostCommonColorRanges;
+  // Dominant colors are hex, the findings record named ranges
+  const recommendedColors = norms.commonColors;
+  const colorRanges = dominantColors.map(categorizeColorRange);
   let colorMatchScore = 0;
   
   if (recommendedColors && recommendedColors.length > 0) {
-    const matchScores = dominantColors.map(color => {
+    const matchScores = colorRanges.map(range => {
       const matchingColor = recommendedColors.find(rc => 
-        rc.range.toLowerCase() === color.toLowerCase()
+        rc.range.toLowerCase() === range
       );
       return matchingColor ? (matchingColor.percentage / 100) * 100 : 20; // Base score for non-matching colors
     });
@@ -159,15 +249,77 @@ export function calculateVisualScore(
     }
   }
   
-  // Combine scores with adjusted weights
-  const finalScore = (
-    colorVarietyScore * 0.25 +
-    contrastScore * 0.35 +
-    colorMatchScore * 0.25 +
-    saturationScore * 0.15
-  );
+  const colorVarietyFactor = {
+    name: 'Color variety',
+    value: dominantColors.length,
+    benchmark: optimalColorCount,
+    score: colorVarietyScore,
+  };
+  const contrastFactor = {
+    name: 'Contrast',
+    value: paletteContrast !== undefined ? roundValue(paletteContrast, 1) : contrast,
+    benchmark: paletteContrast !== undefined ? 7 : 'High',
+    score: contrastScore,
+  };
+  const colorMatchFactor = {
+    name: 'Proven colors',
+    value: colorRanges.join(', '),
+    benchmark: recommendedColors?.slice(0, 3).map(color => color.range).join(', '),
+    score: colorMatchScore,
+  };
+  const saturationFactor = {
+    name: 'Saturation',
+    value: saturationLevel !== undefined ? roundValue(saturationLevel) : undefined,
+    benchmark: '0.3-0.8',
+    score: saturationScore,
+  };
   
-  return Math.round(Math.max(0, Math.min(100, finalScore)));
+  // Objects the category's top thumbnails tend to show - only scored with a known category
+  let categoryObjectsFactor: FactorInput | null = null;
+  if (norms.category && norms.commonObjects.length > 0 && objects.length > 0) {
+    const commonNames = new Set(norms.commonObjects.map(object => object.name.toLowerCase()));
+    const matched = objects.filter(object => commonNames.has(object.toLowerCase())).length;
+    categoryObjectsFactor = {
+      name: `Common ${norms.category} objects`,
+      value: `${matched} of ${objects.length}`,
+      benchmark: norms.commonObjects.slice(0, 3).map(object => object.name).join(', '),
+      score: 50 + (matched / objects.length) * 50,
+      weight: 0.1,
+    };
+  }
+  
+  // Pixel-level brightness and colorfulness, when the image was decoded
+  if (brightnessFactor !== undefined && colorfulness !== undefined) {
+    // Very dark or washed-out thumbnails disappear in the feed
+    let brightnessScore = 100;
+    if (brightnessFactor < 0.15) {
+      brightnessScore = 40 + (brightnessFactor / 0.15) * 60;
+    } else if (brightnessFactor > 0.7) {
+      brightnessScore = Math.max(40, 100 - ((brightnessFactor - 0.7) / 0.3) * 60);
+    }
+    
+    // 0 is greyscale, above ~60 is highly colorful
+    const colorfulnessScore = Math.min(100, 40 + colorfulness * 0.75);
+    
+    return combineFactors([
+      { ...colorVarietyFactor, weight: 0.2 },
+      { ...contrastFactor, weight: 0.3 },
+      { ...colorMatchFactor, weight: 0.2 },
+      { ...saturationFactor, weight: 0.1 },
+      { name: 'Brightness', value: roundValue(brightnessFactor), benchmark: '0.15-0.7', score: brightnessScore, weight: 0.1 },
+      { name: 'Colorfulness', value: roundValue(colorfulness, 1), benchmark: 60, score: colorfulnessScore, weight: 0.1 },
+      ...(categoryObjectsFactor ? [categoryObjectsFactor] : []),
+    ]);
+  }
+  
+  // Combine scores with adjusted weights
+  return combineFactors([
+    { ...colorVarietyFactor, weight: 0.25 },
+    { ...contrastFactor, weight: 0.35 },
+    { ...colorMatchFactor, weight: 0.25 },
+    { ...saturationFactor, weight: 0.15 },
+    ...(categoryObjectsFactor ? [categoryObjectsFactor] : []),
+  ]);
 }
 
 /**
@@ -175,18 +327,16 @@ export function calculateVisualScore(
  * Evaluates faces, expressions, and emotional connection
  */
 export function calculateFaceScore(
-  faceCount: number,
-  expressions: string[],
-  prominence: string,
-  eyeContact?: boolean,
-  facePosition?: 'center' | 'left' | 'right' | 'other'
-): number {
-  const weights = getScoringWeights();
-  const findings = getOverallFindings();
+  faces: ThumbnailFeatures['faces'],
+  norms: ScoringNorms = getScoringNorms()
+): ComponentScore {
+  const { count: faceCount, expressions, prominence, eyeContact, position: facePosition } = faces;
+
+  const { weights, overall: findings } = norms;
   
   // Handle no faces separately based on content category
   // Some content types don't need faces (e.g., product reviews)
-  const contentRequiresFaces = true; // This should come from category data
+  const contentRequiresFaces = norms.facePresence;
   const facePresenceScore = faceCount > 0 ? 100 : (contentRequiresFaces ? 0 : 70);
   
   // Improved face count scoring with optimal range
@@ -231,6 +381,7 @@ export function calculateFaceScore(
     const expressionWeights: Record<string, number> = {
       'joy': 1.0,
       'surprise': 0.9,
+      'surprised': 0.9,
       'excited': 0.9,
       'happy': 0.9,
       'neutral': 0.5,
@@ -273,21 +424,58 @@ export function calculateFaceScore(
   }
   
   // Combine scores with adjusted weights
-  let finalScore = 0;
   if (faceCount === 0 && !contentRequiresFaces) {
     // Special case for content that doesn't need faces
-    finalScore = 70;
-  } else {
-    finalScore = (
-      facePresenceScore * weights.facePresence +
-      faceCountScore * 0.15 +
-      prominenceScore * weights.faceCoverage +
-      expressionScore * 0.25 +
-      positionScore * 0.15
-    ) / (weights.facePresence + 0.15 + weights.faceCoverage + 0.25 + 0.15);
+    return {
+      score: 70,
+      factors: [{
+        name: 'Faces not needed',
+        value: 'No',
+        benchmark: `${norms.category} thumbnails rarely show faces`,
+        score: 70,
+        weight: 1,
+        contribution: 70,
+      }],
+    };
   }
   
-  return Math.round(Math.max(0, Math.min(100, finalScore)));
+  return combineFactors([
+    {
+      name: 'Face presence',
+      value: faceCount > 0 ? 'Yes' : 'No',
+      benchmark: norms.category
+        ? `${norms.category} thumbnails ${norms.facePresence ? 'usually' : 'rarely'} show faces`
+        : `${findings.faceStats.withFacesPercentage}% show faces`,
+      score: facePresenceScore,
+      weight: weights.facePresence,
+    },
+    {
+      name: 'Face count',
+      value: faceCount,
+      benchmark: roundValue(findings.faceStats.avgFaceCount, 1),
+      score: faceCountScore,
+      weight: 0.15,
+    },
+    {
+      name: 'Prominence',
+      value: faces.coverage,
+      benchmark: roundValue(norms.faceCoverage, 1),
+      score: prominenceScore,
+      weight: weights.faceCoverage,
+    },
+    {
+      name: 'Expression',
+      value: expressions.join(', '),
+      score: expressionScore,
+      weight: 0.25,
+    },
+    {
+      name: 'Eye contact and position',
+      value: facePosition,
+      score: positionScore,
+      weight: 0.15,
+    },
+  ]);
 }
 
 /**
@@ -295,12 +483,13 @@ export function calculateFaceScore(
  * Evaluates overall layout and balance of elements
  */
 export function calculateCompositionScore(
+  composition: ThumbnailFeatures['composition'],
   textScore: number,
   visualScore: number,
-  faceScore: number,
-  layoutType?: 'centered' | 'rule-of-thirds' | 'golden-ratio' | 'other',
-  clutterFactor?: number
-): number {
+  faceScore: number
+): ComponentScore {
+  const { layoutType, clutterFactor } = composition;
+
   // const weights = getScoringWeights();
   
   // Enhanced balance calculation with weighted variance
@@ -349,16 +538,14 @@ export function calculateCompositionScore(
   }
   
   // Enhanced composition formula with more factors
-  const compositionScore = (
-    textScore * 0.25 +
-    visualScore * 0.30 +
-    faceScore * 0.25 +
-    balanceScore * 0.25 +
-    layoutScore * 0.15 +
-    clutterScore * 0.15
-  ) / 1.35; // Normalize by total weights
-  
-  return Math.round(Math.max(0, Math.min(100, compositionScore)));
+  return combineFactors([
+    { name: 'Text', score: textScore, weight: 0.25 },
+    { name: 'Visual', score: visualScore, weight: 0.30 },
+    { name: 'Faces', score: faceScore, weight: 0.25 },
+    { name: 'Balance', score: balanceScore, weight: 0.25 },
+    { name: 'Layout', value: layoutType, benchmark: 'rule-of-thirds', score: layoutScore, weight: 0.15 },
+    { name: 'Clutter', value: clutterFactor !== undefined ? roundValue(clutterFactor) : undefined, benchmark: 0, score: clutterScore, weight: 0.15 },
+  ]);
 }
 
 /**
@@ -369,85 +556,147 @@ export function calculateOverallScore(
   textScore: number,
   visualScore: number,
   faceScore: number,
-  compositionScore: number
-): number {
-  const weights = getScoringWeights();
+  compositionScore: number,
+  weights = getScoringWeights()
+): ComponentScore {
   
   // Calculate weighted average of all scores
-  const finalScore = (
-    textScore * (weights.textPresence + weights.textEntities) / 2 +
-    visualScore * weights.colorScore +
-    faceScore * (weights.facePresence + weights.faceCoverage) / 2 +
-    compositionScore * 0.3  // 30% weight for composition
-  ) / (
-    (weights.textPresence + weights.textEntities) / 2 +
-    weights.colorScore +
-    (weights.facePresence + weights.faceCoverage) / 2 +
-    0.3
-  );
-
-  return Math.round(finalScore);
+  return combineFactors([
+    { name: 'Text', score: textScore, weight: (weights.textPresence + weights.textEntities) / 2 },
+    { name: 'Visual', score: visualScore, weight: weights.colorScore },
+    { name: 'Faces', score: faceScore, weight: (weights.facePresence + weights.faceCoverage) / 2 },
+    { name: 'Composition', score: compositionScore, weight: 0.3 }, // 30% weight for composition
+  ]);
 }
 
+// YouTube's recommended upload size per mode
+export const RECOMMENDED_DIMENSIONS: Record<AnalysisMode, { width: number; height: number; aspectLabel: string }> = {
+  video: { width: 1280, height: 720, aspectLabel: '16:9' },
+  shorts: { width: 1080, height: 1920, aspectLabel: '9:16' },
+};
+
 /**
- * Recalculate all scores for an analysis result
+ * Calculate resolution score
+ * Flags uploads that are smaller than YouTube's recommended size (1280x720, or 1080x1920 for Shorts)
+ * or that have the wrong aspect ratio (YouTube letterboxes or crops those)
  */
-export function recalculateScores(analysisResult: AnalysisResult): AnalysisResult {
-  // Calculate individual scores
-  const textScore = calculateTextScore(
-    analysisResult.analysis.text.detected,
-    analysisResult.analysis.text.readability,
-    analysisResult.analysis.text.fontSizes,
-    analysisResult.analysis.text.fontContrast
-  );
+export function calculateResolutionScore(
+  image: ThumbnailFeatures['image'],
+  mode: AnalysisMode = 'video'
+): ComponentScore {
+  const { width, height } = image;
+  if (!width || !height) {
+    return { score: 0, factors: [{ name: 'Unknown dimensions', score: 0, weight: 1, contribution: 0 }] };
+  }
 
-  const visualScore = calculateVisualScore(
-    analysisResult.analysis.colors.dominant,
-    analysisResult.analysis.colors.contrast,
-    analysisResult.analysis.colors.brightnessFactor,
-    analysisResult.analysis.colors.saturationLevel
-  );
+  const recommended = RECOMMENDED_DIMENSIONS[mode];
+  const recommendedWidth = recommended.width;
+  const recommendedAspectRatio = recommended.width / recommended.height;
 
-  const faceScore = calculateFaceScore(
-    analysisResult.analysis.faces.count,
-    analysisResult.analysis.faces.expressions,
-    analysisResult.analysis.faces.prominence,
-    analysisResult.analysis.faces.eyeContact,
-    analysisResult.analysis.faces.position
-  );
+  // Small images get upscaled by YouTube and look soft
+  const widthScore = width >= recommendedWidth
+    ? 100
+    : 40 + (width / recommendedWidth) * 60;
 
-  const compositionScore = calculateCompositionScore(
-    textScore,
-    visualScore,
-    faceScore,
-    analysisResult.analysis.layoutType,
-    analysisResult.analysis.clutterFactor
-  );
+  // Allow a little slack for off-by-a-few-pixels exports
+  const aspectDeviation = Math.abs(width / height - recommendedAspectRatio) / recommendedAspectRatio;
+  const aspectScore = aspectDeviation <= 0.02
+    ? 100
+    : Math.max(0, 100 - aspectDeviation * 200);
 
-  const overallScore = calculateOverallScore(
-    textScore,
-    visualScore,
-    faceScore,
-    compositionScore
+  // Either problem on its own is enough to flag the thumbnail, so the
+  // score is the worse of the two rather than a weighted average
+  const widthLimits = widthScore <= aspectScore;
+  return {
+    score: Math.round(Math.min(widthScore, aspectScore)),
+    factors: [
+      { name: 'Width', value: width, benchmark: recommendedWidth, score: Math.round(widthScore), weight: 1, contribution: widthLimits ? Math.round(widthScore) : 0 },
+      {
+        name: 'Aspect ratio',
+        value: roundValue(width / height),
+        benchmark: roundValue(recommendedAspectRatio),
+        score: Math.round(aspectScore),
+        weight: 1,
+        contribution: widthLimits ? 0 : Math.round(aspectScore),
+      },
+    ],
+  };
+}
+
+/**
+ * Score a feature vector
+ * This is the single scoring engine - vision only measures features
+ */
+export function scoreFeatures(features: ThumbnailFeatures, source: ScoringModelSource = getActiveModel()): {
+  text: ComponentScore;
+  visual: ComponentScore;
+  faces: ComponentScore;
+  composition: ComponentScore;
+  overall: ComponentScore;
+  resolution?: ComponentScore;
+} {
+  // Unknown or missing categories fall back to the overall findings
+  const norms = getScoringNorms(features.category, source, features.mode);
+  const text = calculateTextScore(features.text, norms);
+  const visual = calculateVisualScore(features.colors, features.objects, norms);
+  const faces = calculateFaceScore(features.faces, norms);
+  const composition = calculateCompositionScore(
+    features.composition,
+    text.score,
+    visual.score,
+    faces.score
+  );
+  const overall = calculateOverallScore(
+    text.score,
+    visual.score,
+    faces.score,
+    composition.score,
+    norms.weights
   );
 
-  // Get performance insights
-  // const insights = getPerformanceInsights({
-  //   textEntities: analysisResult.analysis.text.detected.length,
-  //   colorScore: visualScore,
-  //   faceCount: analysisResult.analysis.faces.count,
-  //   faceCoverage: parseFloat(analysisResult.analysis.faces.prominence) || 0
-  // });
+  return {
+    text,
+    visual,
+    faces,
+    composition,
+    overall,
+    // Only uploads are checked - YouTube URLs resolve to YouTube's own downscaled copy
+    resolution: features.image.source === 'upload'
+      ? calculateResolutionScore(features.image, features.mode)
+      : undefined,
+  };
+}
+
+/**
+ * Recalculate all scores for an analysis result
+ * Accepts fresh vision output or a stored result being re-scored,
+ * optionally under a different model version
+ */
+export function recalculateScores<T extends VisionAnalysis>(
+  analysisResult: T,
+  source: ScoringModelSource = getActiveModel()
+): T & Pick<AnalysisResult, 'scores'> {
+  const scored = scoreFeatures(extractFeatures(analysisResult), source);
 
-  // Update the analysis result with new scores and insights
+  // Update the analysis result with new scores
   return {
     ...analysisResult,
     scores: {
-      text: textScore,
-      visual: visualScore,
-      faces: faceScore,
-      composition: compositionScore,
-      overall: overallScore
+      text: scored.text.score,
+      visual: scored.visual.score,
+      faces: scored.faces.score,
+      composition: scored.composition.score,
+      overall: scored.overall.score,
+      resolution: scored.resolution?.score,
+      breakdown: {
+        text: scored.text.factors,
+        visual: scored.visual.factors,
+        faces: scored.faces.factors,
+        composition: scored.composition.factors,
+        overall: scored.overall.factors,
+        resolution: scored.resolution?.factors,
+      },
+      model: { version: source.version, checksum: source.checksum },
     }
   };
-} 
\ No newline at end of file
+}
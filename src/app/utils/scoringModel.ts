@@ -1,5 +1,6 @@
 import scoringModelData from '../../../data/analysis/scoring_model.json';
 import findingsData from '../../../data/analysis/findings.json';
+import type { AnalysisMode } from '../types';
 
 export interface ScoringModel {
   weights: {
@@ -19,6 +20,63 @@ export interface ScoringModel {
     objectCount: number;
   };
   categorySpecific: Record<string, CategoryThresholds>;
+  // Present when the weights were fitted by regression rather than the CTR-difference heuristic
+  fit?: ModelFit;
+  // Engagement measure the weights and thresholds were derived from, estimated CTR when missing
+  target?: EngagementTargetInfo;
+}
+
+export interface EngagementTargetInfo {
+  id: string;
+  description: string;
+  parameters?: Record<string, string | number>;
+  sampleCount: number;
+}
+
+export type WeightKey = keyof ScoringModel['weights'];
+
+/**
+ * A fitted weight and its uncertainty
+ * Coefficients are per standard deviation of the feature, in CTR percentage points
+ */
+export interface WeightEstimate {
+  coefficient: number;
+  standardError: number;
+  // 95% confidence interval of the coefficient
+  confidenceInterval: { lower: number; upper: number };
+  // Normalized weight the scoring functions use, and the same interval on that scale
+  weight: number;
+  weightInterval: { lower: number; upper: number };
+  // False when the feature never varied in the training data, so its weight is zero
+  estimable: boolean;
+  // True when the trait lowered the target. Scores only reward traits, so its weight is clamped to zero
+  // Missing on fits from before negative coefficients were clamped
+  clamped?: boolean;
+}
+
+export interface FitMetrics {
+  rmse: number;
+  mae: number;
+  r2: number;
+  // RMSE of always predicting the mean CTR
+  baselineRmse: number;
+}
+
+/**
+ * How the weights were fitted and how well the fit predicts CTR
+ */
+export interface ModelFit {
+  method: string;
+  target: string;
+  // Ridge penalty chosen by cross-validation
+  lambda: number;
+  seed: number;
+  sampleCount: number;
+  intercept: number;
+  // Only the weights the overall score uses are fitted
+  coefficients: Partial<Record<WeightKey, WeightEstimate>>;
+  crossValidation: FitMetrics & { folds: number };
+  holdout: FitMetrics & { sampleCount: number };
 }
 
 export interface CategoryThresholds {
@@ -32,51 +90,207 @@ export interface CategoryThresholds {
   commonObjects: Array<{ name: string; count: number; percentage: number }>;
 }
 
+export interface FindingsStats {
+  count: number;
+  textStats: {
+    withText: number;
+    withTextPercentage: number;
+    avgTextEntities: number;
+    avgCharCount: number;
+    avgFontSize?: number;
+  };
+  faceStats: {
+    withFaces: number;
+    withFacesPercentage: number;
+    avgFaceCount: number;
+    avgFaceCoverage: number;
+  };
+  colorStats: {
+    avgColorScore: number;
+    mostCommonColorRanges: Array<{
+      range: string;
+      count: number;
+      percentage: number;
+    }>;
+  };
+  objectStats?: {
+    avgObjectCount: number;
+    mostCommonObjects: Array<{
+      name: string;
+      count: number;
+      percentage: number;
+    }>;
+  };
+}
+
+export type FindingsDifferences = Record<
+  'textPresence' | 'facePresence' | 'faceCoverage' | 'colorScore' | 'textEntities' | 'objectCount',
+  { difference: number; highCTR: number; lowCTR: number }
+>;
+
 export interface FindingsData {
-  overall: {
-    count: number;
-    textStats: {
-      withText: number;
-      withTextPercentage: number;
-      avgTextEntities: number;
-      avgCharCount: number;
-      avgFontSize?: number;
-    };
-    faceStats: {
-      withFaces: number;
-      withFacesPercentage: number;
-      avgFaceCount: number;
-      avgFaceCoverage: number;
-    };
-    colorStats: {
-      avgColorScore: number;
-      mostCommonColorRanges: Array<{
-        range: string;
-        count: number;
-        percentage: number;
-      }>;
-    };
+  overall: FindingsStats;
+  byCategory?: Record<string, FindingsStats>;
+  comparison?: {
+    highCTR: FindingsStats;
+    lowCTR: FindingsStats;
+    differences: FindingsDifferences;
   };
 }
 
+/**
+ * Identifies the scoring model that produced a set of scores
+ */
+export interface ModelVersion {
+  version: string;
+  // sha256 of the model and findings, so edited files are caught
+  checksum: string;
+}
+
+/**
+ * A scoring model together with the findings it was built from
+ */
+export interface ScoringModelSource extends ModelVersion {
+  model: ScoringModel;
+  findings: FindingsData;
+}
+
+// The model bundled with the app
+const activeModel: ScoringModelSource = {
+  version: scoringModelData.version,
+  checksum: scoringModelData.checksum,
+  model: scoringModelData,
+  findings: findingsData,
+};
+
+// Get the bundled scoring model
+export function getActiveModel(): ScoringModelSource {
+  return activeModel;
+}
+
+// Get the version of the bundled scoring model
+export function getModelVersion(): ModelVersion {
+  return { version: activeModel.version, checksum: activeModel.checksum };
+}
+
+/**
+ * Scoring weights, with the fit's uncertainty when the weights were fitted
+ */
+export type ScoringWeights = ScoringModel['weights'] & {
+  uncertainty?: ModelFit['coefficients'];
+};
+
 // Get the scoring weights for different aspects
-export function getScoringWeights(): ScoringModel['weights'] {
-  return scoringModelData.weights;
+export function getScoringWeights(source: ScoringModelSource = activeModel): ScoringWeights {
+  const { weights, fit } = source.model;
+  return fit ? { ...weights, uncertainty: fit.coefficients } : weights;
 }
 
 // Get the thresholds for different metrics
-export function getThresholds(): ScoringModel['thresholds'] {
-  return scoringModelData.thresholds;
+export function getThresholds(source: ScoringModelSource = activeModel): ScoringModel['thresholds'] {
+  return source.model.thresholds;
 }
 
 // Get category-specific thresholds
-export function getCategoryThresholds(category: string): CategoryThresholds | undefined {
-  return scoringModelData.categorySpecific[category as keyof typeof scoringModelData.categorySpecific];
+export function getCategoryThresholds(
+  category: string,
+  source: ScoringModelSource = activeModel
+): CategoryThresholds | undefined {
+  return source.model.categorySpecific[category];
+}
+
+/**
+ * Benchmarks the scoring functions compare against
+ * Uses the category's thresholds when we have them, otherwise the overall findings
+ */
+export interface ScoringNorms {
+  // Set only when category-specific thresholds were applied
+  category?: string;
+  // Set only when the Shorts adjustments were applied
+  mode?: AnalysisMode;
+  weights: ScoringModel['weights'];
+  overall: FindingsStats;
+  textPresence: boolean;
+  avgTextEntities: number;
+  // Typical text line height as a percentage of the frame height
+  fontSize: number;
+  facePresence: boolean;
+  faceCoverage: number;
+  commonColors: Array<{ range: string; percentage: number }>;
+  commonObjects: Array<{ name: string; percentage: number }>;
+}
+
+/**
+ * The findings come from 16:9 video thumbnails, so Shorts covers get their own text and face thresholds
+ */
+export const SHORTS_THRESHOLDS = {
+  // The title and subscribe button sit over the bottom of the cover, so covers carry a few words at most
+  maxTextEntities: 3,
+  // A 9:16 frame is 16/9 times taller for the same width, so the same type is a smaller share of its height
+  fontSizeScale: 9 / 16,
+  // Covers are seen full screen on phones, where a face filling 15% of the frame is a close-up
+  faceCoverage: 15,
+};
+
+// Get the scoring norms for a video category, falling back to overall findings
+export function getScoringNorms(
+  category?: string,
+  source: ScoringModelSource = activeModel,
+  mode: AnalysisMode = 'video'
+): ScoringNorms {
+  const norms = getVideoScoringNorms(category, source);
+  if (mode !== 'shorts') return norms;
+
+  return {
+    ...norms,
+    mode,
+    avgTextEntities: Math.min(norms.avgTextEntities, SHORTS_THRESHOLDS.maxTextEntities),
+    fontSize: Math.round(norms.fontSize * SHORTS_THRESHOLDS.fontSizeScale * 10) / 10,
+    faceCoverage: SHORTS_THRESHOLDS.faceCoverage,
+  };
+}
+
+function getVideoScoringNorms(category: string | undefined, source: ScoringModelSource): ScoringNorms {
+  const findings = getOverallFindings(source);
+  const weights = getScoringWeights(source);
+  const thresholds = category ? getCategoryThresholds(category, source) : undefined;
+  const fontSize = findings.textStats.avgFontSize || 12;
+
+  if (!thresholds) {
+    return {
+      weights,
+      overall: findings,
+      textPresence: getThresholds(source).textPresence,
+      avgTextEntities: findings.textStats.avgTextEntities,
+      fontSize,
+      // Without a category we assume faces help, as most successful thumbnails have them
+      facePresence: true,
+      faceCoverage: findings.faceStats.avgFaceCoverage,
+      commonColors: findings.colorStats.mostCommonColorRanges,
+      commonObjects: [],
+    };
+  }
+
+  return {
+    category,
+    weights,
+    overall: findings,
+    textPresence: thresholds.textPresence,
+    avgTextEntities: thresholds.textEntities || findings.textStats.avgTextEntities,
+    fontSize,
+    facePresence: thresholds.facePresence,
+    // Coverage wasn't measured for every category
+    faceCoverage: thresholds.faceCoverage || findings.faceStats.avgFaceCoverage,
+    commonColors: thresholds.commonColors.length > 0
+      ? thresholds.commonColors
+      : findings.colorStats.mostCommonColorRanges,
+    commonObjects: thresholds.commonObjects,
+  };
 }
 
 // Get overall findings statistics
-export function getOverallFindings(): FindingsData['overall'] {
-  return findingsData.overall;
+export function getOverallFindings(source: ScoringModelSource = activeModel): FindingsData['overall'] {
+  return source.findings.overall;
 }
 
 // Calculate a normalized score based on a value and the findings data
@@ -92,8 +306,8 @@ export function calculateNormalizedScore(
 }
 
 // Get recommended color ranges based on findings
-export function getRecommendedColors(): Array<{ range: string; percentage: number }> {
-  return findingsData.overall.colorStats.mostCommonColorRanges
+export function getRecommendedColors(source: ScoringModelSource = activeModel): Array<{ range: string; percentage: number }> {
+  return getOverallFindings(source).colorStats.mostCommonColorRanges
     .filter(color => color.percentage > 10) // Only include significant colors
     .sort((a, b) => b.percentage - a.percentage);
 }
@@ -104,8 +318,8 @@ export function checkMetricsThresholds(metrics: {
   colorScore: number;
   faceCount: number;
   faceCoverage: number;
-}): Record<string, boolean> {
-  const thresholds = getThresholds();
+}, source: ScoringModelSource = activeModel): Record<string, boolean> {
+  const thresholds = getThresholds(source);
   return {
     text: metrics.textEntities >= thresholds.textEntities,
     color: metrics.colorScore >= thresholds.colorScore,
@@ -114,15 +328,15 @@ export function checkMetricsThresholds(metrics: {
   };
 }
 
-// Get performance insights based on metrics
+// Get performance insights based on metrics, against the global findings or a benchmark profile's
 export function getPerformanceInsights(metrics: {
   textEntities: number;
   colorScore: number;
   faceCount: number;
   faceCoverage: number;
-}): string[] {
+}, source: ScoringModelSource = activeModel): string[] {
   const insights: string[] = [];
-  const findings = getOverallFindings();
+  const findings = getOverallFindings(source);
 //   const thresholds = getThresholds();
 
   if (metrics.textEntities < findings.textStats.avgTextEntities) {
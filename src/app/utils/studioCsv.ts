@@ -0,0 +1,115 @@
+/**
+ * Per-video metrics from a YouTube Studio analytics export
+ */
+export interface StudioVideoMetrics {
+  videoId: string;
+  title?: string;
+  publishedAt?: string;
+  views?: number;
+  impressions?: number;
+  // Impressions click-through rate, as a percentage
+  ctr?: number;
+}
+
+// Studio header names vary a little between export types,
+// so columns are matched on a lowercase prefix
+const COLUMN_PREFIXES: Record<keyof StudioVideoMetrics, string> = {
+  videoId: 'content',
+  title: 'video title',
+  publishedAt: 'video publish time',
+  views: 'views',
+  impressions: 'impressions',
+  ctr: 'impressions click-through rate',
+};
+
+/**
+ * Split CSV text into rows of fields
+ * Handles quoted fields with commas, escaped quotes and line breaks
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+// Studio writes numbers like "1,234" and leaves blanks for missing values
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = parseFloat(value.replace(/,/g, ''));
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Parse a YouTube Studio "Content" table export (Table data.csv)
+ * The "Total" row and rows without a video id are skipped
+ */
+export function parseStudioCsv(text: string): StudioVideoMetrics[] {
+  // Strip the byte order mark Studio adds
+  const [header, ...rows] = parseCsv(text.replace(/^﻿/, ''));
+  if (!header) {
+    throw new Error('The CSV file is empty');
+  }
+
+  const normalizedHeader = header.map(name => name.trim().toLowerCase());
+  const findColumn = (prefix: string) => normalizedHeader.findIndex(name => name.startsWith(prefix));
+  const columns = Object.fromEntries(
+    Object.entries(COLUMN_PREFIXES).map(([key, prefix]) => [key, findColumn(prefix)])
+  ) as Record<keyof StudioVideoMetrics, number>;
+
+  // "impressions" also prefixes the CTR column, so make sure it resolved to the count
+  if (columns.impressions === columns.ctr) {
+    columns.impressions = normalizedHeader.findIndex(name => name === 'impressions');
+  }
+
+  if (columns.videoId < 0) {
+    throw new Error('The CSV file has no "Content" column - export the Content table from YouTube Studio');
+  }
+
+  return rows
+    .map(row => ({
+      videoId: row[columns.videoId]?.trim() || '',
+      title: columns.title >= 0 ? row[columns.title]?.trim() : undefined,
+      publishedAt: columns.publishedAt >= 0 ? row[columns.publishedAt]?.trim() || undefined : undefined,
+      views: columns.views >= 0 ? parseNumber(row[columns.views]) : undefined,
+      impressions: columns.impressions >= 0 ? parseNumber(row[columns.impressions]) : undefined,
+      ctr: columns.ctr >= 0 ? parseNumber(row[columns.ctr]) : undefined,
+    }))
+    .filter(metrics => metrics.videoId && metrics.videoId.toLowerCase() !== 'total');
+}
@@ -0,0 +1,147 @@
+import { BoundingBox, TextBlockGeometry } from '../types';
+import { calculateLuminance } from './colorAnalysis';
+import { getGridPosition, intersectionArea, toBoundingBox, unionBox } from './geometry';
+import { decodeImagePixels, DecodedImage, ImageSource } from './pixels';
+import { TextBlock } from './providers';
+
+// Large enough that small captions still cover a few pixel rows
+const SAMPLE_DIMENSION = 640;
+// Share of the darkest/brightest pixels treated as text vs background
+const CONTRAST_QUANTILE = 0.2;
+
+/**
+ * Aggregated text geometry, ready to drop into AnalysisResult.analysis.text
+ */
+export interface TextGeometry {
+  blocks: TextBlockGeometry[];
+  // Line heights as a percentage of the frame height
+  fontSizes: number[];
+  // Area-weighted WCAG contrast between text and its background
+  fontContrast?: number;
+  // Share of the text area (0-1) drawn on top of faces
+  faceOverlap: number;
+}
+
+/**
+ * Merge OCR words into lines
+ * Words belong to the same line when they overlap vertically by at least half
+ * their height and the horizontal gap is no more than ~1.5 characters tall
+ */
+function groupIntoLines(words: Array<{ text: string; box: BoundingBox }>) {
+  const sorted = [...words].sort((a, b) =>
+    (a.box.y + a.box.height / 2) - (b.box.y + b.box.height / 2) || a.box.x - b.box.x
+  );
+  const lines: Array<{ words: string[]; box: BoundingBox }> = [];
+
+  for (const word of sorted) {
+    const line = lines.find(candidate => {
+      const overlap = Math.min(candidate.box.y + candidate.box.height, word.box.y + word.box.height)
+        - Math.max(candidate.box.y, word.box.y);
+      const minHeight = Math.min(candidate.box.height, word.box.height);
+      const gap = word.box.x - (candidate.box.x + candidate.box.width);
+      const maxHeight = Math.max(candidate.box.height, word.box.height);
+      return overlap >= minHeight * 0.5 && gap <= maxHeight * 1.5 && gap >= -maxHeight;
+    });
+
+    if (line) {
+      line.words.push(word.text);
+      line.box = unionBox([line.box, word.box]);
+    } else {
+      lines.push({ words: [word.text], box: word.box });
+    }
+  }
+
+  return lines.map(line => ({ text: line.words.join(' '), box: line.box }));
+}
+
+/**
+ * Contrast between the darkest and brightest pixels inside a box
+ * Text is assumed to sit at one end of the luminance range and its
+ * background at the other, so this works for both light-on-dark and
+ * dark-on-light text. Box coordinates are in source image pixels.
+ */
+export function measureBoxContrast(image: DecodedImage, box: BoundingBox): number | undefined {
+  const scaleX = image.width / image.sourceWidth;
+  const scaleY = image.height / image.sourceHeight;
+  const x0 = Math.max(0, Math.floor(box.x * scaleX));
+  const y0 = Math.max(0, Math.floor(box.y * scaleY));
+  const x1 = Math.min(image.width, Math.ceil((box.x + box.width) * scaleX));
+  const y1 = Math.min(image.height, Math.ceil((box.y + box.height) * scaleY));
+
+  const luminances: number[] = [];
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = (y * image.width + x) * 4;
+      luminances.push(calculateLuminance(image.data[i], image.data[i + 1], image.data[i + 2]));
+    }
+  }
+
+  // Too small to say anything meaningful
+  if (luminances.length < 4) return undefined;
+
+  luminances.sort((a, b) => a - b);
+  const sampleSize = Math.max(1, Math.floor(luminances.length * CONTRAST_QUANTILE));
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const dark = mean(luminances.slice(0, sampleSize));
+  const light = mean(luminances.slice(-sampleSize));
+
+  return Math.round(((light + 0.05) / (dark + 0.05)) * 100) / 100;
+}
+
+/**
+ * Measure size, placement, face overlap and contrast of each line of text
+ */
+export async function analyzeTextGeometry(
+  image: ImageSource,
+  textBlocks: TextBlock[],
+  faceBoxes: BoundingBox[],
+  imageWidth: number,
+  imageHeight: number
+): Promise<TextGeometry> {
+  const words = textBlocks
+    .map(block => ({ text: block.text, box: toBoundingBox(block.boundingBox) }))
+    .filter(word => word.box.width > 0 && word.box.height > 0);
+
+  if (words.length === 0 || !imageWidth || !imageHeight) {
+    return { blocks: [], fontSizes: [], faceOverlap: 0 };
+  }
+
+  const lines = groupIntoLines(words);
+
+  // Pixel sampling needs node-canvas - without it we still report geometry
+  let pixels: DecodedImage | null = null;
+  try {
+    pixels = await decodeImagePixels(image, SAMPLE_DIMENSION);
+  } catch (error) {
+    console.error('Could not decode image for text contrast, skipping:', error);
+  }
+
+  const blocks: TextBlockGeometry[] = lines.map(line => {
+    const area = line.box.width * line.box.height;
+    const overlap = faceBoxes.reduce((sum, face) => sum + intersectionArea(line.box, face), 0);
+
+    return {
+      text: line.text,
+      box: line.box,
+      heightPercent: Math.round((line.box.height / imageHeight) * 1000) / 10,
+      gridPosition: getGridPosition(line.box, imageWidth, imageHeight),
+      faceOverlap: area > 0 ? Math.min(1, overlap / area) : 0,
+      contrast: pixels ? measureBoxContrast(pixels, line.box) : undefined,
+    };
+  });
+
+  const totalArea = blocks.reduce((sum, block) => sum + block.box.width * block.box.height, 0);
+  const measured = blocks.filter(block => block.contrast !== undefined);
+  const measuredArea = measured.reduce((sum, block) => sum + block.box.width * block.box.height, 0);
+
+  return {
+    blocks,
+    fontSizes: blocks.map(block => block.heightPercent),
+    fontContrast: measuredArea > 0
+      ? measured.reduce((sum, block) => sum + block.contrast! * block.box.width * block.box.height, 0) / measuredArea
+      : undefined,
+    faceOverlap: totalArea > 0
+      ? blocks.reduce((sum, block) => sum + block.faceOverlap * block.box.width * block.box.height, 0) / totalArea
+      : 0,
+  };
+}
@@ -1,12 +1,87 @@
+import { VideoMetadata } from '../types';
+
+/**
+ * What a YouTube link points at
+ * Watch links that are part of a playlist are classified as the video, with the playlist kept alongside
+ */
+export type YoutubeLink =
+  | { type: 'video'; videoId: string; playlistId?: string }
+  | { type: 'short'; videoId: string }
+  | { type: 'playlist'; playlistId: string }
+  | { type: 'channel'; channel: ChannelReference }
+  | { type: 'invalid' };
+
+const VIDEO_ID_PATTERN = /^[a-zA-Z0-9_-]{11}$/;
+
+// youtube.com, m.youtube.com, music.youtube.com, youtube-nocookie.com...
+const YOUTUBE_HOST_PATTERN = /(^|\.)youtube(-nocookie)?\.com$/;
+
+/**
+ * Classifies a YouTube link, or a bare video ID or @handle
+ * Handles watch, Shorts, live, embed, youtu.be, music and mobile links, playlists and channel URLs
+ */
+export function classifyYoutubeLink(input: string): YoutubeLink {
+  const trimmed = input.trim();
+  if (VIDEO_ID_PATTERN.test(trimmed)) return { type: 'video', videoId: trimmed };
+  if (trimmed.startsWith('@')) {
+    const channel = parseChannelReference(trimmed);
+    return channel ? { type: 'channel', channel } : { type: 'invalid' };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return { type: 'invalid' };
+  }
+
+  const host = url.hostname.toLowerCase();
+  const [first = '', second = ''] = url.pathname.split('/').filter(segment => segment !== '');
+  const videoId = (id: string | null) => (id && VIDEO_ID_PATTERN.test(id) ? id : null);
+
+  if (host === 'youtu.be' || host === 'www.youtu.be') {
+    const id = videoId(first);
+    return id ? { type: 'video', videoId: id, playlistId: url.searchParams.get('list') || undefined } : { type: 'invalid' };
+  }
+
+  if (!YOUTUBE_HOST_PATTERN.test(host)) return { type: 'invalid' };
+
+  if (first === 'watch') {
+    const id = videoId(url.searchParams.get('v'));
+    const playlistId = url.searchParams.get('list') || undefined;
+    if (id) return { type: 'video', videoId: id, playlistId };
+    return playlistId ? { type: 'playlist', playlistId } : { type: 'invalid' };
+  }
+
+  if (first === 'shorts') {
+    const id = videoId(second);
+    return id ? { type: 'short', videoId: id } : { type: 'invalid' };
+  }
+
+  if (['live', 'embed', 'v', 'e'].includes(first)) {
+    const id = videoId(second);
+    return id ? { type: 'video', videoId: id } : { type: 'invalid' };
+  }
+
+  if (first === 'playlist') {
+    const playlistId = url.searchParams.get('list');
+    return playlistId ? { type: 'playlist', playlistId } : { type: 'invalid' };
+  }
+
+  if (first.startsWith('@') || ['channel', 'user', 'c'].includes(first)) {
+    const channel = parseChannelReference(`youtube.com${url.pathname}`);
+    return channel ? { type: 'channel', channel } : { type: 'invalid' };
+  }
+
+  return { type: 'invalid' };
+}
+
 /**
- * Extracts the video ID from a YouTube URL
+ * Extracts the video ID from a YouTube URL, including Shorts
  */
 export function extractYoutubeVideoId(url: string): string | null {
-  // Match YouTube URL patterns
-  const regExp = /^.*((youtu.be\/)|(v\/)|(\/u\/\w\/)|(embed\/)|(watch\?))\??v?=?([^#&?]*).*/;
-  const match = url.match(regExp);
-  
-  return (match && match[7].length === 11) ? match[7] : null;
+  const link = classifyYoutubeLink(url);
+  return link.type === 'video' || link.type === 'short' ? link.videoId : null;
 }
 
 /**
@@ -22,6 +97,14 @@ export function getYoutubeThumbnailUrls(videoId: string) {
   };
 }
 
+/**
+ * Gets the 9:16 cover YouTube shows for a Short in the Shorts feed and shelf
+ * The regular thumbnail URLs return a 16:9 frame with the cover letterboxed into it
+ */
+export function getShortsCoverUrl(videoId: string): string {
+  return `https://i.ytimg.com/vi/${videoId}/oardefault.jpg`;
+}
+
 /**
  * Fetches the best available thumbnail for a YouTube video
  */
@@ -54,4 +137,310 @@ export async function getBestThumbnail(videoId: string): Promise<string> {
     console.error('Error fetching YouTube thumbnail:', error);
     return thumbnails.high;
   }
-} 
\ No newline at end of file
+} 
+/**
+ * YouTube's video categories, keyed by the categoryId the Data API returns
+ */
+export const YOUTUBE_CATEGORIES: Record<string, string> = {
+  '1': 'Film & Animation',
+  '2': 'Autos & Vehicles',
+  '10': 'Music',
+  '15': 'Pets & Animals',
+  '17': 'Sports',
+  '19': 'Travel & Events',
+  '20': 'Gaming',
+  '22': 'People & Blogs',
+  '23': 'Comedy',
+  '24': 'Entertainment',
+  '25': 'News & Politics',
+  '26': 'Howto & Style',
+  '27': 'Education',
+  '28': 'Science & Technology',
+  '29': 'Nonprofits & Activism',
+};
+
+/**
+ * Extracts the video ID from a YouTube thumbnail image URL
+ * e.g. https://img.youtube.com/vi/<id>/maxresdefault.jpg
+ */
+export function extractVideoIdFromThumbnailUrl(url: string): string | null {
+  const match = url.match(/(?:img\.youtube\.com|i\.ytimg\.com)\/vi(?:_webp)?\/([a-zA-Z0-9_-]{11})\//);
+  return match ? match[1] : null;
+}
+
+/**
+ * The parts of the YouTube Data API the app uses
+ * Implemented over googleapis in production and by a recorded-fixture stand-in offline
+ */
+export interface YouTubeDataClient {
+  listChannels(params: { id?: string; forHandle?: string; forUsername?: string }): Promise<YouTubeListResponse<YouTubeChannelResource>>;
+  listPlaylistItems(params: { playlistId: string; maxResults?: number; pageToken?: string }): Promise<YouTubeListResponse<YouTubePlaylistItemResource>>;
+  listVideos(params: { id: string[] }): Promise<YouTubeListResponse<YouTubeVideoResource>>;
+}
+
+export interface YouTubeListResponse<T> {
+  items?: T[];
+  nextPageToken?: string | null;
+}
+
+export interface YouTubeChannelResource {
+  id?: string | null;
+  snippet?: { title?: string | null; customUrl?: string | null } | null;
+  contentDetails?: { relatedPlaylists?: { uploads?: string | null } | null } | null;
+}
+
+export interface YouTubePlaylistItemResource {
+  contentDetails?: { videoId?: string | null } | null;
+}
+
+export interface YouTubeVideoResource {
+  id?: string | null;
+  snippet?: {
+    title?: string | null;
+    channelId?: string | null;
+    channelTitle?: string | null;
+    categoryId?: string | null;
+    publishedAt?: string | null;
+    thumbnails?: { high?: { url?: string | null } } | null;
+  } | null;
+  statistics?: { viewCount?: string | null; likeCount?: string | null; commentCount?: string | null } | null;
+  contentDetails?: { duration?: string | null } | null;
+}
+
+/**
+ * A channel as typed by the user: an @handle, a channel ID, or a channel, user or custom URL
+ */
+export type ChannelReference =
+  | { type: 'handle'; value: string }
+  | { type: 'id'; value: string }
+  | { type: 'username'; value: string }
+  | { type: 'custom'; value: string };
+
+/**
+ * Thrown when a channel reference doesn't resolve to a channel
+ */
+export class ChannelNotFoundError extends Error {
+  constructor(message: string = 'Channel not found') {
+    super(message);
+    this.name = 'ChannelNotFoundError';
+  }
+}
+
+/**
+ * Parses a channel URL or handle
+ * e.g. @mkbhd, youtube.com/@mkbhd/videos, youtube.com/channel/UC..., youtube.com/user/name, youtube.com/c/name
+ */
+export function parseChannelReference(input: string): ChannelReference | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  const idMatch = trimmed.match(/(?:^|\/channel\/)(UC[a-zA-Z0-9_-]{22})(?:[/?#]|$)/);
+  if (idMatch) return { type: 'id', value: idMatch[1] };
+
+  const handleMatch = trimmed.match(/(?:^|youtube\.com\/)@([a-zA-Z0-9._-]{3,30})(?:[/?#]|$)/);
+  if (handleMatch) return { type: 'handle', value: handleMatch[1] };
+
+  const userMatch = trimmed.match(/youtube\.com\/user\/([a-zA-Z0-9._-]+)(?:[/?#]|$)/);
+  if (userMatch) return { type: 'username', value: userMatch[1] };
+
+  const customMatch = trimmed.match(/youtube\.com\/c\/([a-zA-Z0-9._-]+)(?:[/?#]|$)/);
+  if (customMatch) return { type: 'custom', value: customMatch[1] };
+
+  // A bare name is treated as a handle
+  if (/^[a-zA-Z0-9._-]{3,30}$/.test(trimmed)) return { type: 'handle', value: trimmed };
+
+  return null;
+}
+
+/**
+ * Parses an ISO 8601 duration like PT1H2M3S to seconds
+ */
+export function parseIsoDuration(duration: string): number {
+  const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
+  if (!match) return 0;
+  return (parseInt(match[1]) || 0) * 3600 + (parseInt(match[2]) || 0) * 60 + (parseInt(match[3]) || 0);
+}
+
+/**
+ * A video's metadata and statistics from the Data API
+ */
+export interface ChannelVideo {
+  id: string;
+  title: string;
+  channelTitle: string;
+  categoryId?: string;
+  publishedAt: string;
+  viewCount: number;
+  likeCount: number;
+  commentCount: number;
+  thumbnailUrl: string;
+  durationSeconds: number;
+}
+
+function toChannelVideo(video: YouTubeVideoResource): ChannelVideo | null {
+  if (!video.id || !video.snippet) return null;
+
+  return {
+    id: video.id,
+    title: video.snippet.title || '',
+    channelTitle: video.snippet.channelTitle || '',
+    categoryId: video.snippet.categoryId || undefined,
+    publishedAt: video.snippet.publishedAt || '',
+    viewCount: parseInt(video.statistics?.viewCount || '0'),
+    likeCount: parseInt(video.statistics?.likeCount || '0'),
+    commentCount: parseInt(video.statistics?.commentCount || '0'),
+    thumbnailUrl: video.snippet.thumbnails?.high?.url || getYoutubeThumbnailUrls(video.id).high,
+    durationSeconds: parseIsoDuration(video.contentDetails?.duration || ''),
+  };
+}
+
+/**
+ * Fetches a video's title and channel from YouTube's oEmbed endpoint, which needs no API key
+ */
+export async function fetchOembedMetadata(videoId: string): Promise<VideoMetadata | null> {
+  try {
+    const watchUrl = `https://www.youtube.com/watch?v=${videoId}`;
+    const response = await fetch(`https://www.youtube.com/oembed?url=${encodeURIComponent(watchUrl)}&format=json`);
+    if (!response.ok) {
+      console.error(`YouTube oEmbed returned ${response.status} for video ${videoId}`);
+      return null;
+    }
+
+    const data = await response.json();
+    if (typeof data.title !== 'string') return null;
+
+    return {
+      videoId,
+      title: data.title,
+      channelTitle: typeof data.author_name === 'string' ? data.author_name : '',
+      channelUrl: typeof data.author_url === 'string' ? data.author_url : undefined,
+      source: 'oembed',
+    };
+  } catch (error) {
+    console.error('Error fetching YouTube oEmbed metadata:', error);
+    return null;
+  }
+}
+
+/**
+ * Fetches a video's metadata through the Data API client when there is one, falling back to oEmbed
+ * Returns null when neither has the video
+ */
+export async function fetchVideoMetadata(
+  videoId: string,
+  client: YouTubeDataClient | null
+): Promise<VideoMetadata | null> {
+  if (client) {
+    try {
+      const response = await client.listVideos({ id: [videoId] });
+      const video = response.items?.[0];
+
+      if (video?.snippet) {
+        const channelId = video.snippet.channelId || undefined;
+        return {
+          videoId,
+          title: video.snippet.title || '',
+          channelTitle: video.snippet.channelTitle || '',
+          channelId,
+          channelUrl: channelId ? `https://www.youtube.com/channel/${channelId}` : undefined,
+          category: video.snippet.categoryId ? YOUTUBE_CATEGORIES[video.snippet.categoryId] : undefined,
+          durationSeconds: video.contentDetails?.duration ? parseIsoDuration(video.contentDetails.duration) : undefined,
+          publishedAt: video.snippet.publishedAt || undefined,
+          source: 'data-api',
+        };
+      }
+    } catch (error) {
+      console.error('YouTube Data API lookup failed, falling back to oEmbed:', error);
+    }
+  }
+
+  return fetchOembedMetadata(videoId);
+}
+
+/**
+ * Fetches videos by ID, 50 per request as the Data API allows
+ */
+export async function fetchVideosById(client: YouTubeDataClient, ids: string[]): Promise<ChannelVideo[]> {
+  const videos: ChannelVideo[] = [];
+  for (let i = 0; i < ids.length; i += 50) {
+    const response = await client.listVideos({ id: ids.slice(i, i + 50) });
+    (response.items || []).map(toChannelVideo).forEach(video => video && videos.push(video));
+  }
+  return videos;
+}
+
+/**
+ * Fetches the videos in a playlist, in playlist order
+ * Private and deleted videos are left out since the Data API returns no details for them
+ */
+export async function fetchPlaylistVideos(
+  client: YouTubeDataClient,
+  playlistId: string,
+  maxVideos: number = 50
+): Promise<ChannelVideo[]> {
+  const ids: string[] = [];
+  let pageToken: string | undefined = undefined;
+
+  do {
+    const page: YouTubeListResponse<YouTubePlaylistItemResource> = await client.listPlaylistItems({
+      playlistId,
+      maxResults: 50,
+      pageToken,
+    });
+    (page.items || [])
+      .map(item => item.contentDetails?.videoId)
+      .forEach(id => id && ids.length < maxVideos && ids.push(id));
+    pageToken = page.nextPageToken || undefined;
+  } while (pageToken && ids.length < maxVideos);
+
+  const videos = await fetchVideosById(client, ids);
+  return ids
+    .map(id => videos.find(video => video.id === id))
+    .filter((video): video is ChannelVideo => !!video);
+}
+
+/**
+ * Looks up the channel a reference points to
+ * The Data API can't look up /c/ custom URLs, but most of them became the channel's handle,
+ * so they are tried as a handle and then as a legacy username
+ */
+async function findChannel(client: YouTubeDataClient, reference: ChannelReference): Promise<YouTubeChannelResource | undefined> {
+  if (reference.type === 'custom') {
+    const byHandle = await client.listChannels({ forHandle: reference.value });
+    if (byHandle.items?.[0]) return byHandle.items[0];
+    return (await client.listChannels({ forUsername: reference.value })).items?.[0];
+  }
+
+  const channels = await client.listChannels(
+    reference.type === 'id' ? { id: reference.value }
+      : reference.type === 'handle' ? { forHandle: reference.value }
+      : { forUsername: reference.value }
+  );
+  return channels.items?.[0];
+}
+
+/**
+ * Fetches a channel's most recent uploads, newest first
+ * Shorts are included - the Data API doesn't mark them, and their duration no longer tells them apart
+ */
+export async function fetchChannelUploads(
+  client: YouTubeDataClient,
+  reference: ChannelReference,
+  maxVideos: number = 20
+): Promise<{ channelId: string; channelTitle: string; videos: ChannelVideo[] }> {
+  const channel = await findChannel(client, reference);
+  const uploadsPlaylistId = channel?.contentDetails?.relatedPlaylists?.uploads;
+  if (!channel?.id || !uploadsPlaylistId) {
+    throw new ChannelNotFoundError(reference.type === 'custom'
+      ? `No channel found for youtube.com/c/${reference.value}. Use the channel's @handle or /channel/ URL instead`
+      : 'Channel not found');
+  }
+
+  const videos = await fetchPlaylistVideos(client, uploadsPlaylistId, maxVideos);
+
+  return {
+    channelId: channel.id,
+    channelTitle: channel.snippet?.title || videos[0]?.channelTitle || '',
+    videos,
+  };
+}
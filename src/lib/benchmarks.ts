@@ -0,0 +1,141 @@
+import { getActiveModel, ScoringModel, ScoringModelSource } from '@/app/utils/scoringModel';
+import {
+  ChannelVideo,
+  extractYoutubeVideoId,
+  fetchChannelUploads,
+  fetchVideosById,
+  parseChannelReference,
+  YOUTUBE_CATEGORIES,
+  YouTubeDataClient,
+} from '@/app/utils/youtube';
+import { computeFindings } from './pipeline/findings';
+import { featuresFromImage } from './pipeline/dataset';
+import { computeModelChecksum, generateScoringModel } from './pipeline/model';
+import { applyEngagementTarget, createEngagementTarget } from './pipeline/targets';
+import { TrainingFeatures, TrainingSample, VideoRecord } from './pipeline/types';
+
+/**
+ * Competitor channels and videos a benchmark profile is built from, as the user entered them
+ */
+export interface BenchmarkSources {
+  channels: string[];
+  videos: string[];
+}
+
+export interface BenchmarkBuildOptions {
+  client: YouTubeDataClient;
+  // Replaceable so a profile can be built without the image analysis backend
+  extractFeatures?: (imageBuffer: Buffer) => Promise<TrainingFeatures>;
+  // Recent uploads taken from each channel
+  videosPerChannel?: number;
+  asOf?: Date;
+}
+
+export interface BuiltBenchmark {
+  source: ScoringModelSource;
+  sampleCount: number;
+}
+
+// Fewer thumbnails than this can't say much about a niche
+export const MIN_BENCHMARK_SAMPLES = 10;
+
+function toVideoRecord(video: ChannelVideo): VideoRecord {
+  const engagement = video.viewCount > 0 ? ((video.likeCount + video.commentCount) / video.viewCount) * 100 : 0;
+  return {
+    id: video.id,
+    title: video.title,
+    channelTitle: video.channelTitle,
+    categoryId: video.categoryId || '',
+    publishedAt: video.publishedAt,
+    viewCount: video.viewCount,
+    likeCount: video.likeCount,
+    commentCount: video.commentCount,
+    thumbnailUrl: video.thumbnailUrl,
+    duration: `PT${video.durationSeconds}S`,
+    ctr: engagement.toFixed(2),
+  };
+}
+
+/**
+ * Resolve the competitor channels and videos to their video metadata
+ */
+export async function resolveBenchmarkVideos(
+  client: YouTubeDataClient,
+  sources: BenchmarkSources,
+  videosPerChannel: number = 25
+): Promise<ChannelVideo[]> {
+  const videos = new Map<string, ChannelVideo>();
+
+  for (const input of sources.channels) {
+    const reference = parseChannelReference(input);
+    if (!reference) {
+      throw new Error(`Not a channel URL or handle: ${input}`);
+    }
+    const channel = await fetchChannelUploads(client, reference, videosPerChannel);
+    channel.videos.forEach(video => videos.set(video.id, video));
+  }
+
+  const videoIds = sources.videos.map(input => {
+    const id = extractYoutubeVideoId(input) || (/^[a-zA-Z0-9_-]{11}$/.test(input.trim()) ? input.trim() : null);
+    if (!id) {
+      throw new Error(`Not a YouTube video URL: ${input}`);
+    }
+    return id;
+  });
+  (await fetchVideosById(client, videoIds)).forEach(video => videos.set(video.id, video));
+
+  return [...videos.values()];
+}
+
+/**
+ * Build a private findings and threshold profile from competitor thumbnails
+ * Videos are ranked by views per hour since publishing; the scoring weights stay the
+ * global model's, since a few dozen thumbnails is too few to fit them reliably
+ */
+export async function buildBenchmarkProfile(
+  sources: BenchmarkSources,
+  { client, extractFeatures = featuresFromImage, videosPerChannel = 25, asOf = new Date() }: BenchmarkBuildOptions
+): Promise<BuiltBenchmark> {
+  const videos = await resolveBenchmarkVideos(client, sources, videosPerChannel);
+  console.log(`Building benchmark profile from ${videos.length} videos`);
+
+  const samples: TrainingSample[] = [];
+  for (const video of videos) {
+    try {
+      const response = await fetch(video.thumbnailUrl);
+      if (!response.ok) {
+        throw new Error(`Thumbnail request returned ${response.status}`);
+      }
+      samples.push({
+        video: toVideoRecord(video),
+        categoryName: (video.categoryId && YOUTUBE_CATEGORIES[video.categoryId]) || 'Unknown',
+        features: await extractFeatures(Buffer.from(await response.arrayBuffer())),
+        target: 0,
+      });
+    } catch (error) {
+      console.warn(`Skipping video ${video.id} in benchmark profile:`, error);
+    }
+  }
+
+  const { samples: targeted, info } = await applyEngagementTarget(
+    samples,
+    createEngagementTarget('views-per-hour', { asOf })
+  );
+  if (targeted.length < MIN_BENCHMARK_SAMPLES) {
+    throw new Error(`A benchmark needs at least ${MIN_BENCHMARK_SAMPLES} analyzable videos, found ${targeted.length}`);
+  }
+
+  const findings = computeFindings(targeted);
+  const generated = generateScoringModel(findings, targeted, { weightMethod: 'heuristic', target: info });
+  const model: ScoringModel = { ...generated, weights: getActiveModel().model.weights };
+
+  return {
+    source: {
+      version: `benchmark-${asOf.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15)}`,
+      checksum: computeModelChecksum(model, findings),
+      model,
+      findings,
+    },
+    sampleCount: targeted.length,
+  };
+}
@@ -0,0 +1,51 @@
+import { analyzeThumbnail } from '@/app/utils/analysis';
+import { auditChannel, ChannelAudit } from '@/app/utils/channelAudit';
+import { ChannelReference, ChannelVideo, fetchChannelUploads, YOUTUBE_CATEGORIES, YouTubeDataClient } from '@/app/utils/youtube';
+import { AnalysisResult } from '@/app/types';
+
+export interface ChannelAuditOptions {
+  client: YouTubeDataClient;
+  // Replaceable so an audit can run without the image analysis backend
+  analyze?: (url: string, file?: File, category?: string) => Promise<AnalysisResult>;
+  maxVideos?: number;
+  // Thumbnails analyzed at the same time
+  concurrency?: number;
+  asOf?: Date;
+}
+
+/**
+ * Fetch a channel's recent uploads, analyze every thumbnail and audit them
+ * Thumbnails that fail to analyze are left out of the audit
+ */
+export async function runChannelAudit(
+  reference: ChannelReference,
+  { client, analyze = analyzeThumbnail, maxVideos = 20, concurrency = 3, asOf = new Date() }: ChannelAuditOptions
+): Promise<ChannelAudit> {
+  const channel = await fetchChannelUploads(client, reference, maxVideos);
+  if (channel.videos.length === 0) {
+    throw new Error('The channel has no uploads to audit');
+  }
+
+  console.log(`Auditing ${channel.videos.length} thumbnails from ${channel.channelTitle}`);
+
+  const analyzed: Array<{ video: ChannelVideo; result: AnalysisResult }> = [];
+  for (let i = 0; i < channel.videos.length; i += concurrency) {
+    const group = channel.videos.slice(i, i + concurrency);
+    const results = await Promise.all(group.map(async video => {
+      try {
+        const category = video.categoryId ? YOUTUBE_CATEGORIES[video.categoryId] : undefined;
+        return { video, result: await analyze(video.thumbnailUrl, undefined, category) };
+      } catch (error) {
+        console.warn(`Skipping video ${video.id} in channel audit:`, error);
+        return null;
+      }
+    }));
+    results.forEach(entry => entry && analyzed.push(entry));
+  }
+
+  if (analyzed.length === 0) {
+    throw new Error('None of the channel\'s thumbnails could be analyzed');
+  }
+
+  return auditChannel(channel, analyzed, asOf);
+}
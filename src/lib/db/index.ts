@@ -1,4 +1,7 @@
 import { getConnectionPool } from './connection';
+import { StudioVideoMetrics } from '@/app/utils/studioCsv';
+import { AnalysisJob, AnalysisJobItem, AnalysisMode, Recommendation, ThumbnailComparison, VisionAnalysis } from '@/app/types';
+import { ScoringModelSource } from '@/app/utils/scoringModel';
 
 export async function getUserDailyAnalysisCount(userId: string, date: Date = new Date()): Promise<number> {
   // Format date as YYYY-MM-DD
@@ -24,7 +27,7 @@ export async function getUserDailyAnalysisCount(userId: string, date: Date = new
   }
 }
 
-export async function incrementUserDailyAnalysisCount(userId: string, date: Date = new Date()): Promise<boolean> {
+export async function incrementUserDailyAnalysisCount(userId: string, date: Date = new Date(), amount: number = 1): Promise<boolean> {
   // Format date as YYYY-MM-DD
   const formattedDate = date.toISOString().split('T')[0];
   
@@ -32,10 +35,10 @@ export async function incrementUserDailyAnalysisCount(userId: string, date: Date
     const pool = getConnectionPool();
     await pool!.query(
       `INSERT INTO user_analyses (user_id, analysis_date, count) 
-       VALUES ($1, $2, 1)
+       VALUES ($1, $2, $3)
        ON CONFLICT (user_id, analysis_date) 
-       DO UPDATE SET count = user_analyses.count + 1, updated_at = CURRENT_TIMESTAMP`,
-      [userId, formattedDate]
+       DO UPDATE SET count = user_analyses.count + $3, updated_at = CURRENT_TIMESTAMP`,
+      [userId, formattedDate, amount]
     );
     
     console.log(`Successfully incremented analysis count for user ${userId}`);
@@ -57,10 +60,10 @@ export async function incrementUserDailyAnalysisCount(userId: string, date: Date
         // Try the insert again
         await pool!.query(
           `INSERT INTO user_analyses (user_id, analysis_date, count) 
-           VALUES ($1, $2, 1)
+           VALUES ($1, $2, $3)
            ON CONFLICT (user_id, analysis_date) 
-           DO UPDATE SET count = user_analyses.count + 1, updated_at = CURRENT_TIMESTAMP`,
-          [userId, formattedDate]
+           DO UPDATE SET count = user_analyses.count + $3, updated_at = CURRENT_TIMESTAMP`,
+          [userId, formattedDate, amount]
         );
         
         console.log(`Successfully added count column and incremented analysis count for user ${userId}`);
@@ -75,11 +78,22 @@ export async function incrementUserDailyAnalysisCount(userId: string, date: Date
   }
 }
 
-export async function hasUserExceededDailyLimit(userId: string, date: Date = new Date(), limit: number = 1): Promise<boolean> {
+// Analyses each user gets per day
+export const DAILY_ANALYSIS_LIMIT = 1;
+
+export async function hasUserExceededDailyLimit(userId: string, date: Date = new Date(), limit: number = DAILY_ANALYSIS_LIMIT): Promise<boolean> {
   const count = await getUserDailyAnalysisCount(userId, date);
   return count >= limit;
 }
 
+/**
+ * How many analyses the user has left today
+ */
+export async function getRemainingDailyAnalyses(userId: string, date: Date = new Date(), limit: number = DAILY_ANALYSIS_LIMIT): Promise<number> {
+  const count = await getUserDailyAnalysisCount(userId, date);
+  return Math.max(0, limit - count);
+}
+
 /**
  * Get the timestamp of when the user last analyzed a thumbnail
  */
@@ -134,11 +148,13 @@ export async function setLastAnalysisTimestamp(userId: string): Promise<boolean>
  * Save the thumbnail analysis results to the database
  * @param userId The ID of the user
  * @param analysisData The full analysis result object
+ * @param countsTowardsLimit Whether saving uses up one of the user's daily analyses
  * @returns The ID of the saved analysis or null if the save failed
  */
 export async function saveThumbnailAnalysis(
   userId: string, 
-  analysisData: any
+  analysisData: any,
+  countsTowardsLimit: boolean = true
 ): Promise<number | null> {
   // Format date as YYYY-MM-DD for the foreign key reference
   const formattedDate = new Date().toISOString().split('T')[0];
@@ -147,7 +163,11 @@ export async function saveThumbnailAnalysis(
     const pool = getConnectionPool();
     
     // Ensure the user has an entry in user_analyses for today to satisfy the foreign key
-    await incrementUserDailyAnalysisCount(userId);
+    if (countsTowardsLimit) {
+      await incrementUserDailyAnalysisCount(userId);
+    } else {
+      await setLastAnalysisTimestamp(userId);
+    }
     
     // Extract data from the analysis object, ensuring it matches the structure from the results page
     const {
@@ -170,8 +190,15 @@ export async function saveThumbnailAnalysis(
         recommendations,
         preview_image_url,
         title,
-        analysis_date
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        analysis_date,
+        thumbnail_category,
+        model_version,
+        model_checksum,
+        video_metadata,
+        thumbnail_mode,
+        image_hash,
+        perceptual_hash
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
       RETURNING id`,
       [
         userId,
@@ -184,7 +211,14 @@ export async function saveThumbnailAnalysis(
         JSON.stringify(recommendations),
         thumbnail.url || '', // Use the thumbnail URL as the preview image URL
         thumbnail.title || '', // Use the thumbnail title if available
-        formattedDate
+        formattedDate,
+        thumbnail.category || null,
+        scores.model?.version || null, // Scoring model provenance, so re-scored history stays comparable
+        scores.model?.checksum || null,
+        thumbnail.video ? JSON.stringify(thumbnail.video) : null,
+        thumbnail.mode || null,
+        analysisData.cache?.imageHash || null, // Lets later analyses spot near-identical uploads by the same user
+        analysisData.cache?.perceptualHash || null
       ]
     );
     
@@ -235,9 +269,13 @@ export async function getThumbnailAnalysisById(
         url: analysis.thumbnail_url,
         title: analysis.thumbnail_title || analysis.title || '',
         width: analysis.thumbnail_width,
-        height: analysis.thumbnail_height
+        height: analysis.thumbnail_height,
+        category: analysis.thumbnail_category || undefined,
+        video: analysis.video_metadata || undefined,
+        mode: analysis.thumbnail_mode || undefined
       },
       scores: analysis.scores,
+      modelVersion: analysis.model_version || null,
       analysis: analysis.analysis_data, // Return the complete analysis structure
       recommendations: analysis.recommendations,
       createdAt: analysis.created_at,
@@ -291,6 +329,7 @@ export async function getUserThumbnailAnalyses(
           height: analysis.thumbnail_height
         },
         previewUrl: analysis.preview_image_url || analysis.thumbnail_url,
+        modelVersion: analysis.model_version || null,
         scores: {
           ...scores,
           overall: overallScore
@@ -304,4 +343,734 @@ export async function getUserThumbnailAnalyses(
     console.error('Error getting user thumbnail analyses:', error);
     return [];
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Save metrics imported from a YouTube Studio export
+ * Videos imported before are updated, so re-importing a newer export refreshes them
+ * @param userId The ID of the user
+ * @param channelName The channel the export came from
+ * @param metrics Parsed rows of the export
+ * @returns The number of rows saved or null if the save failed
+ */
+export async function saveStudioMetrics(
+  userId: string,
+  channelName: string,
+  metrics: StudioVideoMetrics[]
+): Promise<number | null> {
+  try {
+    const pool = getConnectionPool();
+    let saved = 0;
+    
+    for (const row of metrics) {
+      await pool!.query(
+        `INSERT INTO studio_video_metrics (
+          user_id, channel_name, video_id, video_title, published_at, views, impressions, ctr
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        ON CONFLICT (user_id, video_id)
+        DO UPDATE SET
+          channel_name = EXCLUDED.channel_name,
+          video_title = EXCLUDED.video_title,
+          published_at = EXCLUDED.published_at,
+          views = EXCLUDED.views,
+          impressions = EXCLUDED.impressions,
+          ctr = EXCLUDED.ctr,
+          imported_at = CURRENT_TIMESTAMP`,
+        [
+          userId,
+          channelName,
+          row.videoId,
+          row.title || null,
+          row.publishedAt || null,
+          row.views ?? null,
+          row.impressions ?? null,
+          row.ctr ?? null
+        ]
+      );
+      saved++;
+    }
+    
+    console.log(`Saved ${saved} Studio metrics rows for user ${userId}`);
+    return saved;
+  } catch (error) {
+    console.error('Error saving Studio metrics:', error);
+    return null;
+  }
+}
+
+/**
+ * Get the Studio metrics a user has imported
+ * @param userId The ID of the user
+ * @returns Metrics with the channel each came from, or an empty array
+ */
+export async function getStudioMetrics(
+  userId: string
+): Promise<Array<StudioVideoMetrics & { channelName: string }>> {
+  try {
+    const pool = getConnectionPool();
+    
+    const result = await pool!.query(
+      'SELECT * FROM studio_video_metrics WHERE user_id = $1',
+      [userId]
+    );
+    
+    return result.rows.map(row => ({
+      channelName: row.channel_name,
+      videoId: row.video_id,
+      title: row.video_title || undefined,
+      publishedAt: row.published_at || undefined,
+      views: row.views ?? undefined,
+      impressions: row.impressions ?? undefined,
+      ctr: row.ctr ?? undefined
+    }));
+  } catch (error) {
+    console.error('Error getting Studio metrics:', error);
+    return [];
+  }
+}
+
+/**
+ * Save an A/B comparison and link it to the analyses it ranked
+ * @param userId The ID of the user
+ * @param comparison The ranked comparison, with each candidate's analysis ID
+ * @returns The ID of the saved comparison or null if the save failed
+ */
+export async function saveThumbnailComparison(
+  userId: string,
+  comparison: ThumbnailComparison
+): Promise<number | null> {
+  try {
+    const pool = getConnectionPool();
+    
+    // The full results live in thumbnail_analyses, so only keep the ranking here
+    const { candidates, winner, summary, reasons } = comparison;
+    const comparisonData = {
+      candidates: candidates.map(({ label, analysisId, rank, scores, deltas }) => ({
+        label, analysisId, rank, scores, deltas
+      })),
+      winner,
+      summary,
+      reasons
+    };
+    
+    const result = await pool!.query(
+      `INSERT INTO thumbnail_comparisons (user_id, winner_analysis_id, comparison_data)
+      VALUES ($1, $2, $3)
+      RETURNING id`,
+      [userId, candidates[0]?.analysisId ?? null, JSON.stringify(comparisonData)]
+    );
+    
+    if (result.rows.length === 0) {
+      return null;
+    }
+    
+    const comparisonId = result.rows[0].id;
+    for (const candidate of candidates) {
+      // Candidates whose analysis failed to save are only kept in comparison_data
+      if (!candidate.analysisId) continue;
+      await pool!.query(
+        `INSERT INTO thumbnail_comparison_items (comparison_id, analysis_id, label, rank)
+        VALUES ($1, $2, $3, $4)`,
+        [comparisonId, candidate.analysisId, candidate.label, candidate.rank]
+      );
+    }
+    
+    console.log(`Successfully saved comparison for user ${userId}, comparison ID: ${comparisonId}`);
+    return comparisonId;
+  } catch (error) {
+    console.error('Error saving thumbnail comparison:', error);
+    return null;
+  }
+}
+
+/**
+ * Get a comparison with the analyses it ranked
+ * @param id The ID of the comparison
+ * @param userId Optional user ID to verify ownership
+ * @returns The comparison or null if not found
+ */
+export async function getThumbnailComparisonById(
+  id: number,
+  userId?: string
+): Promise<ThumbnailComparison | null> {
+  try {
+    const pool = getConnectionPool();
+    
+    const query = userId
+      ? 'SELECT * FROM thumbnail_comparisons WHERE id = $1 AND user_id = $2'
+      : 'SELECT * FROM thumbnail_comparisons WHERE id = $1';
+    
+    const params = userId ? [id, userId] : [id];
+    
+    const result = await pool!.query(query, params);
+    
+    if (result.rows.length === 0) {
+      return null;
+    }
+    
+    const row = result.rows[0];
+    const comparison: ThumbnailComparison = row.comparison_data;
+    
+    // Attach each candidate's stored analysis
+    const candidates = await Promise.all(
+      comparison.candidates.map(async candidate => {
+        const analysis = candidate.analysisId
+          ? await getThumbnailAnalysisById(candidate.analysisId, userId)
+          : null;
+        return analysis ? { ...candidate, result: analysis } : candidate;
+      })
+    );
+    
+    return {
+      ...comparison,
+      id: row.id,
+      candidates,
+      createdAt: row.created_at
+    };
+  } catch (error) {
+    console.error('Error getting thumbnail comparison by ID:', error);
+    return null;
+  }
+}
+
+// Per-status item counts for analysis_jobs queries
+const JOB_COUNTS_SQL = `
+  COUNT(i.id)::int AS total,
+  COUNT(i.id) FILTER (WHERE i.status = 'pending')::int AS pending,
+  COUNT(i.id) FILTER (WHERE i.status = 'processing')::int AS processing,
+  COUNT(i.id) FILTER (WHERE i.status = 'completed')::int AS completed,
+  COUNT(i.id) FILTER (WHERE i.status = 'failed')::int AS failed`;
+
+function toAnalysisJob(row: any): AnalysisJob {
+  // Queued until the first item is picked up, failed only if nothing succeeded
+  let status: AnalysisJob['status'] = 'completed';
+  if (row.pending === row.total) {
+    status = 'queued';
+  } else if (row.pending + row.processing > 0) {
+    status = 'running';
+  } else if (row.failed === row.total) {
+    status = 'failed';
+  }
+  
+  return {
+    id: row.id,
+    status,
+    category: row.category || undefined,
+    total: row.total,
+    pending: row.pending,
+    processing: row.processing,
+    completed: row.completed,
+    failed: row.failed,
+    createdAt: row.created_at,
+    finishedAt: row.finished_at || undefined
+  };
+}
+
+function toAnalysisJobItem(row: any): AnalysisJobItem {
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    position: row.position,
+    url: row.source_url,
+    fileName: row.file_name || undefined,
+    status: row.status,
+    attempts: row.attempts,
+    analysisId: row.analysis_id,
+    error: row.error || undefined
+  };
+}
+
+/**
+ * Queue a batch of thumbnails for analysis
+ * @param userId The ID of the user
+ * @param items The thumbnails to analyze, in order
+ * @param category Optional category applied to every item
+ * @returns The ID of the created job or null if it couldn't be created
+ */
+export async function createAnalysisJob(
+  userId: string,
+  items: Array<{ url: string; fileName?: string }>,
+  category?: string
+): Promise<number | null> {
+  try {
+    const pool = getConnectionPool();
+    
+    const result = await pool!.query(
+      'INSERT INTO analysis_jobs (user_id, category) VALUES ($1, $2) RETURNING id',
+      [userId, category || null]
+    );
+    
+    if (result.rows.length === 0) {
+      return null;
+    }
+    
+    const jobId = result.rows[0].id;
+    for (const [position, item] of items.entries()) {
+      await pool!.query(
+        'INSERT INTO analysis_job_items (job_id, position, source_url, file_name) VALUES ($1, $2, $3, $4)',
+        [jobId, position, item.url, item.fileName || null]
+      );
+    }
+    
+    console.log(`Queued analysis job ${jobId} with ${items.length} items for user ${userId}`);
+    return jobId;
+  } catch (error) {
+    console.error('Error creating analysis job:', error);
+    return null;
+  }
+}
+
+/**
+ * Claim the next pending job items for processing
+ * Failed items waiting out their retry delay are skipped. Items stuck in processing longer than staleMinutes (e.g. a worker timed out) are claimed again
+ * @param limit The maximum number of items to claim
+ * @param staleMinutes How long an item can be processing before it's considered abandoned
+ * @returns The claimed items with the owner and category of their job, or an empty array
+ */
+export async function claimAnalysisJobItems(
+  limit: number,
+  staleMinutes: number = 10
+): Promise<Array<AnalysisJobItem & { userId: string; category?: string }>> {
+  try {
+    const pool = getConnectionPool();
+    
+    // SKIP LOCKED lets several workers claim from the queue without taking the same items
+    const result = await pool!.query(
+      `WITH claimed AS (
+        UPDATE analysis_job_items
+        SET status = 'processing', attempts = attempts + 1, updated_at = CURRENT_TIMESTAMP
+        WHERE id IN (
+          SELECT id FROM analysis_job_items
+          WHERE (status = 'pending' AND (next_attempt_at IS NULL OR next_attempt_at <= CURRENT_TIMESTAMP))
+            OR (status = 'processing' AND updated_at < CURRENT_TIMESTAMP - $2 * INTERVAL '1 minute')
+          ORDER BY job_id, position
+          LIMIT $1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *
+      )
+      SELECT claimed.*, analysis_jobs.user_id, analysis_jobs.category
+      FROM claimed JOIN analysis_jobs ON analysis_jobs.id = claimed.job_id
+      ORDER BY claimed.job_id, claimed.position`,
+      [limit, staleMinutes]
+    );
+    
+    return result.rows.map(row => ({
+      ...toAnalysisJobItem(row),
+      userId: row.user_id,
+      category: row.category || undefined
+    }));
+  } catch (error) {
+    console.error('Error claiming analysis job items:', error);
+    return [];
+  }
+}
+
+/**
+ * Record the outcome of a job item, and finish its job once nothing is left to process
+ * @param itemId The ID of the job item
+ * @param outcome The saved analysis, or the error and whether (and after how many seconds) the item should be retried
+ * @returns Whether the update succeeded
+ */
+export async function updateAnalysisJobItem(
+  itemId: number,
+  outcome: { analysisId: number | null } | { error: string; retry: boolean; retryDelaySeconds?: number }
+): Promise<boolean> {
+  try {
+    const pool = getConnectionPool();
+    
+    const result = 'error' in outcome
+      ? await pool!.query(
+          `UPDATE analysis_job_items
+          SET status = $2, error = $3, updated_at = CURRENT_TIMESTAMP,
+            next_attempt_at = CASE WHEN $2 = 'pending' THEN CURRENT_TIMESTAMP + $4 * INTERVAL '1 second' END
+          WHERE id = $1
+          RETURNING job_id`,
+          [itemId, outcome.retry ? 'pending' : 'failed', outcome.error, outcome.retryDelaySeconds || 0]
+        )
+      : await pool!.query(
+          `UPDATE analysis_job_items
+          SET status = 'completed', analysis_id = $2, error = NULL, updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1
+          RETURNING job_id`,
+          [itemId, outcome.analysisId]
+        );
+    
+    if (result.rows.length === 0) {
+      return false;
+    }
+    
+    await pool!.query(
+      `UPDATE analysis_jobs SET finished_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND finished_at IS NULL AND NOT EXISTS (
+        SELECT 1 FROM analysis_job_items WHERE job_id = $1 AND status IN ('pending', 'processing')
+      )`,
+      [result.rows[0].job_id]
+    );
+    
+    return true;
+  } catch (error) {
+    console.error('Error updating analysis job item:', error);
+    return false;
+  }
+}
+
+/**
+ * Get an analysis job with its progress and items
+ * @param id The ID of the job
+ * @param userId Optional user ID to verify ownership
+ * @returns The job or null if not found
+ */
+export async function getAnalysisJobById(
+  id: number,
+  userId?: string
+): Promise<AnalysisJob | null> {
+  try {
+    const pool = getConnectionPool();
+    
+    const result = await pool!.query(
+      `SELECT j.*, ${JOB_COUNTS_SQL}
+      FROM analysis_jobs j LEFT JOIN analysis_job_items i ON i.job_id = j.id
+      WHERE j.id = $1 ${userId ? 'AND j.user_id = $2' : ''}
+      GROUP BY j.id`,
+      userId ? [id, userId] : [id]
+    );
+    
+    if (result.rows.length === 0) {
+      return null;
+    }
+    
+    const items = await pool!.query(
+      'SELECT * FROM analysis_job_items WHERE job_id = $1 ORDER BY position',
+      [id]
+    );
+    
+    return {
+      ...toAnalysisJob(result.rows[0]),
+      items: items.rows.map(toAnalysisJobItem)
+    };
+  } catch (error) {
+    console.error('Error getting analysis job by ID:', error);
+    return null;
+  }
+}
+
+/**
+ * Get a user's analysis jobs, newest first
+ * @param userId The ID of the user
+ * @param limit The maximum number of jobs to return (default 20)
+ * @returns Jobs with their progress, or an empty array
+ */
+export async function getUserAnalysisJobs(
+  userId: string,
+  limit: number = 20
+): Promise<AnalysisJob[]> {
+  try {
+    const pool = getConnectionPool();
+    
+    const result = await pool!.query(
+      `SELECT j.*, ${JOB_COUNTS_SQL}
+      FROM analysis_jobs j LEFT JOIN analysis_job_items i ON i.job_id = j.id
+      WHERE j.user_id = $1
+      GROUP BY j.id
+      ORDER BY j.created_at DESC
+      LIMIT $2`,
+      [userId, limit]
+    );
+    
+    return result.rows.map(toAnalysisJob);
+  } catch (error) {
+    console.error('Error getting user analysis jobs:', error);
+    return [];
+  }
+}
+
+/**
+ * A saved benchmark profile without its model, for listing
+ */
+export interface BenchmarkProfileSummary {
+  id: number;
+  name: string;
+  sources: { channels: string[]; videos: string[] };
+  modelVersion: string;
+  sampleCount: number;
+  createdAt: string;
+}
+
+function toBenchmarkProfileSummary(row: any): BenchmarkProfileSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    sources: row.sources,
+    modelVersion: row.model_version,
+    sampleCount: row.sample_count,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Save a benchmark profile built from competitor thumbnails
+ * @param userId The ID of the user
+ * @param name Name the user gave the profile
+ * @param sources The competitor channels and videos it was built from
+ * @param profile The findings and thresholds, and how many thumbnails they came from
+ * @returns The ID of the saved profile or null if the save failed
+ */
+export async function saveBenchmarkProfile(
+  userId: string,
+  name: string,
+  sources: BenchmarkProfileSummary['sources'],
+  profile: { source: ScoringModelSource; sampleCount: number }
+): Promise<number | null> {
+  try {
+    const pool = getConnectionPool();
+    
+    const result = await pool!.query(
+      `INSERT INTO benchmark_profiles (
+        user_id, name, sources, model_version, model_checksum, model, findings, sample_count
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING id`,
+      [
+        userId,
+        name,
+        JSON.stringify(sources),
+        profile.source.version,
+        profile.source.checksum,
+        JSON.stringify(profile.source.model),
+        JSON.stringify(profile.source.findings),
+        profile.sampleCount
+      ]
+    );
+    
+    if (result.rows.length === 0) {
+      return null;
+    }
+    
+    console.log(`Saved benchmark profile ${result.rows[0].id} for user ${userId}`);
+    return result.rows[0].id;
+  } catch (error) {
+    console.error('Error saving benchmark profile:', error);
+    return null;
+  }
+}
+
+/**
+ * Get a benchmark profile with the model and findings to score against
+ * @param id The ID of the profile
+ * @param userId The ID of the user who owns it
+ * @returns The profile or null if not found
+ */
+export async function getBenchmarkProfileById(
+  id: number,
+  userId: string
+): Promise<(BenchmarkProfileSummary & { source: ScoringModelSource }) | null> {
+  try {
+    const pool = getConnectionPool();
+    
+    const result = await pool!.query(
+      'SELECT * FROM benchmark_profiles WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+    
+    if (result.rows.length === 0) {
+      return null;
+    }
+    
+    const row = result.rows[0];
+    return {
+      ...toBenchmarkProfileSummary(row),
+      source: {
+        version: row.model_version,
+        checksum: row.model_checksum,
+        model: row.model,
+        findings: row.findings
+      }
+    };
+  } catch (error) {
+    console.error('Error getting benchmark profile by ID:', error);
+    return null;
+  }
+}
+
+/**
+ * Get a user's benchmark profiles, newest first
+ * @param userId The ID of the user
+ * @returns Profile summaries or an empty array
+ */
+export async function getUserBenchmarkProfiles(userId: string): Promise<BenchmarkProfileSummary[]> {
+  try {
+    const pool = getConnectionPool();
+    
+    const result = await pool!.query(
+      `SELECT id, name, sources, model_version, sample_count, created_at
+      FROM benchmark_profiles WHERE user_id = $1 ORDER BY created_at DESC`,
+      [userId]
+    );
+    
+    return result.rows.map(toBenchmarkProfileSummary);
+  } catch (error) {
+    console.error('Error getting user benchmark profiles:', error);
+    return [];
+  }
+}
+
+/**
+ * Delete a benchmark profile
+ * Analyses scored against it keep their scores and the profile name they were scored with
+ * @param id The ID of the profile
+ * @param userId The ID of the user who owns it
+ * @returns Whether a profile was deleted
+ */
+export async function deleteBenchmarkProfile(id: number, userId: string): Promise<boolean> {
+  try {
+    const pool = getConnectionPool();
+    
+    const result = await pool!.query(
+      'DELETE FROM benchmark_profiles WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+    
+    return (result.rowCount ?? 0) > 0;
+  } catch (error) {
+    console.error('Error deleting benchmark profile:', error);
+    return false;
+  }
+}
+
+/**
+ * Features extracted from an image earlier, reused instead of calling Vision again
+ */
+export interface CachedAnalysis {
+  vision: VisionAnalysis;
+  // Null when the first analysis was scored against a benchmark, whose recommendations aren't shared
+  recommendations: Recommendation[] | null;
+  // Category the cached recommendations were written for
+  category: string | null;
+  createdAt: string;
+}
+
+/**
+ * What a cached analysis is keyed by
+ * Features depend on the exact image, the analysis mode, the provider that extracted them and the scoring model version
+ */
+export interface AnalysisCacheKey {
+  imageHash: string;
+  mode: AnalysisMode;
+  provider: string;
+  modelVersion: string;
+}
+
+/**
+ * Find cached features for an image
+ * Only the exact same bytes match - a near-identical image can carry different text, so it gets its own analysis
+ * @param key The image's hash and what the features were extracted with
+ * @returns The cached analysis or null on a miss
+ */
+export async function getCachedAnalysis(key: AnalysisCacheKey): Promise<CachedAnalysis | null> {
+  try {
+    const pool = getConnectionPool();
+    
+    const result = await pool!.query(
+      `SELECT * FROM analysis_cache
+      WHERE image_hash = $1 AND analysis_mode = $2 AND provider = $3 AND model_version = $4`,
+      [key.imageHash, key.mode, key.provider, key.modelVersion]
+    );
+    
+    if (result.rows.length === 0) {
+      return null;
+    }
+    
+    const row = result.rows[0];
+    await pool!.query(
+      'UPDATE analysis_cache SET hit_count = hit_count + 1, last_hit_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [row.id]
+    );
+    
+    return {
+      vision: row.vision,
+      recommendations: row.recommendations,
+      category: row.recommendations_category,
+      createdAt: row.created_at
+    };
+  } catch (error) {
+    console.error('Error getting cached analysis:', error);
+    return null;
+  }
+}
+
+// Re-encodes of the same image rarely flip more than a few of the 64 dHash bits
+const MAX_PERCEPTUAL_DISTANCE = 3;
+
+/**
+ * Find one of the user's own earlier analyses of a near-identical image
+ * Only a hint for the user - nothing from it is reused, and other users' analyses are never searched
+ * @param userId The user who ran the analysis
+ * @param image The image's hashes and dimensions; matches must have the same dimensions and a different exact hash
+ * @returns The most recent match or null
+ */
+export async function findSimilarUserAnalysis(
+  userId: string,
+  image: { imageHash: string; perceptualHash: string; width: number; height: number }
+): Promise<{ id: number; createdAt: string } | null> {
+  try {
+    const pool = getConnectionPool();
+    
+    // Count differing bits by XOR-ing the hashes as bit strings
+    const result = await pool!.query(
+      `SELECT id, created_at FROM thumbnail_analyses
+      WHERE user_id = $1 AND thumbnail_width = $2 AND thumbnail_height = $3
+        AND perceptual_hash IS NOT NULL AND image_hash IS DISTINCT FROM $4
+        AND length(replace((('x' || perceptual_hash)::bit(64) # ('x' || $5)::bit(64))::text, '0', '')) <= $6
+      ORDER BY created_at DESC
+      LIMIT 1`,
+      [userId, image.width, image.height, image.imageHash, image.perceptualHash, MAX_PERCEPTUAL_DISTANCE]
+    );
+    
+    if (result.rows.length === 0) {
+      return null;
+    }
+    
+    return { id: result.rows[0].id, createdAt: result.rows[0].created_at };
+  } catch (error) {
+    console.error('Error finding similar analysis:', error);
+    return null;
+  }
+}
+
+/**
+ * Cache the features extracted from an image
+ * The first analysis of an image wins; later ones for the same key leave it untouched
+ * @param key The image's hash and what the features were extracted with
+ * @param entry The vision output, and the recommendations with the category they were written for
+ * @returns Whether the entry was saved
+ */
+export async function saveCachedAnalysis(
+  key: AnalysisCacheKey,
+  entry: { vision: VisionAnalysis; recommendations: Recommendation[] | null; category?: string }
+): Promise<boolean> {
+  try {
+    const pool = getConnectionPool();
+    
+    await pool!.query(
+      `INSERT INTO analysis_cache (
+        image_hash, analysis_mode, provider, model_version,
+        vision, recommendations, recommendations_category
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (image_hash, analysis_mode, provider, model_version) DO NOTHING`,
+      [
+        key.imageHash,
+        key.mode,
+        key.provider,
+        key.modelVersion,
+        JSON.stringify(entry.vision),
+        entry.recommendations ? JSON.stringify(entry.recommendations) : null,
+        entry.category || null
+      ]
+    );
+    
+    return true;
+  } catch (error) {
+    console.error('Error saving cached analysis:', error);
+    return false;
+  }
+}
@@ -63,6 +63,134 @@ export async function initializeDatabase(): Promise<boolean> {
       CREATE INDEX IF NOT EXISTS idx_thumbnail_analyses_created_at ON thumbnail_analyses(created_at);
     `);
     
+    // Record which scoring model produced each analysis
+    await pool!.query(`
+      ALTER TABLE thumbnail_analyses
+      ADD COLUMN IF NOT EXISTS thumbnail_category TEXT,
+      ADD COLUMN IF NOT EXISTS model_version TEXT,
+      ADD COLUMN IF NOT EXISTS model_checksum TEXT;
+      CREATE INDEX IF NOT EXISTS idx_thumbnail_analyses_model_version ON thumbnail_analyses(model_version);
+    `);
+    
+    // Store the YouTube video's metadata alongside its thumbnail
+    await pool!.query(`
+      ALTER TABLE thumbnail_analyses
+      ADD COLUMN IF NOT EXISTS video_metadata JSONB;
+    `);
+    
+    // Shorts covers are scored against their own safe zones and thresholds
+    await pool!.query(`
+      ALTER TABLE thumbnail_analyses
+      ADD COLUMN IF NOT EXISTS thumbnail_mode TEXT;
+    `);
+    
+    // Create studio_video_metrics table for YouTube Studio imports
+    await pool!.query(`
+      CREATE TABLE IF NOT EXISTS studio_video_metrics (
+        id SERIAL PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        channel_name TEXT NOT NULL,
+        video_id TEXT NOT NULL,
+        video_title TEXT,
+        published_at TEXT,
+        views INTEGER,
+        impressions INTEGER,
+        ctr REAL,
+        imported_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(user_id, video_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_studio_video_metrics_user_id ON studio_video_metrics(user_id);
+    `);
+    
+    // Create thumbnail_comparisons tables for A/B comparisons
+    await pool!.query(`
+      CREATE TABLE IF NOT EXISTS thumbnail_comparisons (
+        id SERIAL PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        winner_analysis_id INTEGER REFERENCES thumbnail_analyses(id) ON DELETE SET NULL,
+        comparison_data JSONB NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE TABLE IF NOT EXISTS thumbnail_comparison_items (
+        comparison_id INTEGER NOT NULL REFERENCES thumbnail_comparisons(id) ON DELETE CASCADE,
+        analysis_id INTEGER NOT NULL REFERENCES thumbnail_analyses(id) ON DELETE CASCADE,
+        label TEXT NOT NULL,
+        rank INTEGER NOT NULL,
+        PRIMARY KEY (comparison_id, analysis_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_thumbnail_comparisons_user_id ON thumbnail_comparisons(user_id);
+    `);
+    
+    // Create analysis_jobs tables for the batch analysis queue
+    await pool!.query(`
+      CREATE TABLE IF NOT EXISTS analysis_jobs (
+        id SERIAL PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        category TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        finished_at TIMESTAMP WITH TIME ZONE
+      );
+      CREATE TABLE IF NOT EXISTS analysis_job_items (
+        id SERIAL PRIMARY KEY,
+        job_id INTEGER NOT NULL REFERENCES analysis_jobs(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        source_url TEXT NOT NULL,
+        file_name TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TIMESTAMP WITH TIME ZONE,
+        analysis_id INTEGER REFERENCES thumbnail_analyses(id) ON DELETE SET NULL,
+        error TEXT,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_analysis_jobs_user_id ON analysis_jobs(user_id);
+      CREATE INDEX IF NOT EXISTS idx_analysis_job_items_job_id ON analysis_job_items(job_id);
+      CREATE INDEX IF NOT EXISTS idx_analysis_job_items_status ON analysis_job_items(status);
+      ALTER TABLE analysis_job_items ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE;
+    `);
+    
+    // Create benchmark_profiles table for competitor benchmarks
+    await pool!.query(`
+      CREATE TABLE IF NOT EXISTS benchmark_profiles (
+        id SERIAL PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        sources JSONB NOT NULL,
+        model_version TEXT NOT NULL,
+        model_checksum TEXT NOT NULL,
+        model JSONB NOT NULL,
+        findings JSONB NOT NULL,
+        sample_count INTEGER NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_benchmark_profiles_user_id ON benchmark_profiles(user_id);
+    `);
+    
+    // Create analysis_cache table so identical thumbnails aren't sent to Vision again
+    await pool!.query(`
+      CREATE TABLE IF NOT EXISTS analysis_cache (
+        id SERIAL PRIMARY KEY,
+        image_hash TEXT NOT NULL,
+        analysis_mode TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model_version TEXT NOT NULL,
+        vision JSONB NOT NULL,
+        recommendations JSONB,
+        recommendations_category TEXT,
+        hit_count INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        last_hit_at TIMESTAMP WITH TIME ZONE,
+        UNIQUE (image_hash, analysis_mode, provider, model_version)
+      );
+    `);
+    
+    // Image hashes on saved analyses, to point users at their near-identical earlier uploads
+    await pool!.query(`
+      ALTER TABLE thumbnail_analyses
+      ADD COLUMN IF NOT EXISTS image_hash TEXT,
+      ADD COLUMN IF NOT EXISTS perceptual_hash TEXT;
+    `);
+    
     // Add foreign key constraint if it doesn't exist - using a function to avoid errors
     await pool!.query(`
       DO $$
@@ -33,6 +33,13 @@ CREATE TABLE IF NOT EXISTS thumbnail_analyses (
   recommendations JSONB, -- Store recommendations as JSON
   preview_image_url TEXT, -- URL to a preview image for the list view
   title TEXT, -- Optional title for the analysis (could be extracted from YouTube)
+  thumbnail_category TEXT, -- YouTube video category the scores were normalized against
+  model_version TEXT, -- Scoring model version that produced the scores
+  model_checksum TEXT, -- Checksum of that scoring model
+  video_metadata JSONB, -- YouTube video title, channel, category, duration and publish date
+  thumbnail_mode TEXT, -- 'video' for 16:9 thumbnails, 'shorts' for 9:16 Shorts covers
+  image_hash TEXT, -- sha256 of the image bytes
+  perceptual_hash TEXT, -- 64-bit difference hash as hex, to point users at near-identical earlier uploads
   created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
   
   -- Foreign key reference to user_analyses to track daily usage
@@ -45,4 +52,113 @@ CREATE TABLE IF NOT EXISTS thumbnail_analyses (
 
 -- Create indexes for performance
 CREATE INDEX IF NOT EXISTS idx_thumbnail_analyses_user_id ON thumbnail_analyses(user_id);
-CREATE INDEX IF NOT EXISTS idx_thumbnail_analyses_created_at ON thumbnail_analyses(created_at); 
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_thumbnail_analyses_created_at ON thumbnail_analyses(created_at);
+CREATE INDEX IF NOT EXISTS idx_thumbnail_analyses_model_version ON thumbnail_analyses(model_version); 
+
+-- Schema for the studio_video_metrics table
+-- This stores real per-video metrics imported from YouTube Studio CSV exports
+
+CREATE TABLE IF NOT EXISTS studio_video_metrics (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  channel_name TEXT NOT NULL, -- Studio exports are per channel but don't name it
+  video_id TEXT NOT NULL,
+  video_title TEXT,
+  published_at TEXT,
+  views INTEGER,
+  impressions INTEGER,
+  ctr REAL, -- Impressions click-through rate as a percentage
+  imported_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  
+  -- Re-importing a video replaces its metrics
+  UNIQUE(user_id, video_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_studio_video_metrics_user_id ON studio_video_metrics(user_id);
+
+-- Schema for the thumbnail_comparisons table
+-- This stores A/B comparisons; each compared thumbnail is a regular thumbnail_analyses row
+
+CREATE TABLE IF NOT EXISTS thumbnail_comparisons (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  winner_analysis_id INTEGER REFERENCES thumbnail_analyses(id) ON DELETE SET NULL,
+  comparison_data JSONB NOT NULL, -- Ranking, deltas and the winner explanation
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS thumbnail_comparison_items (
+  comparison_id INTEGER NOT NULL REFERENCES thumbnail_comparisons(id) ON DELETE CASCADE,
+  analysis_id INTEGER NOT NULL REFERENCES thumbnail_analyses(id) ON DELETE CASCADE,
+  label TEXT NOT NULL, -- Candidate letter in submission order
+  rank INTEGER NOT NULL,
+  PRIMARY KEY (comparison_id, analysis_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_thumbnail_comparisons_user_id ON thumbnail_comparisons(user_id);
+
+-- Schema for the analysis_jobs tables
+-- This is the queue for batch analysis; a worker claims pending items and links each to its analysis
+
+CREATE TABLE IF NOT EXISTS analysis_jobs (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  category TEXT, -- Applied to every item, auto-detected per item when NULL
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS analysis_job_items (
+  id SERIAL PRIMARY KEY,
+  job_id INTEGER NOT NULL REFERENCES analysis_jobs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  source_url TEXT NOT NULL,
+  file_name TEXT, -- Set for images extracted from an uploaded zip
+  status TEXT NOT NULL DEFAULT 'pending', -- pending, processing, completed or failed
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE, -- Failed items wait until then before they're retried
+  analysis_id INTEGER REFERENCES thumbnail_analyses(id) ON DELETE SET NULL,
+  error TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_user_id ON analysis_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_analysis_job_items_job_id ON analysis_job_items(job_id);
+CREATE INDEX IF NOT EXISTS idx_analysis_job_items_status ON analysis_job_items(status);
+
+-- Schema for the benchmark_profiles table
+-- This stores findings and thresholds built from a user's competitor channels, used in place of the global findings
+
+CREATE TABLE IF NOT EXISTS benchmark_profiles (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  sources JSONB NOT NULL, -- Competitor channels and videos as entered
+  model_version TEXT NOT NULL,
+  model_checksum TEXT NOT NULL,
+  model JSONB NOT NULL,
+  findings JSONB NOT NULL,
+  sample_count INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_benchmark_profiles_user_id ON benchmark_profiles(user_id);
+
+-- Schema for the analysis_cache table
+-- This stores features extracted from each image, so identical thumbnails aren't sent to Vision again
+
+CREATE TABLE IF NOT EXISTS analysis_cache (
+  id SERIAL PRIMARY KEY,
+  image_hash TEXT NOT NULL, -- sha256 of the image bytes
+  analysis_mode TEXT NOT NULL,
+  provider TEXT NOT NULL, -- Image analysis provider that extracted the features
+  model_version TEXT NOT NULL, -- Scoring model version active when they were extracted
+  vision JSONB NOT NULL, -- Measured features, before scoring
+  recommendations JSONB,
+  recommendations_category TEXT, -- Category the recommendations were written for
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  last_hit_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (image_hash, analysis_mode, provider, model_version)
+);
+
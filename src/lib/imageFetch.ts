@@ -0,0 +1,339 @@
+import http from 'http';
+import https from 'https';
+import dns from 'dns';
+import net from 'net';
+import { probeImage, ImageFormat } from '@/app/utils/imageProbe';
+
+/**
+ * Why an image fetch was refused or failed
+ */
+export type ImageFetchErrorCode =
+  | 'invalid_url'
+  | 'blocked_host'
+  | 'private_address'
+  | 'too_many_redirects'
+  | 'timeout'
+  | 'http_error'
+  | 'too_large'
+  | 'unsupported_type'
+  | 'network_error';
+
+// Problems with the URL or the image itself are the user's to fix, the rest are upstream failures
+const ERROR_STATUS: Record<ImageFetchErrorCode, number> = {
+  invalid_url: 400,
+  blocked_host: 400,
+  private_address: 400,
+  too_many_redirects: 400,
+  too_large: 413,
+  unsupported_type: 415,
+  timeout: 504,
+  http_error: 502,
+  network_error: 502,
+};
+
+export class ImageFetchError extends Error {
+  readonly code: ImageFetchErrorCode;
+  // HTTP status an API route should answer with
+  readonly status: number;
+  // Status the image host answered with, for http_error
+  readonly upstreamStatus?: number;
+
+  constructor(code: ImageFetchErrorCode, message: string, upstreamStatus?: number) {
+    super(message);
+    this.name = 'ImageFetchError';
+    this.code = code;
+    this.status = ERROR_STATUS[code];
+    this.upstreamStatus = upstreamStatus;
+  }
+}
+
+export interface ImageFetchOptions {
+  // Largest image accepted, checked against Content-Length and while streaming
+  maxBytes?: number;
+  // For the whole fetch, redirects included
+  timeoutMs?: number;
+  maxRedirects?: number;
+  // Only these hosts (and their subdomains) may be fetched; defaults to IMAGE_FETCH_ALLOWED_HOSTS
+  allowedHosts?: string[];
+  // Never fetched, on top of the built-in list; defaults to IMAGE_FETCH_BLOCKED_HOSTS
+  blockedHosts?: string[];
+}
+
+export interface FetchedImage {
+  buffer: Buffer;
+  // Sniffed from the magic bytes, not taken from Content-Type
+  format: Exclude<ImageFormat, 'unknown'>;
+  mimeType: string;
+  // After redirects
+  url: string;
+}
+
+// Largest image accepted, whether downloaded or uploaded
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_REDIRECTS = 3;
+
+// Cloud metadata endpoints also resolve to private addresses, but are listed in case DNS says otherwise
+const BUILT_IN_BLOCKED_HOSTS = ['localhost', 'metadata.google.internal', 'metadata.goog'];
+
+const MIME_TYPES: Record<FetchedImage['format'], string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges
+const PRIVATE_RANGES = new net.BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+].forEach(([address, prefix]) => PRIVATE_RANGES.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([address, prefix]) => PRIVATE_RANGES.addSubnet(address as string, prefix as number, 'ipv6'));
+
+/**
+ * Whether an IP address is on a private, loopback or otherwise non-public network
+ */
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) reach the IPv4 host
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  if (net.isIPv4(address)) return PRIVATE_RANGES.check(address, 'ipv4');
+  if (net.isIPv6(address)) return PRIVATE_RANGES.check(address, 'ipv6');
+  // Anything that isn't an IP address can't be checked, so it isn't trusted
+  return true;
+}
+
+function parseHostList(value?: string): string[] {
+  return (value || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function matchesHost(hostname: string, hosts: string[]): boolean {
+  return hosts.some(host => hostname === host || hostname.endsWith(`.${host}`));
+}
+
+/**
+ * Check a URL before connecting to it
+ * Addresses are checked again at connect time, so DNS can't be swapped between the two
+ */
+function validateUrl(rawUrl: string, allowedHosts: string[], blockedHosts: string[]): URL {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new ImageFetchError('invalid_url', 'Invalid image URL');
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ImageFetchError('invalid_url', 'Only http and https image URLs are supported');
+  }
+  if (url.username || url.password) {
+    throw new ImageFetchError('invalid_url', 'Image URLs cannot include credentials');
+  }
+  if (url.port && url.port !== '80' && url.port !== '443') {
+    throw new ImageFetchError('invalid_url', 'Image URLs must use the standard http or https port');
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (matchesHost(hostname, [...BUILT_IN_BLOCKED_HOSTS, ...blockedHosts])) {
+    throw new ImageFetchError('blocked_host', `Images from ${hostname} are not allowed`);
+  }
+  if (allowedHosts.length > 0 && !matchesHost(hostname, allowedHosts)) {
+    throw new ImageFetchError('blocked_host', `Images from ${hostname} are not allowed`);
+  }
+  if (net.isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new ImageFetchError('private_address', 'Image URLs cannot point to a private network');
+  }
+
+  return url;
+}
+
+// Resolve like the default lookup, but refuse to connect to private addresses
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked || addresses.length === 0) {
+      callback(new ImageFetchError('private_address', 'Image URLs cannot point to a private network'), '', 0);
+      return;
+    }
+
+    if (options.all) {
+      (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+interface RawResponse {
+  status: number;
+  location?: string;
+  body: Buffer;
+}
+
+function requestOnce(url: URL, method: 'GET' | 'HEAD', maxBytes: number, signal: AbortSignal): Promise<RawResponse> {
+  return new Promise((resolve, reject) => {
+    const transport = url.protocol === 'https:' ? https : http;
+    const request = transport.request(url, {
+      method,
+      lookup: safeLookup,
+      signal,
+      headers: { accept: 'image/*' },
+    }, response => {
+      const status = response.statusCode || 0;
+
+      // Redirects and errors are followed or reported without reading their bodies
+      if (status < 200 || status >= 300 || method === 'HEAD') {
+        response.resume();
+        resolve({ status, location: response.headers.location, body: Buffer.alloc(0) });
+        return;
+      }
+
+      const declaredLength = parseInt(response.headers['content-length'] || '', 10);
+      if (declaredLength > maxBytes) {
+        response.destroy();
+        reject(new ImageFetchError('too_large', `Image is larger than ${Math.round(maxBytes / 1024 / 1024)} MB`));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let received = 0;
+      response.on('data', (chunk: Buffer) => {
+        received += chunk.length;
+        if (received > maxBytes) {
+          response.destroy();
+          reject(new ImageFetchError('too_large', `Image is larger than ${Math.round(maxBytes / 1024 / 1024)} MB`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on('end', () => resolve({ status, body: Buffer.concat(chunks) }));
+      response.on('error', reject);
+    });
+
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+async function requestImage(rawUrl: string, method: 'GET' | 'HEAD', options: ImageFetchOptions): Promise<RawResponse & { url: string }> {
+  const {
+    maxBytes = MAX_IMAGE_BYTES,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxRedirects = DEFAULT_MAX_REDIRECTS,
+    allowedHosts = parseHostList(process.env.IMAGE_FETCH_ALLOWED_HOSTS),
+    blockedHosts = parseHostList(process.env.IMAGE_FETCH_BLOCKED_HOSTS),
+  } = options;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    let url = validateUrl(rawUrl, allowedHosts, blockedHosts);
+
+    for (let redirects = 0; ; redirects++) {
+      const response = await requestOnce(url, method, maxBytes, controller.signal);
+
+      if (response.status >= 300 && response.status < 400 && response.location) {
+        if (redirects >= maxRedirects) {
+          throw new ImageFetchError('too_many_redirects', `Image URL redirected more than ${maxRedirects} times`);
+        }
+        // Every hop is checked like the original URL
+        url = validateUrl(new URL(response.location, url).toString(), allowedHosts, blockedHosts);
+        continue;
+      }
+
+      return { ...response, url: url.toString() };
+    }
+  } catch (error: any) {
+    if (error instanceof ImageFetchError) throw error;
+    if (controller.signal.aborted) {
+      throw new ImageFetchError('timeout', `Image took longer than ${Math.round(timeoutMs / 1000)} seconds to download`);
+    }
+    throw new ImageFetchError('network_error', `Could not download the image: ${error.message || 'network error'}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Download a user-supplied image URL for analysis
+ * Private-network targets, oversized downloads and anything that isn't a JPEG, PNG, WebP or GIF are refused
+ */
+export async function fetchImage(url: string, options: ImageFetchOptions = {}): Promise<FetchedImage> {
+  const response = await requestImage(url, 'GET', options);
+
+  if (response.status < 200 || response.status >= 300) {
+    throw new ImageFetchError('http_error', `Image request returned ${response.status}`, response.status);
+  }
+
+  // Content-Type is whatever the server claims, so the bytes decide
+  const { format } = probeImage(response.body);
+  if (format === 'unknown') {
+    throw new ImageFetchError('unsupported_type', 'URL did not return a JPEG, PNG, WebP or GIF image');
+  }
+
+  return {
+    buffer: response.body,
+    format,
+    mimeType: MIME_TYPES[format],
+    url: response.url,
+  };
+}
+
+/**
+ * Check that an image URL exists without downloading it, under the same rules as fetchImage
+ */
+export async function imageExists(url: string, options: ImageFetchOptions = {}): Promise<boolean> {
+  const response = await requestImage(url, 'HEAD', options);
+  return response.status >= 200 && response.status < 300;
+}
+
+/**
+ * Read an uploaded image under the same rules as fetchImage
+ * The size is checked before the file is buffered, and the bytes decide the type rather than the browser's claim
+ */
+export async function readUploadedImage(file: File, maxBytes = MAX_IMAGE_BYTES): Promise<Omit<FetchedImage, 'url'>> {
+  if (file.size > maxBytes) {
+    throw new ImageFetchError('too_large', `Image is larger than ${Math.round(maxBytes / 1024 / 1024)} MB`);
+  }
+
+  const buffer = Buffer.from(await file.arrayBuffer());
+  const { format } = probeImage(buffer);
+  if (format === 'unknown') {
+    throw new ImageFetchError('unsupported_type', 'File is not a JPEG, PNG, WebP or GIF image');
+  }
+
+  return { buffer, format, mimeType: MIME_TYPES[format] };
+}
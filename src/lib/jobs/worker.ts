@@ -0,0 +1,128 @@
+import { analyzeThumbnail, CACHE_HITS_COUNT_TOWARDS_DAILY_LIMIT, detectVideoMetadata, loadImageFromUrl } from '@/app/utils/analysis';
+import { claimAnalysisJobItems, getRemainingDailyAnalyses, saveThumbnailAnalysis, updateAnalysisJobItem } from '@/lib/db';
+import { AnalysisJobItem } from '@/app/types';
+import { ImageFetchError } from '@/lib/imageFetch';
+
+export interface JobWorkerOptions {
+  // Items analyzed at the same time
+  concurrency?: number;
+  // Attempts per item before it's marked failed
+  maxAttempts?: number;
+  // Wait before the first retry, doubled for each attempt after it
+  retryDelaySeconds?: number;
+  // Stop after this many items so a run fits in one function invocation
+  maxItems?: number;
+}
+
+export interface JobWorkerResult {
+  processed: number;
+  completed: number;
+  failed: number;
+  retried: number;
+}
+
+type ClaimedItem = AnalysisJobItem & { userId: string; category?: string };
+
+/**
+ * Whether another attempt could succeed
+ * Bad URLs, images the host refuses and files that are too large or not images fail the same way every time
+ */
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof ImageFetchError)) return true;
+  if (error.upstreamStatus !== undefined) {
+    // Timeouts and rate limits clear up, other 4xx answers won't
+    return error.upstreamStatus >= 500 || error.upstreamStatus === 408 || error.upstreamStatus === 429;
+  }
+  return error.status >= 500;
+}
+
+async function processItem(item: ClaimedItem, maxAttempts: number, retryDelaySeconds: number): Promise<'completed' | 'failed' | 'retried'> {
+  try {
+    // Zip images were stored at submission; analyze them as uploads like single file analyses
+    let file: File | undefined = undefined;
+    if (item.fileName) {
+      file = new File([await loadImageFromUrl(item.url)], item.fileName);
+    }
+    
+    const video = file ? undefined : await detectVideoMetadata(item.url);
+    const category = item.category || video?.category;
+    const analysis = await analyzeThumbnail(item.url, file, category);
+    analysis.thumbnail.url = item.url;
+    if (video) {
+      analysis.thumbnail.title = video.title;
+      analysis.thumbnail.video = video;
+    }
+    
+    const analysisId = await saveThumbnailAnalysis(item.userId, analysis, !analysis.cache?.hit || CACHE_HITS_COUNT_TOWARDS_DAILY_LIMIT);
+    await updateAnalysisJobItem(item.id, { analysisId });
+    return 'completed';
+  } catch (error: any) {
+    const retry = item.attempts < maxAttempts && isRetryable(error);
+    console.error(`Job ${item.jobId} item ${item.id} failed (attempt ${item.attempts} of ${maxAttempts}):`, error);
+    await updateAnalysisJobItem(item.id, {
+      error: error.message || 'Analysis failed',
+      retry,
+      // Back off so a failing upstream isn't hit again within the same run
+      retryDelaySeconds: retryDelaySeconds * 2 ** (item.attempts - 1),
+    });
+    return retry ? 'retried' : 'failed';
+  }
+}
+
+/**
+ * Pick the claimed items their owners still have daily analyses for
+ * The limit was checked when each batch was queued, but other analyses and batches may have used it up since.
+ * Items of the same user run side by side, so what's left is handed out in queue order
+ */
+async function itemsWithinDailyLimit(items: ClaimedItem[]): Promise<Set<number>> {
+  const remaining = new Map<string, number>();
+  for (const userId of new Set(items.map(item => item.userId))) {
+    remaining.set(userId, await getRemainingDailyAnalyses(userId));
+  }
+  
+  const allowed = new Set<number>();
+  for (const item of items) {
+    const left = remaining.get(item.userId) || 0;
+    if (left > 0) {
+      allowed.add(item.id);
+      remaining.set(item.userId, left - 1);
+    }
+  }
+  return allowed;
+}
+
+async function failOverLimit(item: ClaimedItem): Promise<'failed'> {
+  console.log(`Job ${item.jobId} item ${item.id} skipped, user ${item.userId} has reached the daily limit`);
+  await updateAnalysisJobItem(item.id, { error: 'Daily analysis limit reached', retry: false });
+  return 'failed';
+}
+
+/**
+ * Work through the batch analysis queue
+ * Items are claimed in small groups so concurrent workers share the queue
+ */
+export async function processAnalysisJobs({
+  concurrency = 3,
+  maxAttempts = 3,
+  retryDelaySeconds = 60,
+  maxItems = 30,
+}: JobWorkerOptions = {}): Promise<JobWorkerResult> {
+  const result: JobWorkerResult = { processed: 0, completed: 0, failed: 0, retried: 0 };
+  
+  while (result.processed < maxItems) {
+    const items = await claimAnalysisJobItems(Math.min(concurrency, maxItems - result.processed));
+    if (items.length === 0) break;
+    
+    const allowed = await itemsWithinDailyLimit(items);
+    const outcomes = await Promise.all(items.map(item =>
+      allowed.has(item.id) ? processItem(item, maxAttempts, retryDelaySeconds) : failOverLimit(item)
+    ));
+    outcomes.forEach(outcome => result[outcome]++);
+    result.processed += items.length;
+  }
+  
+  if (result.processed > 0) {
+    console.log(`Job worker processed ${result.processed} items: ${result.completed} completed, ${result.failed} failed, ${result.retried} to retry`);
+  }
+  return result;
+}
@@ -0,0 +1,100 @@
+import zlib from 'zlib';
+
+/**
+ * A file listed in a zip archive's central directory, not yet decompressed
+ */
+export interface ZipEntryInfo {
+  name: string;
+  method: number;
+  compressedSize: number;
+  // Uncompressed size as declared by the archive
+  size: number;
+  localOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// More entries than any batch could use, listing them is cheap but there's no reason to go on
+const MAX_ZIP_ENTRIES = 1000;
+
+/**
+ * List the files in a zip archive without decompressing anything
+ * Callers check the count and declared sizes before reading entries with readZipEntry
+ */
+export function listZipEntries(archive: Buffer): ZipEntryInfo[] {
+  // The end of central directory record sits in the last 64KB (comment size is at most 65535)
+  let endOffset = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 65557); i--) {
+    if (archive.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error('Not a zip archive');
+  }
+
+  const entryCount = archive.readUInt16LE(endOffset + 10);
+  if (entryCount > MAX_ZIP_ENTRIES) {
+    throw new Error(`Zip archive has ${entryCount} entries, at most ${MAX_ZIP_ENTRIES} are supported`);
+  }
+
+  let offset = archive.readUInt32LE(endOffset + 16);
+  const entries: ZipEntryInfo[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt zip central directory');
+    }
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Directories have no data
+    if (name.endsWith('/')) continue;
+
+    entries.push({ name, method, compressedSize, size, localOffset });
+  }
+
+  return entries;
+}
+
+/**
+ * Decompress one entry of a zip archive
+ * Supports stored and deflated entries, which covers archives made by the OS and common tools.
+ * Output is capped at the declared size, so an entry that lies about it can't exhaust memory
+ * @returns The entry's data, or null for unsupported compression methods
+ */
+export function readZipEntry(archive: Buffer, entry: ZipEntryInfo): Buffer | null {
+  const { name, method, compressedSize, size, localOffset } = entry;
+
+  if (localOffset + 30 > archive.length || archive.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt zip entry: ${name}`);
+  }
+  // The local header's name and extra fields can differ in length from the central directory's
+  const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+  const compressed = archive.subarray(dataStart, dataStart + compressedSize);
+
+  if (method === 0) {
+    return Buffer.from(compressed.subarray(0, size));
+  }
+  if (method === 8) {
+    try {
+      return zlib.inflateRawSync(compressed, { maxOutputLength: Math.max(1, size) });
+    } catch (error) {
+      console.error(`Could not inflate zip entry ${name}:`, error);
+      throw new Error(`Corrupt zip entry: ${name}`);
+    }
+  }
+
+  console.warn(`Skipping zip entry ${name} with unsupported compression method ${method}`);
+  return null;
+}
@@ -0,0 +1,90 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { getActiveModel, ModelVersion, ScoringModelSource } from '@/app/utils/scoringModel';
+import { computeModelChecksum } from './pipeline/model';
+import { ModelArtifact } from './pipeline/types';
+
+// Versioned artifacts written by npm run build-model
+const MODELS_DIR = path.join(process.cwd(), 'data', 'analysis', 'models');
+
+// Version ids are used as file names, so keep them to safe characters
+const VERSION_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+export interface ModelVersionSummary extends ModelVersion {
+  generatedAt: string;
+  sampleCount: number;
+  active: boolean;
+}
+
+async function readArtifact(version: string): Promise<ModelArtifact | null> {
+  if (!VERSION_PATTERN.test(version)) {
+    return null;
+  }
+
+  try {
+    const raw = await fs.readFile(path.join(MODELS_DIR, `${version}.json`), 'utf8');
+    return JSON.parse(raw);
+  } catch (error) {
+    console.error(`Error reading scoring model ${version}:`, error);
+    return null;
+  }
+}
+
+/**
+ * List the scoring model versions available for re-scoring, newest first
+ */
+export async function listModelVersions(): Promise<ModelVersionSummary[]> {
+  const active = getActiveModel();
+
+  try {
+    const files = await fs.readdir(MODELS_DIR);
+    const artifacts = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => readArtifact(path.basename(file, '.json')))
+    );
+
+    return artifacts
+      .filter((artifact): artifact is ModelArtifact => artifact !== null)
+      .map(artifact => ({
+        version: artifact.version,
+        checksum: artifact.checksum,
+        generatedAt: artifact.generatedAt,
+        sampleCount: artifact.source.sampleCount,
+        active: artifact.checksum === active.checksum,
+      }))
+      .sort((a, b) => b.generatedAt.localeCompare(a.generatedAt));
+  } catch (error) {
+    console.error('Error listing scoring models:', error);
+    return [];
+  }
+}
+
+/**
+ * Load a scoring model version
+ * Returns null when the version doesn't exist or its checksum doesn't match its contents
+ */
+export async function loadModelVersion(version: string): Promise<ScoringModelSource | null> {
+  const active = getActiveModel();
+  if (version === active.version) {
+    return active;
+  }
+
+  const artifact = await readArtifact(version);
+  if (!artifact) {
+    return null;
+  }
+
+  const checksum = computeModelChecksum(artifact.model, artifact.findings, artifact.schemaVersion);
+  if (checksum !== artifact.checksum) {
+    console.error(`Scoring model ${version} failed its checksum, expected ${artifact.checksum} but got ${checksum}`);
+    return null;
+  }
+
+  return {
+    version: artifact.version,
+    checksum: artifact.checksum,
+    model: artifact.model,
+    findings: artifact.findings,
+  };
+}
@@ -0,0 +1,158 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { analyzeImage } from '../../app/utils/vision';
+import { extractFeatures } from '../../app/utils/features';
+import { calculateContrastRatio, categorizeColorRange, hexToRgb } from '../../app/utils/colorAnalysis';
+import { VisionAnalysis } from '../../app/types';
+import { CachedAnalysisRecord, FeatureSource, TrainingFeatures, TrainingSample, VideoRecord } from './types';
+
+/**
+ * Load the cached thumbnail analysis records
+ */
+export async function loadCachedAnalyses(dataDir: string): Promise<CachedAnalysisRecord[]> {
+  const raw = await fs.readFile(path.join(dataDir, 'analysis', 'thumbnail_analysis.json'), 'utf8');
+  return JSON.parse(raw);
+}
+
+// HSV saturation of a single color, 0-1
+function calculateSaturation(red: number, green: number, blue: number): number {
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  return max === 0 ? 0 : (max - min) / max;
+}
+
+/**
+ * Score dominant colors on contrast and vibrancy, 0-100
+ * Same formula the original analysis script used, so cached and
+ * re-analyzed color scores are comparable
+ */
+export function calculateColorScore(colors: Array<{ hex: string; score: number }>): number {
+  // Contrast between the two most dominant colors, normalized from the 1-21 WCAG range
+  const contrastScore = colors.length >= 2
+    ? calculateContrastRatio(colors[0].hex, colors[1].hex) / 21 * 100
+    : 0;
+
+  // Vibrancy of the top three colors, weighted by how dominant each is
+  const vibrancyScore = colors.slice(0, 3).reduce((sum, color) => {
+    const rgb = hexToRgb(color.hex);
+    return rgb ? sum + calculateSaturation(rgb.r, rgb.g, rgb.b) * color.score : sum;
+  }, 0) * 100;
+
+  return Math.round((contrastScore * 0.6) + (vibrancyScore * 0.4));
+}
+
+/**
+ * Features from a cached Vision record
+ */
+export function featuresFromCachedAnalysis(record: CachedAnalysisRecord): TrainingFeatures {
+  const { analysis } = record;
+  const dominant = analysis.dominantColors[0];
+
+  return {
+    hasText: analysis.hasText,
+    // Kept as recorded so cached runs reproduce the committed findings -
+    // the script subtracted the full-text entity, so images without text hold -1
+    textEntities: analysis.textEntities,
+    textCharCount: analysis.textCharCount,
+    hasFace: analysis.hasFace,
+    faceCount: analysis.faceCount,
+    faceCoverage: typeof analysis.faceCoverage === 'number' ? analysis.faceCoverage : 0,
+    colorScore: analysis.colorScore,
+    dominantColorRange: dominant ? categorizeColorRange(dominant.hex) : undefined,
+    objectCount: analysis.objectCount,
+    objects: analysis.objects.map(object => object.name),
+  };
+}
+
+/**
+ * Features from running the web app's analysis on a thumbnail image
+ * Uses whichever provider IMAGE_ANALYSIS_PROVIDER selects - fixture or local keep it offline
+ */
+export async function featuresFromImage(imageBuffer: Buffer): Promise<TrainingFeatures> {
+  return featuresFromVision(await analyzeImage(imageBuffer));
+}
+
+/**
+ * Features from the web app's vision output
+ */
+export function featuresFromVision(vision: VisionAnalysis): TrainingFeatures {
+  const features = extractFeatures(vision);
+
+  // Vision only keeps hex colors, so weight them by their palette coverage when we have it
+  const palette = vision.analysis.colors.palette;
+  const colors = palette && palette.length > 0
+    ? palette.map(color => ({ hex: color.hex, score: color.coverage / 100 }))
+    : features.colors.dominant.map(hex => ({ hex, score: 1 / features.colors.dominant.length }));
+
+  return {
+    hasText: features.text.count > 0,
+    textEntities: features.text.count,
+    textCharCount: features.text.characterCount,
+    hasFace: features.faces.count > 0,
+    faceCount: features.faces.count,
+    faceCoverage: features.faces.coverage,
+    colorScore: calculateColorScore(colors),
+    dominantColorRange: features.colors.dominant[0]
+      ? categorizeColorRange(features.colors.dominant[0])
+      : undefined,
+    objectCount: features.objects.length,
+    objects: features.objects,
+  };
+}
+
+// Strip the cached analysis down to the video metadata
+function toVideoRecord(record: CachedAnalysisRecord): VideoRecord {
+  return {
+    id: record.id,
+    title: record.title,
+    channelTitle: record.channelTitle,
+    categoryId: record.categoryId,
+    publishedAt: record.publishedAt,
+    viewCount: record.viewCount,
+    likeCount: record.likeCount,
+    commentCount: record.commentCount,
+    thumbnailUrl: record.thumbnailUrl,
+    duration: record.duration,
+    ctr: record.ctr,
+  };
+}
+
+/**
+ * Build training samples from the cached dataset
+ * Re-analysis reads data/thumbnails/<videoId>.jpg; videos without a cached
+ * thumbnail are skipped rather than fetched
+ */
+export async function buildTrainingSamples(
+  dataDir: string,
+  featureSource: FeatureSource = 'cached'
+): Promise<TrainingSample[]> {
+  const records = await loadCachedAnalyses(dataDir);
+  const samples: TrainingSample[] = [];
+
+  for (const record of records) {
+    let features: TrainingFeatures;
+
+    if (featureSource === 'reanalyze') {
+      const thumbnailPath = path.join(dataDir, 'thumbnails', `${record.id}.jpg`);
+      try {
+        const imageBuffer = await fs.readFile(thumbnailPath);
+        features = await featuresFromImage(imageBuffer);
+      } catch (error) {
+        console.error(`Skipping ${record.id}, could not analyze ${thumbnailPath}:`, error);
+        continue;
+      }
+    } else {
+      features = featuresFromCachedAnalysis(record);
+    }
+
+    samples.push({
+      video: toVideoRecord(record),
+      categoryName: record.categoryName,
+      features,
+      // Estimated CTR until another engagement target is applied
+      target: parseFloat(record.ctr),
+    });
+  }
+
+  return samples;
+}
@@ -0,0 +1,111 @@
+import { FindingsData, FindingsDifferences, FindingsStats } from '../../app/utils/scoringModel';
+import { TrainingSample } from './types';
+
+/**
+ * Average of the finite numbers in a list, 0 when there are none
+ */
+export function average(numbers: number[]): number {
+  const validNumbers = numbers.filter(n => typeof n === 'number' && !isNaN(n));
+  if (validNumbers.length === 0) return 0;
+  return validNumbers.reduce((sum, num) => sum + num, 0) / validNumbers.length;
+}
+
+// Count how often each key appears and rank them
+function rankCounts(keys: string[], total: number): Array<{ key: string; count: number; percentage: number }> {
+  const counts: Record<string, number> = {};
+  keys.forEach(key => {
+    counts[key] = (counts[key] || 0) + 1;
+  });
+
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .map(([key, count]) => ({ key, count, percentage: (count / total) * 100 }));
+}
+
+/**
+ * Aggregate statistics for a set of samples
+ */
+export function calculateStats(samples: TrainingSample[]): FindingsStats {
+  const features = samples.map(sample => sample.features);
+  const withText = features.filter(f => f.hasText).length;
+  const withFaces = features.filter(f => f.hasFace).length;
+
+  return {
+    count: samples.length,
+    textStats: {
+      withText,
+      withTextPercentage: (withText / samples.length) * 100,
+      avgTextEntities: average(features.map(f => f.textEntities)),
+      avgCharCount: average(features.map(f => f.textCharCount)),
+    },
+    faceStats: {
+      withFaces,
+      withFacesPercentage: (withFaces / samples.length) * 100,
+      avgFaceCount: average(features.map(f => f.faceCount)),
+      avgFaceCoverage: average(features.map(f => f.faceCoverage)),
+    },
+    colorStats: {
+      avgColorScore: average(features.map(f => f.colorScore)),
+      // Only the most dominant color of each thumbnail is counted
+      mostCommonColorRanges: rankCounts(
+        features.map(f => f.dominantColorRange).filter((range): range is string => !!range),
+        samples.length
+      ).map(({ key, count, percentage }) => ({ range: key, count, percentage })),
+    },
+    objectStats: {
+      avgObjectCount: average(features.map(f => f.objectCount)),
+      // Objects are counted per detection, so Person can exceed 100%
+      mostCommonObjects: rankCounts(features.flatMap(f => f.objects), samples.length)
+        .slice(0, 10)
+        .map(({ key, count, percentage }) => ({ name: key, count, percentage })),
+    },
+  };
+}
+
+/**
+ * Key differences between high and low CTR thumbnails
+ */
+export function calculateDifferences(highCTR: FindingsStats, lowCTR: FindingsStats): FindingsDifferences {
+  const compare = (high: number, low: number) => ({ difference: high - low, highCTR: high, lowCTR: low });
+
+  return {
+    textPresence: compare(highCTR.textStats.withTextPercentage, lowCTR.textStats.withTextPercentage),
+    facePresence: compare(highCTR.faceStats.withFacesPercentage, lowCTR.faceStats.withFacesPercentage),
+    faceCoverage: compare(highCTR.faceStats.avgFaceCoverage, lowCTR.faceStats.avgFaceCoverage),
+    colorScore: compare(highCTR.colorStats.avgColorScore, lowCTR.colorStats.avgColorScore),
+    textEntities: compare(highCTR.textStats.avgTextEntities, lowCTR.textStats.avgTextEntities),
+    objectCount: compare(highCTR.objectStats?.avgObjectCount || 0, lowCTR.objectStats?.avgObjectCount || 0),
+  };
+}
+
+/**
+ * Compute overall, per-category and high-vs-low CTR findings
+ */
+export function computeFindings(samples: TrainingSample[]): FindingsData {
+  if (samples.length === 0) {
+    throw new Error('Cannot compute findings without any samples');
+  }
+
+  // Categories in the order they first appear in the dataset
+  const categories = [...new Set(samples.map(sample => sample.categoryName))];
+  const byCategory: Record<string, FindingsStats> = {};
+  for (const category of categories) {
+    byCategory[category] = calculateStats(samples.filter(sample => sample.categoryName === category));
+  }
+
+  // Top and bottom quartiles of the engagement target
+  const sortedByCTR = [...samples].sort((a, b) => b.target - a.target);
+  const quartileSize = Math.max(1, Math.floor(sortedByCTR.length / 4));
+  const highCTR = calculateStats(sortedByCTR.slice(0, quartileSize));
+  const lowCTR = calculateStats(sortedByCTR.slice(-quartileSize));
+
+  return {
+    overall: calculateStats(samples),
+    byCategory,
+    comparison: {
+      highCTR,
+      lowCTR,
+      differences: calculateDifferences(highCTR, lowCTR),
+    },
+  };
+}
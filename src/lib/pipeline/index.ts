@@ -0,0 +1,97 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { buildTrainingSamples } from './dataset';
+import { computeFindings } from './findings';
+import { createModelArtifact, FitOptions, getPromotionBlocker, WeightMethod } from './model';
+import { applyEngagementTarget, createEngagementTarget, EngagementTargetId, EngagementTargetOptions } from './targets';
+import { FeatureSource, ModelArtifact } from './types';
+
+export * from './types';
+export { buildTrainingSamples, featuresFromCachedAnalysis, featuresFromImage, featuresFromVision, calculateColorScore } from './dataset';
+export { computeFindings, calculateStats, calculateDifferences } from './findings';
+export {
+  generateScoringModel,
+  generateCategorySpecificThresholds,
+  createModelArtifact,
+  computeModelChecksum,
+  fitScoringWeights,
+  getPromotionBlocker,
+} from './model';
+export type { FitOptions, WeightMethod } from './model';
+export { ENGAGEMENT_TARGET_IDS, createEngagementTarget, applyEngagementTarget } from './targets';
+export type { EngagementTarget, EngagementTargetId, EngagementTargetOptions } from './targets';
+
+export interface PipelineOptions {
+  // Directory holding videos.json, thumbnails/ and analysis/
+  dataDir: string;
+  // Where findings.json, scoring_model.json and models/ are written, defaults to <dataDir>/analysis
+  outDir?: string;
+  featureSource?: FeatureSource;
+  version?: string;
+  // Defaults to regression
+  weightMethod?: WeightMethod;
+  fit?: FitOptions;
+  // Defaults to estimated-ctr, the script's original proxy
+  target?: EngagementTargetId;
+  targetOptions?: EngagementTargetOptions;
+}
+
+export interface PipelineResult {
+  artifact: ModelArtifact;
+  // False when the model was saved but didn't replace the active one
+  promoted: boolean;
+}
+
+/**
+ * Build the findings and scoring model from the cached dataset
+ * Writes a versioned artifact to models/<version>.json, and refreshes the
+ * findings.json and scoring_model.json the web app imports with that version.
+ * An existing version is never overwritten, and a fit that does worse than the
+ * predict-the-mean baseline on its holdout is saved without being made active
+ */
+export async function runPipeline(options: PipelineOptions): Promise<PipelineResult> {
+  const featureSource = options.featureSource || 'cached';
+  const outDir = options.outDir || path.join(options.dataDir, 'analysis');
+
+  const target = createEngagementTarget(options.target || 'estimated-ctr', options.targetOptions);
+  const { samples, info } = await applyEngagementTarget(
+    await buildTrainingSamples(options.dataDir, featureSource),
+    target
+  );
+  console.log(`Built ${samples.length} training samples from ${featureSource} features, targeting ${target.id}`);
+
+  const findings = computeFindings(samples);
+  const artifact = createModelArtifact(samples, findings, featureSource, {
+    version: options.version,
+    weightMethod: options.weightMethod,
+    fit: options.fit,
+    target: info,
+  });
+
+  const modelsDir = path.join(outDir, 'models');
+  await fs.mkdir(modelsDir, { recursive: true });
+  // Published versions are immutable - analyses and benchmarks refer to them by version id
+  try {
+    await fs.writeFile(path.join(modelsDir, `${artifact.version}.json`), JSON.stringify(artifact, null, 2), { flag: 'wx' });
+  } catch (error: any) {
+    if (error.code === 'EEXIST') {
+      throw new Error(`Model version ${artifact.version} already exists, pick a new --version`);
+    }
+    throw error;
+  }
+  console.log(`Saved model ${artifact.version} to ${modelsDir}`);
+
+  const blocker = getPromotionBlocker(artifact.model);
+  if (blocker) {
+    console.warn(`Not making model ${artifact.version} active: ${blocker}`);
+    return { artifact, promoted: false };
+  }
+
+  await fs.writeFile(path.join(outDir, 'findings.json'), JSON.stringify(artifact.findings, null, 2));
+  // The web app reads the version from scoring_model.json to tag the scores it produces
+  const versionedModel = { version: artifact.version, checksum: artifact.checksum, ...artifact.model };
+  await fs.writeFile(path.join(outDir, 'scoring_model.json'), JSON.stringify(versionedModel, null, 2));
+
+  console.log(`Model ${artifact.version} is now active`);
+  return { artifact, promoted: true };
+}
@@ -0,0 +1,327 @@
+import crypto from 'crypto';
+import {
+  CategoryThresholds,
+  EngagementTargetInfo,
+  FindingsData,
+  FindingsStats,
+  FitMetrics,
+  ModelFit,
+  ScoringModel,
+  WeightKey,
+} from '../../app/utils/scoringModel';
+import { columnStats, evaluate, fitRidge, Matrix, predict, seededShuffle, standardize, tCritical } from './regression';
+import { FeatureSource, ModelArtifact, TrainingFeatures, TrainingSample } from './types';
+
+/**
+ * How scoring weights are derived
+ * - regression: ridge regression of the engagement target on the features
+ * - heuristic: the original script's clamped high vs low CTR differences
+ */
+export type WeightMethod = 'regression' | 'heuristic';
+
+export interface FitOptions {
+  // Name of the fitted target, recorded in the fit
+  target?: string;
+  // Seed for the fold and holdout split
+  seed?: number;
+  folds?: number;
+  holdoutFraction?: number;
+  lambdas?: number[];
+}
+
+// Weights calculateOverallScore reads - objectCount has no part in the overall score, so it isn't fitted
+type FittedWeightKey = Exclude<WeightKey, 'objectCount'>;
+
+// Feature behind each fitted weight, in the order of the regression columns
+const WEIGHT_FEATURES: Record<FittedWeightKey, (features: TrainingFeatures) => number> = {
+  textPresence: features => (features.hasText ? 1 : 0),
+  facePresence: features => (features.hasFace ? 1 : 0),
+  faceCoverage: features => features.faceCoverage,
+  colorScore: features => features.colorScore,
+  textEntities: features => features.textEntities,
+};
+const WEIGHT_KEYS = Object.keys(WEIGHT_FEATURES) as FittedWeightKey[];
+
+// Weights a regression fit leaves alone
+const UNFITTED_WEIGHTS: Pick<ScoringModel['weights'], Exclude<WeightKey, FittedWeightKey>> = {
+  objectCount: 0,
+};
+
+function toDesignMatrix(samples: TrainingSample[]): { x: Matrix; y: number[] } {
+  return {
+    x: samples.map(sample => WEIGHT_KEYS.map(key => WEIGHT_FEATURES[key](sample.features))),
+    y: samples.map(sample => sample.target),
+  };
+}
+
+// Standardize on the training rows, fit, and score the held-out rows
+function fitAndEvaluate(train: TrainingSample[], test: TrainingSample[], lambda: number): FitMetrics {
+  const trainData = toDesignMatrix(train);
+  const testData = toDesignMatrix(test);
+  const stats = columnStats(trainData.x);
+  const fit = fitRidge(standardize(trainData.x, stats), trainData.y, lambda);
+  return evaluate(predict(fit, standardize(testData.x, stats)), testData.y, fit.intercept);
+}
+
+function averageMetrics(metrics: FitMetrics[]): FitMetrics {
+  const mean = (key: keyof FitMetrics) => metrics.reduce((sum, m) => sum + m[key], 0) / metrics.length;
+  return { rmse: mean('rmse'), mae: mean('mae'), r2: mean('r2'), baselineRmse: mean('baselineRmse') };
+}
+
+/**
+ * Fit scoring weights by ridge regression of the engagement target on the standardized features
+ * A seeded holdout is set aside first, the penalty is chosen by k-fold
+ * cross-validation on the rest, and the reported coefficients are refit on every sample.
+ * Weights share out the positive coefficients - traits that lower the target get a weight of zero
+ */
+export function fitScoringWeights(
+  samples: TrainingSample[],
+  options: FitOptions = {}
+): { weights: ScoringModel['weights']; fit: ModelFit } {
+  const seed = options.seed ?? 42;
+  const folds = options.folds ?? 5;
+  const lambdas = options.lambdas ?? [0.1, 1, 5, 10, 25, 50];
+
+  const shuffled = seededShuffle([...samples].sort((a, b) => a.video.id.localeCompare(b.video.id)), seed);
+  const holdoutSize = Math.max(1, Math.round(shuffled.length * (options.holdoutFraction ?? 0.2)));
+  const holdout = shuffled.slice(0, holdoutSize);
+  const training = shuffled.slice(holdoutSize);
+  if (training.length < folds * 2) {
+    throw new Error(`Need at least ${folds * 2 + holdoutSize} samples to fit weights, got ${samples.length}`);
+  }
+
+  // Pick the penalty with the lowest cross-validated RMSE
+  const crossValidated = lambdas.map(lambda => {
+    const foldMetrics = Array.from({ length: folds }, (_, fold) => fitAndEvaluate(
+      training.filter((_, i) => i % folds !== fold),
+      training.filter((_, i) => i % folds === fold),
+      lambda
+    ));
+    return { lambda, metrics: averageMetrics(foldMetrics) };
+  });
+  const best = crossValidated.reduce((a, b) => (b.metrics.rmse < a.metrics.rmse ? b : a));
+
+  const holdoutMetrics = fitAndEvaluate(training, holdout, best.lambda);
+
+  // Final coefficients from every sample
+  const all = toDesignMatrix(samples);
+  const stats = columnStats(all.x);
+  const fit = fitRidge(standardize(all.x, stats), all.y, best.lambda);
+  const t = tCritical(fit.degreesOfFreedom);
+
+  // Features that never varied can't be estimated, so they get no weight and the rest share all of it
+  const estimable = stats.stdDevs.map(stdDev => stdDev > 0);
+  // The scores reward each trait, so a negative coefficient can't be expressed as a weight
+  const clamped = fit.coefficients.map((c, j) => estimable[j] && c < 0);
+  const totalPositive = fit.coefficients.reduce((sum, c, j) => sum + (estimable[j] ? Math.max(0, c) : 0), 0);
+  const scale = totalPositive > 0 ? 1 / totalPositive : 0;
+  const unclampedCount = estimable.filter((e, j) => e && !clamped[j]).length;
+
+  const coefficients: ModelFit['coefficients'] = {};
+  const weights = {} as ScoringModel['weights'];
+  WEIGHT_KEYS.forEach((key, j) => {
+    const coefficient = fit.coefficients[j];
+    const standardError = Math.sqrt(Math.max(0, fit.covariance[j][j]));
+    const lower = coefficient - t * standardError;
+    const upper = coefficient + t * standardError;
+
+    // With no positive coefficient at all, the unclamped estimable features split the weight evenly
+    const weight = !estimable[j] || clamped[j]
+      ? 0
+      : (scale > 0 ? coefficient * scale : 1 / unclampedCount);
+    weights[key] = weight;
+    coefficients[key] = {
+      coefficient,
+      standardError,
+      confidenceInterval: { lower, upper },
+      weight,
+      // Clamped the same way, and to the 0-1 range weights live in
+      weightInterval: estimable[j] && scale > 0
+        ? { lower: Math.min(1, Math.max(0, lower) * scale), upper: Math.min(1, Math.max(0, upper) * scale) }
+        : { lower: weight, upper: weight },
+      estimable: estimable[j],
+      clamped: clamped[j],
+    };
+  });
+  Object.assign(weights, UNFITTED_WEIGHTS);
+
+  return {
+    weights,
+    fit: {
+      method: 'ridge',
+      target: options.target ?? 'estimated-ctr',
+      lambda: best.lambda,
+      seed,
+      sampleCount: samples.length,
+      intercept: fit.intercept,
+      coefficients,
+      crossValidation: { ...best.metrics, folds },
+      holdout: { ...holdoutMetrics, sampleCount: holdout.length },
+    },
+  };
+}
+
+/**
+ * Why a model shouldn't replace the active one, or null when it can
+ * A fitted model has to predict its holdout at least as well as always guessing the mean (R² of 0)
+ */
+export function getPromotionBlocker(model: ScoringModel): string | null {
+  const holdout = model.fit?.holdout;
+  if (holdout && holdout.rmse > holdout.baselineRmse) {
+    return `holdout R² ${holdout.r2.toFixed(3)} is worse than the predict-the-mean baseline`;
+  }
+  return null;
+}
+
+// Clamp a CTR difference to a weight between 0.1 and 0.5
+function normalizeWeight(value: number): number {
+  // Ensure minimum weight of 0.1 for each factor
+  return Math.max(0.1, Math.min(0.5, value / 100));
+}
+
+/**
+ * Thresholds for each category, from its own findings
+ */
+export function generateCategorySpecificThresholds(
+  categoryStats: Record<string, FindingsStats>
+): Record<string, CategoryThresholds> {
+  const categoryThresholds: Record<string, CategoryThresholds> = {};
+
+  for (const [category, stats] of Object.entries(categoryStats)) {
+    categoryThresholds[category] = {
+      textPresence: stats.textStats.withTextPercentage > 50,
+      facePresence: stats.faceStats.withFacesPercentage > 50,
+      faceCoverage: stats.faceStats.avgFaceCoverage,
+      colorScore: stats.colorStats.avgColorScore,
+      textEntities: stats.textStats.avgTextEntities,
+      objectCount: stats.objectStats?.avgObjectCount || 0,
+      commonColors: stats.colorStats.mostCommonColorRanges.slice(0, 3),
+      commonObjects: stats.objectStats?.mostCommonObjects.slice(0, 5) || [],
+    };
+  }
+
+  return categoryThresholds;
+}
+
+// Weights from the size of each high vs low CTR difference
+function heuristicWeights(findings: FindingsData): ScoringModel['weights'] {
+  const { differences } = findings.comparison!;
+
+  const weights: ScoringModel['weights'] = {
+    textPresence: normalizeWeight(Math.abs(differences.textPresence.difference)),
+    facePresence: normalizeWeight(Math.abs(differences.facePresence.difference)),
+    faceCoverage: normalizeWeight(Math.abs(differences.faceCoverage.difference)),
+    colorScore: normalizeWeight(Math.abs(differences.colorScore.difference)),
+    textEntities: normalizeWeight(Math.abs(differences.textEntities.difference)),
+    objectCount: normalizeWeight(Math.abs(differences.objectCount.difference)),
+  };
+
+  // Normalize weights to sum to 1
+  const totalWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+  for (const key of Object.keys(weights) as Array<keyof ScoringModel['weights']>) {
+    weights[key] = weights[key] / totalWeight;
+  }
+
+  return weights;
+}
+
+/**
+ * Generate a scoring model from the findings
+ * Weights are fitted by regression on the samples, or follow the high vs low
+ * CTR differences with the heuristic method. Thresholds follow the high CTR quartile
+ */
+export function generateScoringModel(
+  findings: FindingsData,
+  samples: TrainingSample[] = [],
+  options: { weightMethod?: WeightMethod; fit?: FitOptions; target?: EngagementTargetInfo } = {}
+): ScoringModel {
+  const { comparison } = findings;
+  if (!comparison) {
+    throw new Error('Findings are missing the high vs low CTR comparison');
+  }
+
+  const method = options.weightMethod ?? 'regression';
+  const fitted = method === 'regression'
+    ? fitScoringWeights(samples, { target: options.target?.id, ...options.fit })
+    : undefined;
+  const weights = fitted ? fitted.weights : heuristicWeights(findings);
+
+  const thresholds: ScoringModel['thresholds'] = {
+    textPresence: comparison.highCTR.textStats.withTextPercentage > 50,
+    facePresence: comparison.highCTR.faceStats.withFacesPercentage > 50,
+    faceCoverage: comparison.highCTR.faceStats.avgFaceCoverage,
+    colorScore: comparison.highCTR.colorStats.avgColorScore,
+    textEntities: comparison.highCTR.textStats.avgTextEntities,
+    objectCount: comparison.highCTR.objectStats?.avgObjectCount || 0,
+  };
+
+  return {
+    weights,
+    thresholds,
+    categorySpecific: generateCategorySpecificThresholds(findings.byCategory || {}),
+    ...(fitted ? { fit: fitted.fit } : {}),
+    ...(options.target ? { target: options.target } : {}),
+  };
+}
+
+// Schema of the artifacts createModelArtifact writes
+export const MODEL_SCHEMA_VERSION = 2;
+
+/**
+ * Checksum of a model and its findings
+ * Version fields are left out. Schema 1 covers what affects scores, schema 2 also
+ * covers the fit and target, so the reported coefficients and holdout stats can't change either
+ */
+export function computeModelChecksum(
+  model: ScoringModel,
+  findings: FindingsData,
+  schemaVersion: ModelArtifact['schemaVersion'] = MODEL_SCHEMA_VERSION
+): string {
+  const { weights, thresholds, categorySpecific, fit, target } = model;
+  const covered = schemaVersion === 1
+    ? { weights, thresholds, categorySpecific }
+    : { weights, thresholds, categorySpecific, fit: fit ?? null, target: target ?? null };
+
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ model: covered, findings }))
+    .digest('hex');
+}
+
+// Timestamp based version id, e.g. 20261019-142500
+function versionFromDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+}
+
+/**
+ * Wrap a model and its findings in a versioned artifact
+ */
+export function createModelArtifact(
+  samples: TrainingSample[],
+  findings: FindingsData,
+  featureSource: FeatureSource,
+  options: {
+    version?: string;
+    generatedAt?: Date;
+    weightMethod?: WeightMethod;
+    fit?: FitOptions;
+    target?: EngagementTargetInfo;
+  } = {}
+): ModelArtifact {
+  const generatedAt = options.generatedAt || new Date();
+  const model = generateScoringModel(findings, samples, options);
+
+  return {
+    schemaVersion: MODEL_SCHEMA_VERSION,
+    version: options.version || versionFromDate(generatedAt),
+    checksum: computeModelChecksum(model, findings, MODEL_SCHEMA_VERSION),
+    generatedAt: generatedAt.toISOString(),
+    source: {
+      featureSource,
+      sampleCount: samples.length,
+      categories: Object.keys(findings.byCategory || {}),
+    },
+    model,
+    findings,
+  };
+}
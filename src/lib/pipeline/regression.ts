@@ -0,0 +1,171 @@
+/**
+ * Small ridge regression toolkit for fitting scoring weights
+ * The dataset is tens of rows by a handful of features, so plain arrays
+ * and Gaussian elimination are plenty
+ */
+
+import { FitMetrics } from '../../app/utils/scoringModel';
+
+export type Matrix = number[][];
+
+export interface RidgeFit {
+  intercept: number;
+  coefficients: number[];
+  // Covariance of the coefficients, used for standard errors
+  covariance: Matrix;
+  residualVariance: number;
+  degreesOfFreedom: number;
+}
+
+function transpose(matrix: Matrix): Matrix {
+  return matrix[0].map((_, column) => matrix.map(row => row[column]));
+}
+
+function multiply(a: Matrix, b: Matrix): Matrix {
+  return a.map(row => b[0].map((_, column) => row.reduce((sum, value, k) => sum + value * b[k][column], 0)));
+}
+
+// Invert a square matrix with Gauss-Jordan elimination and partial pivoting
+function invert(matrix: Matrix): Matrix {
+  const size = matrix.length;
+  const augmented = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+
+  for (let column = 0; column < size; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < size; row++) {
+      if (Math.abs(augmented[row][column]) > Math.abs(augmented[pivot][column])) pivot = row;
+    }
+    if (Math.abs(augmented[pivot][column]) < 1e-12) {
+      throw new Error('Matrix is singular');
+    }
+    [augmented[column], augmented[pivot]] = [augmented[pivot], augmented[column]];
+
+    const pivotValue = augmented[column][column];
+    augmented[column] = augmented[column].map(value => value / pivotValue);
+
+    for (let row = 0; row < size; row++) {
+      if (row === column) continue;
+      const factor = augmented[row][column];
+      augmented[row] = augmented[row].map((value, k) => value - factor * augmented[column][k]);
+    }
+  }
+
+  return augmented.map(row => row.slice(size));
+}
+
+/**
+ * Fit y = intercept + X·β with an L2 penalty on β
+ * X should already be standardized so the penalty treats every feature alike
+ */
+export function fitRidge(x: Matrix, y: number[], lambda: number): RidgeFit {
+  const n = y.length;
+  const p = x[0].length;
+  const intercept = y.reduce((sum, value) => sum + value, 0) / n;
+  const centered = y.map(value => [value - intercept]);
+
+  const xt = transpose(x);
+  const xtx = multiply(xt, x);
+  const penalized = xtx.map((row, i) => row.map((value, j) => (i === j ? value + lambda : value)));
+  const penalizedInverse = invert(penalized);
+  const coefficients = multiply(penalizedInverse, multiply(xt, centered)).map(row => row[0]);
+
+  const residuals = centered.map((row, i) => row[0] - x[i].reduce((sum, value, j) => sum + value * coefficients[j], 0));
+  const degreesOfFreedom = Math.max(1, n - p - 1);
+  const residualVariance = residuals.reduce((sum, r) => sum + r * r, 0) / degreesOfFreedom;
+
+  // Sandwich form of the ridge covariance, reduces to σ²(XᵀX)⁻¹ when lambda is 0
+  const covariance = multiply(multiply(penalizedInverse, xtx), penalizedInverse)
+    .map(row => row.map(value => value * residualVariance));
+
+  return { intercept, coefficients, covariance, residualVariance, degreesOfFreedom };
+}
+
+export function predict(fit: Pick<RidgeFit, 'intercept' | 'coefficients'>, x: Matrix): number[] {
+  return x.map(row => fit.intercept + row.reduce((sum, value, j) => sum + value * fit.coefficients[j], 0));
+}
+
+/**
+ * Error metrics for predictions, relative to a baseline of the training mean
+ */
+export function evaluate(predicted: number[], actual: number[], trainingMean: number): FitMetrics {
+  const n = actual.length;
+  const squaredError = actual.reduce((sum, value, i) => sum + Math.pow(value - predicted[i], 2), 0);
+  const baselineError = actual.reduce((sum, value) => sum + Math.pow(value - trainingMean, 2), 0);
+
+  return {
+    rmse: Math.sqrt(squaredError / n),
+    mae: actual.reduce((sum, value, i) => sum + Math.abs(value - predicted[i]), 0) / n,
+    r2: baselineError > 0 ? 1 - squaredError / baselineError : 0,
+    baselineRmse: Math.sqrt(baselineError / n),
+  };
+}
+
+/**
+ * Column means and standard deviations, for standardizing features
+ * Constant columns get a standard deviation of 0
+ */
+export function columnStats(x: Matrix): { means: number[]; stdDevs: number[] } {
+  const n = x.length;
+  const means = x[0].map((_, j) => x.reduce((sum, row) => sum + row[j], 0) / n);
+  const stdDevs = means.map((mean, j) => Math.sqrt(x.reduce((sum, row) => sum + Math.pow(row[j] - mean, 2), 0) / n));
+  return { means, stdDevs };
+}
+
+export function standardize(x: Matrix, stats: { means: number[]; stdDevs: number[] }): Matrix {
+  return x.map(row => row.map((value, j) => (stats.stdDevs[j] > 0 ? (value - stats.means[j]) / stats.stdDevs[j] : 0)));
+}
+
+/**
+ * Two-sided Student t critical value
+ * Cornish-Fisher expansion around the normal quantile, accurate to a few
+ * decimals for the degrees of freedom we see
+ */
+export function tCritical(degreesOfFreedom: number, confidence: number = 0.95): number {
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+  const df = degreesOfFreedom;
+  return z
+    + (Math.pow(z, 3) + z) / (4 * df)
+    + (5 * Math.pow(z, 5) + 16 * Math.pow(z, 3) + 3 * z) / (96 * df * df);
+}
+
+// Acklam's rational approximation of the standard normal quantile
+function normalQuantile(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Deterministic shuffle, so folds and the holdout are reproducible between runs
+ */
+export function seededShuffle<T>(items: T[], seed: number): T[] {
+  // mulberry32
+  let state = seed >>> 0;
+  const random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
@@ -0,0 +1,160 @@
+import fs from 'fs/promises';
+import { parseStudioCsv } from '../../app/utils/studioCsv';
+import { EngagementTargetInfo } from '../../app/utils/scoringModel';
+import { TrainingSample } from './types';
+
+/**
+ * What the model treats as thumbnail success
+ * - estimated-ctr: the analysis script's (likes + comments) / views proxy
+ * - views-per-hour: log views per hour since publishing
+ * - channel-relative: log2 of views over the channel's median views
+ * - studio-ctr: real impressions CTR from a YouTube Studio export
+ */
+export type EngagementTargetId = 'estimated-ctr' | 'views-per-hour' | 'channel-relative' | 'studio-ctr';
+
+export const ENGAGEMENT_TARGET_IDS: EngagementTargetId[] = ['estimated-ctr', 'views-per-hour', 'channel-relative', 'studio-ctr'];
+
+export interface EngagementTargetOptions {
+  // When the view counts were collected, required for views-per-hour
+  asOf?: Date;
+  // Path to a YouTube Studio "Table data.csv" export, required for studio-ctr
+  studioCsvPath?: string;
+  // Channels with fewer videos in the dataset are left out of channel-relative
+  minChannelVideos?: number;
+}
+
+export interface EngagementTarget {
+  id: EngagementTargetId;
+  description: string;
+  parameters?: Record<string, string | number>;
+  // Target value per video id; videos without a value are dropped from training
+  compute(samples: TrainingSample[]): Promise<Record<string, number>>;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+const estimatedCtr: EngagementTarget = {
+  id: 'estimated-ctr',
+  description: 'Estimated CTR, (likes + comments) / views as a percentage',
+  async compute(samples) {
+    return Object.fromEntries(samples.map(sample => [sample.video.id, parseFloat(sample.video.ctr)]));
+  },
+};
+
+function viewsPerHour(asOf: Date): EngagementTarget {
+  return {
+    id: 'views-per-hour',
+    description: 'log10 of views per hour between publishing and collection',
+    parameters: { asOf: asOf.toISOString() },
+    async compute(samples) {
+      const values: Record<string, number> = {};
+      for (const sample of samples) {
+        const hours = (asOf.getTime() - new Date(sample.video.publishedAt).getTime()) / 3600000;
+        // Videos published after the view counts were taken can't be measured
+        if (hours > 0) {
+          values[sample.video.id] = Math.log10(1 + sample.video.viewCount / hours);
+        }
+      }
+      return values;
+    },
+  };
+}
+
+function channelRelative(minChannelVideos: number): EngagementTarget {
+  return {
+    id: 'channel-relative',
+    description: 'log2 of views relative to the channel median',
+    parameters: { minChannelVideos },
+    async compute(samples) {
+      const viewsByChannel: Record<string, number[]> = {};
+      samples.forEach(sample => {
+        (viewsByChannel[sample.video.channelTitle] ||= []).push(sample.video.viewCount);
+      });
+
+      const values: Record<string, number> = {};
+      for (const sample of samples) {
+        const channelViews = viewsByChannel[sample.video.channelTitle];
+        const channelMedian = median(channelViews);
+        // A single video is its own median, which says nothing about the thumbnail
+        if (channelViews.length >= minChannelVideos && channelMedian > 0 && sample.video.viewCount > 0) {
+          values[sample.video.id] = Math.log2(sample.video.viewCount / channelMedian);
+        }
+      }
+      return values;
+    },
+  };
+}
+
+function studioCtr(csvPath: string): EngagementTarget {
+  return {
+    id: 'studio-ctr',
+    description: 'Impressions CTR from a YouTube Studio export, as a percentage',
+    parameters: { file: csvPath.split(/[\\/]/).pop() || csvPath },
+    async compute() {
+      const metrics = parseStudioCsv(await fs.readFile(csvPath, 'utf8'));
+      return Object.fromEntries(
+        metrics
+          .filter(row => row.ctr !== undefined)
+          .map(row => [row.videoId, row.ctr as number])
+      );
+    },
+  };
+}
+
+/**
+ * Create an engagement target by id
+ */
+export function createEngagementTarget(
+  id: EngagementTargetId,
+  options: EngagementTargetOptions = {}
+): EngagementTarget {
+  switch (id) {
+    case 'estimated-ctr':
+      return estimatedCtr;
+    case 'views-per-hour':
+      if (!options.asOf) {
+        throw new Error('views-per-hour needs the time the view counts were collected (--as-of)');
+      }
+      return viewsPerHour(options.asOf);
+    case 'channel-relative':
+      return channelRelative(options.minChannelVideos ?? 2);
+    case 'studio-ctr':
+      if (!options.studioCsvPath) {
+        throw new Error('studio-ctr needs a YouTube Studio CSV export (--studio-csv)');
+      }
+      return studioCtr(options.studioCsvPath);
+    default:
+      throw new Error(`Unknown engagement target: ${id}`);
+  }
+}
+
+/**
+ * Set each sample's target, dropping samples the target has no value for
+ */
+export async function applyEngagementTarget(
+  samples: TrainingSample[],
+  target: EngagementTarget
+): Promise<{ samples: TrainingSample[]; info: EngagementTargetInfo }> {
+  const values = await target.compute(samples);
+  const targeted = samples
+    .filter(sample => typeof values[sample.video.id] === 'number' && isFinite(values[sample.video.id]))
+    .map(sample => ({ ...sample, target: values[sample.video.id] }));
+
+  if (targeted.length < samples.length) {
+    console.log(`${target.id}: no value for ${samples.length - targeted.length} of ${samples.length} videos, leaving them out`);
+  }
+
+  return {
+    samples: targeted,
+    info: {
+      id: target.id,
+      description: target.description,
+      ...(target.parameters ? { parameters: target.parameters } : {}),
+      sampleCount: targeted.length,
+    },
+  };
+}
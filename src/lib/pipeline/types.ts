@@ -0,0 +1,102 @@
+import { FindingsData, ScoringModel } from '../../app/utils/scoringModel';
+
+/**
+ * Video metadata as stored in data/videos.json
+ */
+export interface VideoRecord {
+  id: string;
+  title: string;
+  channelTitle: string;
+  categoryId: string;
+  publishedAt: string;
+  viewCount: number;
+  likeCount: number;
+  commentCount: number;
+  thumbnailUrl: string;
+  duration: string;
+  // Estimated CTR as a percentage string, e.g. "6.28"
+  ctr: string;
+}
+
+/**
+ * Vision results as cached in data/analysis/thumbnail_analysis.json
+ */
+export interface CachedThumbnailAnalysis {
+  text: string;
+  textEntities: number;
+  textCharCount: number;
+  hasText: boolean;
+  dominantColors: Array<{
+    color: { red: number; green: number; blue: number };
+    score: number;
+    pixelFraction: number;
+    hex: string;
+  }>;
+  colorScore: number;
+  faceCount: number;
+  hasFace: boolean;
+  emotions: Array<{ joy: string; sorrow: string; anger: string; surprise: string }>;
+  // The original script stored an unresolved promise here, which serialized as {}
+  faceCoverage: number | Record<string, never>;
+  objectCount: number;
+  objects: Array<{ name: string; confidence: number; area: number }>;
+  safeSearchRatings?: Record<string, string>;
+}
+
+export interface CachedAnalysisRecord extends VideoRecord {
+  analysis: CachedThumbnailAnalysis;
+  categoryName: string;
+}
+
+/**
+ * Per-thumbnail features the findings and model are aggregated from
+ */
+export interface TrainingFeatures {
+  hasText: boolean;
+  textEntities: number;
+  textCharCount: number;
+  hasFace: boolean;
+  faceCount: number;
+  // Percentage of the image covered by faces
+  faceCoverage: number;
+  // 0-100, contrast and vibrancy of the dominant colors
+  colorScore: number;
+  // Named range of the most dominant color, e.g. "black"
+  dominantColorRange?: string;
+  objectCount: number;
+  objects: string[];
+}
+
+export interface TrainingSample {
+  video: VideoRecord;
+  categoryName: string;
+  features: TrainingFeatures;
+  // Engagement value the model learns to predict, see targets.ts
+  target: number;
+}
+
+/**
+ * Where training features come from
+ * - cached: the Vision results recorded in thumbnail_analysis.json
+ * - reanalyze: the web app's own extractors run over data/thumbnails
+ */
+export type FeatureSource = 'cached' | 'reanalyze';
+
+/**
+ * A generated scoring model together with the findings it was built from
+ */
+export interface ModelArtifact {
+  // 1 for artifacts written before the checksum covered the fit
+  schemaVersion: 1 | 2;
+  version: string;
+  // sha256 of the model and findings, see computeModelChecksum
+  checksum: string;
+  generatedAt: string;
+  source: {
+    featureSource: FeatureSource;
+    sampleCount: number;
+    categories: string[];
+  };
+  model: ScoringModel;
+  findings: FindingsData;
+}
@@ -0,0 +1,74 @@
+import { createHash } from 'crypto';
+import { probeImage } from '@/app/utils/imageProbe';
+import { localDiskStorage } from './local';
+import { s3Storage } from './s3';
+import { vercelBlobStorage } from './vercelBlob';
+import { ObjectStorage, StorageBackendName, StoredObject } from './types';
+
+export * from './types';
+
+const BACKENDS: Record<StorageBackendName, ObjectStorage> = {
+  'vercel-blob': vercelBlobStorage,
+  local: localDiskStorage,
+  s3: s3Storage,
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+/**
+ * Get the storage backend selected by STORAGE_BACKEND
+ * Defaults to Vercel Blob when BLOB_READ_WRITE_TOKEN is set. The local disk is only a default outside
+ * production, so a deployment missing its storage settings fails loudly instead of writing to a read-only disk
+ */
+export function getStorage(): ObjectStorage {
+  const name = (process.env.STORAGE_BACKEND || (process.env.BLOB_READ_WRITE_TOKEN ? 'vercel-blob' : 'local')) as StorageBackendName;
+  const storage = BACKENDS[name];
+
+  if (!storage) {
+    throw new Error(`Unknown storage backend: ${name}`);
+  }
+  if (name === 'local' && !process.env.STORAGE_BACKEND && process.env.NODE_ENV === 'production') {
+    throw new Error('No storage backend configured: set BLOB_READ_WRITE_TOKEN, or STORAGE_BACKEND to s3 or local');
+  }
+  if (name === 'local' && process.env.VERCEL) {
+    throw new Error('Local disk storage is read-only on Vercel: set BLOB_READ_WRITE_TOKEN or use s3');
+  }
+
+  return storage;
+}
+
+/**
+ * Store an uploaded image under a key derived from its contents
+ * Uploading the same image again reuses the stored copy instead of writing a new one
+ */
+export async function storeImage(data: Buffer, contentType?: string): Promise<StoredObject> {
+  const storage = getStorage();
+
+  // The bytes decide the type, falling back to what the client said for formats we can't probe
+  const { format } = probeImage(data);
+  const type = format !== 'unknown' ? `image/${format}` : contentType || 'application/octet-stream';
+  const hash = createHash('sha256').update(data).digest('hex');
+  const key = `images/${hash}.${EXTENSIONS[type] || 'bin'}`;
+
+  if (await storage.exists(key)) {
+    console.log(`Image already stored at ${key}, skipping upload`);
+    return { key, url: await storage.getUrl(key), size: data.length, contentType: type };
+  }
+
+  return storage.put(key, data, type);
+}
+
+/**
+ * Read an image back from storage by the URL it was stored under
+ * Returns null for URLs that don't belong to the configured backend
+ */
+export async function readStoredImage(url: string): Promise<Buffer | null> {
+  const storage = getStorage();
+  const key = storage.keyFromUrl(url);
+  return key ? storage.get(key) : null;
+}
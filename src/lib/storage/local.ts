@@ -0,0 +1,83 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ObjectStorage } from './types';
+
+const DEFAULT_STORAGE_DIR = 'data/uploads';
+
+// Objects are served by src/app/api/storage/[...key]/route.ts
+export const LOCAL_STORAGE_ROUTE = '/api/storage/';
+
+function getStorageDir(): string {
+  const dir = process.env.STORAGE_LOCAL_DIR || DEFAULT_STORAGE_DIR;
+  return path.isAbsolute(dir) ? dir : path.join(process.cwd(), dir);
+}
+
+/**
+ * Resolve a key inside the storage directory, refusing anything that would escape it
+ */
+function resolveKey(key: string): string {
+  if (!/^[a-zA-Z0-9_.-]+(\/[a-zA-Z0-9_.-]+)*$/.test(key) || key.split('/').some(segment => segment === '..' || segment === '.')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return path.join(getStorageDir(), key);
+}
+
+/**
+ * Stores objects on the local disk, for development and self-hosting without a blob store
+ */
+export const localDiskStorage: ObjectStorage = {
+  name: 'local',
+
+  async put(key, data, contentType) {
+    const filePath = resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+
+    return { key, url: await this.getUrl(key), size: data.length, contentType };
+  },
+
+  async get(key) {
+    try {
+      return await fs.readFile(resolveKey(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  },
+
+  async delete(key) {
+    await fs.rm(resolveKey(key), { force: true });
+  },
+
+  async exists(key) {
+    try {
+      await fs.access(resolveKey(key));
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  // Relative to the app, so it works on any host the app is served from
+  async getUrl(key) {
+    return `${LOCAL_STORAGE_ROUTE}${key}`;
+  },
+
+  // Stored files are served to anyone with the URL, so there is nothing to sign
+  async getSignedUrl(key) {
+    return this.getUrl(key);
+  },
+
+  // Only the relative URLs getUrl hands out - an absolute URL could be any host with the same path
+  keyFromUrl(url) {
+    if (!url.startsWith(LOCAL_STORAGE_ROUTE)) return null;
+
+    let pathname: string;
+    try {
+      pathname = new URL(url, 'http://localhost').pathname;
+    } catch {
+      return null;
+    }
+    return pathname.startsWith(LOCAL_STORAGE_ROUTE) ? decodeURIComponent(pathname.slice(LOCAL_STORAGE_ROUTE.length)) : null;
+  },
+};
@@ -0,0 +1,184 @@
+import { createHash, createHmac } from 'crypto';
+import { ObjectStorage } from './types';
+
+interface S3Config {
+  endpoint: URL;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  publicUrl: string;
+}
+
+// Longest expiry S3 accepts for a presigned URL
+const MAX_SIGNED_URL_SECONDS = 7 * 24 * 60 * 60;
+const EMPTY_PAYLOAD_HASH = createHash('sha256').update('').digest('hex');
+
+function getConfig(): S3Config {
+  const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+  if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    throw new Error('S3 storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+  }
+
+  const region = process.env.S3_REGION || 'us-east-1';
+  const endpoint = new URL(process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`);
+  const publicUrl = (process.env.S3_PUBLIC_URL || `${endpoint.origin}/${S3_BUCKET}`).replace(/\/$/, '');
+
+  return { endpoint, bucket: S3_BUCKET, region, accessKeyId: S3_ACCESS_KEY_ID, secretAccessKey: S3_SECRET_ACCESS_KEY, publicUrl };
+}
+
+// RFC 3986 encoding, which is stricter than encodeURIComponent
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// Path-style addressing, which MinIO and other S3-compatible stores expect
+function objectUrl(config: S3Config, key: string): URL {
+  return new URL(`${config.endpoint.origin}${config.endpoint.pathname.replace(/\/$/, '')}/${config.bucket}/${encodeKey(key)}`);
+}
+
+/**
+ * Sign a request with AWS Signature Version 4
+ * Signed headers go in the headers, presigned URLs carry the signature in the query string instead
+ */
+function signV4(
+  config: S3Config,
+  method: string,
+  url: URL,
+  headers: Record<string, string>,
+  payloadHash: string,
+  date: Date
+): string {
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+
+  const headerNames = Object.keys(headers).map(name => name.toLowerCase()).sort();
+  const lowerHeaders = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()]));
+  const canonicalHeaders = headerNames.map(name => `${name}:${lowerHeaders[name]}\n`).join('');
+  const canonicalQuery = [...url.searchParams.entries()]
+    .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [method, url.pathname, canonicalQuery, canonicalHeaders, headerNames.join(';'), payloadHash].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), 's3'), 'aws4_request');
+  return createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+}
+
+async function s3Request(method: 'GET' | 'PUT' | 'DELETE' | 'HEAD', key: string, body?: Buffer, contentType?: string): Promise<Response> {
+  const config = getConfig();
+  const url = objectUrl(config, key);
+  const date = new Date();
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const payloadHash = body ? sha256Hex(body) : EMPTY_PAYLOAD_HASH;
+
+  const headers: Record<string, string> = {
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+  if (contentType) headers['content-type'] = contentType;
+
+  // fetch sets Host itself, but it still has to be signed
+  const signedHeaders = { ...headers, host: url.host };
+  const signature = signV4(config, method, url, signedHeaders, payloadHash, date);
+
+  return fetch(url, {
+    method,
+    headers: {
+      ...headers,
+      authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${amzDate.slice(0, 8)}/${config.region}/s3/aws4_request, SignedHeaders=${Object.keys(signedHeaders).sort().join(';')}, Signature=${signature}`,
+    },
+    body,
+  });
+}
+
+/**
+ * Stores objects in S3 or any S3-compatible store such as MinIO
+ * Talks to the REST API directly, signed with SigV4, so no AWS SDK is needed
+ */
+export const s3Storage: ObjectStorage = {
+  name: 's3',
+
+  async put(key, data, contentType) {
+    const response = await s3Request('PUT', key, data, contentType);
+    if (!response.ok) {
+      throw new Error(`S3 upload returned ${response.status}: ${await response.text()}`);
+    }
+
+    return { key, url: await this.getUrl(key), size: data.length, contentType };
+  },
+
+  async get(key) {
+    const response = await s3Request('GET', key);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`S3 download returned ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  },
+
+  async delete(key) {
+    const response = await s3Request('DELETE', key);
+    // Deleting a missing object succeeds with 204 on S3, but not every compatible store agrees
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete returned ${response.status}`);
+    }
+  },
+
+  async exists(key) {
+    const response = await s3Request('HEAD', key);
+    if (response.status === 404) return false;
+    if (!response.ok) {
+      throw new Error(`S3 lookup returned ${response.status}`);
+    }
+    return true;
+  },
+
+  // Assumes the bucket (or S3_PUBLIC_URL in front of it) allows public reads
+  async getUrl(key) {
+    return `${getConfig().publicUrl}/${encodeKey(key)}`;
+  },
+
+  async getSignedUrl(key, expiresInSeconds = 3600) {
+    const config = getConfig();
+    const url = objectUrl(config, key);
+    const date = new Date();
+    const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+    url.searchParams.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256');
+    url.searchParams.set('X-Amz-Credential', `${config.accessKeyId}/${amzDate.slice(0, 8)}/${config.region}/s3/aws4_request`);
+    url.searchParams.set('X-Amz-Date', amzDate);
+    url.searchParams.set('X-Amz-Expires', String(Math.min(Math.max(1, Math.round(expiresInSeconds)), MAX_SIGNED_URL_SECONDS)));
+    url.searchParams.set('X-Amz-SignedHeaders', 'host');
+
+    const signature = signV4(config, 'GET', url, { host: url.host }, 'UNSIGNED-PAYLOAD', date);
+    url.searchParams.set('X-Amz-Signature', signature);
+    return url.toString();
+  },
+
+  keyFromUrl(url) {
+    let publicUrl: string;
+    try {
+      publicUrl = getConfig().publicUrl;
+    } catch {
+      return null;
+    }
+    return url.startsWith(`${publicUrl}/`) ? decodeURIComponent(url.slice(publicUrl.length + 1).split('?')[0]) : null;
+  },
+};
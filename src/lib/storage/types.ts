@@ -0,0 +1,31 @@
+/**
+ * Backend-neutral shapes for storing uploaded images.
+ * Keys are slash-separated paths relative to the backend's root, e.g. images/<sha256>.jpg
+ */
+
+export type StorageBackendName = 'vercel-blob' | 'local' | 's3';
+
+export interface StoredObject {
+  key: string;
+  // Public URL the object can be displayed from
+  url: string;
+  size: number;
+  contentType: string;
+}
+
+/**
+ * Somewhere uploaded images are kept.
+ * Backends whose objects are already public return the public URL from getSignedUrl.
+ */
+export interface ObjectStorage {
+  readonly name: StorageBackendName;
+  put(key: string, data: Buffer, contentType: string): Promise<StoredObject>;
+  // Null when the object doesn't exist
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  getUrl(key: string): Promise<string>;
+  getSignedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+  // The key behind a URL this backend handed out, or null for any other URL
+  keyFromUrl(url: string): string | null;
+}
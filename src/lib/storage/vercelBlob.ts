@@ -0,0 +1,81 @@
+import { BlobNotFoundError, del, head, put } from '@vercel/blob';
+import { ObjectStorage } from './types';
+
+/**
+ * Host of the configured store's public blobs, e.g. <store>.public.blob.vercel-storage.com
+ * The store id is part of the token (vercel_blob_rw_<store>_<secret>), the same way the Blob SDK reads it
+ */
+function getStoreHost(): string {
+  const [, , , storeId] = (process.env.BLOB_READ_WRITE_TOKEN || '').split('_');
+  if (!storeId) {
+    throw new Error('Vercel Blob storage needs BLOB_READ_WRITE_TOKEN');
+  }
+  return `${storeId.toLowerCase()}.public.blob.vercel-storage.com`;
+}
+
+// Blobs are stored without a random suffix, so a key's URL is known without asking the Blob API
+function blobUrl(key: string): string {
+  return `https://${getStoreHost()}/${key.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * Stores objects in Vercel Blob, configured with BLOB_READ_WRITE_TOKEN
+ */
+export const vercelBlobStorage: ObjectStorage = {
+  name: 'vercel-blob',
+
+  async put(key, data, contentType) {
+    // Keys are already unique, so Blob's random suffix would only defeat deduplication
+    const blob = await put(key, data, {
+      access: 'public',
+      contentType,
+      addRandomSuffix: false,
+    });
+
+    return { key, url: blob.url, size: data.length, contentType };
+  },
+
+  async get(key) {
+    const response = await fetch(blobUrl(key));
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Blob request returned ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  },
+
+  async delete(key) {
+    await del(blobUrl(key));
+  },
+
+  async exists(key) {
+    try {
+      await head(blobUrl(key));
+      return true;
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) return false;
+      throw error;
+    }
+  },
+
+  async getUrl(key) {
+    return blobUrl(key);
+  },
+
+  // Blobs are stored with public access, so their URL needs no signature
+  async getSignedUrl(key) {
+    return this.getUrl(key);
+  },
+
+  // Only URLs on this store's host, not every Blob store's
+  keyFromUrl(url) {
+    try {
+      const parsed = new URL(url);
+      return parsed.protocol === 'https:' && parsed.hostname === getStoreHost()
+        ? decodeURIComponent(parsed.pathname.slice(1))
+        : null;
+    } catch {
+      return null;
+    }
+  },
+};
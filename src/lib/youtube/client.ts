@@ -0,0 +1,170 @@
+import fs from 'fs';
+import { google } from 'googleapis';
+import { YouTubeDataClient } from '@/app/utils/youtube';
+
+/**
+ * Recorded Data API responses, keyed by method and then by request
+ * See requestKey for how requests are keyed
+ */
+export interface YouTubeFixture {
+  listChannels: Record<string, Awaited<ReturnType<YouTubeDataClient['listChannels']>>>;
+  listPlaylistItems: Record<string, Awaited<ReturnType<YouTubeDataClient['listPlaylistItems']>>>;
+  listVideos: Record<string, Awaited<ReturnType<YouTubeDataClient['listVideos']>>>;
+}
+
+// Stable key for a request's parameters, e.g. {"forHandle":"mkbhd"}
+function requestKey(params: object): string {
+  return JSON.stringify(
+    Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined).sort(([a], [b]) => a.localeCompare(b)))
+  );
+}
+
+/**
+ * Data API client over googleapis
+ */
+export function createYoutubeDataClient(apiKey: string): YouTubeDataClient {
+  const youtube = google.youtube({ version: 'v3', auth: apiKey });
+
+  return {
+    async listChannels(params) {
+      const response = await youtube.channels.list({
+        part: ['snippet', 'contentDetails'],
+        id: params.id ? [params.id] : undefined,
+        forHandle: params.forHandle,
+        forUsername: params.forUsername,
+      });
+      return response.data;
+    },
+    async listPlaylistItems(params) {
+      const response = await youtube.playlistItems.list({ part: ['contentDetails'], ...params });
+      return response.data;
+    },
+    async listVideos(params) {
+      const response = await youtube.videos.list({ part: ['snippet', 'statistics', 'contentDetails'], id: params.id });
+      return response.data;
+    },
+  };
+}
+
+/**
+ * Stand-in client that replays recorded responses
+ * Requests that weren't recorded fail, so a fixture run never silently goes to the network
+ */
+export function createFixtureYoutubeClient(fixture: YouTubeFixture): YouTubeDataClient {
+  const replay = <T>(responses: Record<string, T>, method: string, params: object): T => {
+    const key = requestKey(params);
+    if (!(key in responses)) {
+      throw new Error(`No recorded YouTube response for ${method} ${key}`);
+    }
+    return responses[key];
+  };
+
+  return {
+    async listChannels(params) {
+      return replay(fixture.listChannels, 'listChannels', params);
+    },
+    async listPlaylistItems(params) {
+      return replay(fixture.listPlaylistItems, 'listPlaylistItems', params);
+    },
+    async listVideos(params) {
+      return replay(fixture.listVideos, 'listVideos', params);
+    },
+  };
+}
+
+/**
+ * Wrap a client so every response is also written into a fixture
+ * onRecord runs after each response is added, e.g. to save the fixture
+ */
+export function recordYoutubeClient(
+  client: YouTubeDataClient,
+  fixture: YouTubeFixture,
+  onRecord: (fixture: YouTubeFixture) => Promise<void> = async () => {}
+): YouTubeDataClient {
+  const record = async <T>(responses: Record<string, T>, params: object, response: T): Promise<T> => {
+    responses[requestKey(params)] = response;
+    await onRecord(fixture);
+    return response;
+  };
+
+  return {
+    async listChannels(params) {
+      return record(fixture.listChannels, params, await client.listChannels(params));
+    },
+    async listPlaylistItems(params) {
+      return record(fixture.listPlaylistItems, params, await client.listPlaylistItems(params));
+    },
+    async listVideos(params) {
+      return record(fixture.listVideos, params, await client.listVideos(params));
+    },
+  };
+}
+
+// Fixture files by path, read once. Null when the file couldn't be read or parsed
+const loadedFixtures = new Map<string, YouTubeFixture | null>();
+
+function loadFixture(fixturePath: string, recording: boolean): YouTubeFixture | null {
+  if (!loadedFixtures.has(fixturePath)) {
+    let fixture: YouTubeFixture | null;
+    try {
+      fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+    } catch (error: any) {
+      if (recording && error.code === 'ENOENT') {
+        // Recording starts a new fixture
+        fixture = { listChannels: {}, listPlaylistItems: {}, listVideos: {} };
+      } else {
+        console.error(`Error reading YouTube fixture at ${fixturePath}:`, error);
+        fixture = null;
+      }
+    }
+    loadedFixtures.set(fixturePath, fixture);
+  }
+
+  return loadedFixtures.get(fixturePath) as YouTubeFixture | null;
+}
+
+// Writes to a fixture file, one after another so concurrent responses don't interleave
+let pendingFixtureWrite: Promise<void> = Promise.resolve();
+
+function saveFixture(fixturePath: string, fixture: YouTubeFixture): Promise<void> {
+  pendingFixtureWrite = pendingFixtureWrite
+    .then(() => fs.promises.writeFile(fixturePath, JSON.stringify(fixture, null, 2)))
+    .catch(error => console.error(`Error saving YouTube fixture at ${fixturePath}:`, error));
+  return pendingFixtureWrite;
+}
+
+/**
+ * The client for the current environment
+ * YOUTUBE_API_FIXTURE points at a recorded fixture file for running without the API; otherwise YOUTUBE_API_KEY is used.
+ * With YOUTUBE_API_RECORD=true as well, requests go to the API and their responses are saved into the fixture.
+ * Returns null when neither is configured or the fixture can't be read
+ */
+export function getYoutubeDataClient(): YouTubeDataClient | null {
+  const fixturePath = process.env.YOUTUBE_API_FIXTURE;
+  const recording = process.env.YOUTUBE_API_RECORD === 'true';
+
+  if (fixturePath) {
+    const fixture = loadFixture(fixturePath, recording);
+    if (!fixture) {
+      return null;
+    }
+
+    if (recording) {
+      if (!process.env.YOUTUBE_API_KEY) {
+        console.error('YOUTUBE_API_RECORD needs YOUTUBE_API_KEY to record from');
+        return null;
+      }
+      return recordYoutubeClient(
+        createYoutubeDataClient(process.env.YOUTUBE_API_KEY),
+        fixture,
+        recorded => saveFixture(fixturePath, recorded)
+      );
+    }
+
+    return createFixtureYoutubeClient(fixture);
+  }
+  if (process.env.YOUTUBE_API_KEY) {
+    return createYoutubeDataClient(process.env.YOUTUBE_API_KEY);
+  }
+  return null;
+}